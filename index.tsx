@@ -1,52 +1,309 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo, useReducer } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Chat } from "@google/genai";
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import '@fortawesome/fontawesome-free/css/all.min.css';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
+import {
+    EmergencyContact, ContactAlert, loadContacts, saveContacts, loadAlertTemplate, saveAlertTemplate,
+    createContact, moveContact, buildContactAlerts, getBatteryLevel, DEFAULT_ALERT_TEMPLATE,
+} from './services/contacts';
+import {
+    CheckInSession, CheckInStage, createCheckInSession, getCheckInStage, getCheckInRemaining,
+    verifyCheckInPin, loadCheckInSession, saveCheckInSession,
+} from './services/checkIn';
+import {
+    VaultSession, createSession, appendChunk, finishSession, listSessions, getSessionBlob,
+    getSessionChunkBlobs, deleteSession, recoverUnfinishedSessions, appendEvidence, getEvidence,
+    VaultRoute, saveRoute, listRoutes, deleteRoute,
+} from './services/evidenceVault';
+import {
+    ChainHead, EvidenceManifest, VerificationResult, startChain, advanceChain, createChunkEntry,
+    createLocationEntry, verifyEntries, buildManifest, verifyManifest, getDeviceKeyFingerprint,
+} from './services/evidenceChain';
+import {
+    LiveShareSettings, LiveShareTransport, TransportKind, loadLiveShareSettings, saveLiveShareSettings,
+    createLiveSession, endLiveSession, createTransport, toPositionUpdate,
+} from './services/liveShare';
+import { LiveSession } from './services/liveShareProtocol';
+import {
+    SafeZone, ZoneEvent, ZoneShape, loadSafeZones, saveSafeZones, loadZoneEvents, saveZoneEvents, createSafeZone,
+    detectZoneTransitions, isUnexpectedExit,
+} from './services/safeZones';
+import { LatLng, compassPoint, formatDistance } from './services/geo';
+import {
+    GestureAction, GestureBinding, GesturePattern, GESTURE_ACTION_LABELS, HARDWARE_KEYS, loadGestureBindings,
+    saveGestureBindings, createGestureBinding, createGestureRecognizer, describeGesture, DEFAULT_GESTURE_BINDINGS,
+} from './services/gestures';
+import {
+    FallDetectionSettings, FallSensitivity, loadFallSettings, saveFallSettings, createFallDetector, toMotionSample,
+    requestMotionPermission,
+} from './services/fallDetection';
+import {
+    AudioFrame, ListenSettings, SAFE_WORD_ENROLMENTS, loadListenSettings, saveListenSettings,
+    createDistressDetector, createSafeWordTemplate, createSpeechSegmenter, startMicrophoneFrames,
+} from './services/distressAudio';
+import {
+    CallerPersona, PersonaFields, loadPersonas, savePersonas, createPersona, parsePersonas, exportPersonas,
+    readPersonaPhoto, findVoice, DEFAULT_PERSONAS,
+} from './services/personas';
+import {
+    ScheduledCall, FAKE_CALL_DELAYS, loadScheduledCall, saveScheduledCall, loadGestureCallerId, saveGestureCallerId,
+    scheduleCallIn, scheduleCallAt, isMissed,
+} from './services/fakeCallSchedule';
+import {
+    CallScriptIO, ScriptOption, parseCallScript, validateCallScript, firstLine, runCallScript, createReplyTracker,
+} from './services/callScript';
+import {
+    AiReply, AiSource, AiSettings, AiProviderKind, AI_PROVIDER_LABELS, SAFETY_SYSTEM_INSTRUCTION, loadAiSettings, saveAiSettings,
+    createAiProvider,
+} from './services/aiProvider';
+import {
+    ChatMessage, Conversation, ChatContextSettings, loadConversations, saveConversations, loadChatContextSettings,
+    saveChatContextSettings, createConversation, addMessage, toAiHistory, describeSituation, withSituation,
+} from './services/conversations';
+import {
+    HELP_PLACES_SCHEMA, HELP_PLACE_TYPES, HelpPlace, NearbySort,
+    directionsUrl, helpPlacesPrompt, measurePlaces, parseHelpPlaces, phoneHref, sortPlaces,
+} from './services/nearbyHelp';
+import { INITIAL_MODE, isEmergencyVisible, mainScreen, modeReducer, showsNav } from './services/appMode';
+import {
+    EmergencyPins, MIN_PIN_LENGTH, checkPin, hashPin, isValidPin, loadEmergencyPins, matchesPin, saveEmergencyPins,
+} from './services/emergencyPins';
+import {
+    CALCULATOR_KEYS, DECOY_TITLES, DecoyKind, DecoyNote, DisguiseSettings, INITIAL_CALCULATOR,
+    createDecoyNote, isValidUnlock, loadDecoyNotes, loadDisguiseSettings, normalizeUnlock, pressCalculatorKey,
+    saveDecoyNotes, saveDisguiseSettings,
+} from './services/disguise';
+import {
+    SOS_TRIGGERS, SosCountdown, SosSettings, SosTrigger, createSosCountdown, loadSosSettings, saveSosSettings,
+    tickSosCountdown, tickVibration,
+} from './services/sosCountdown';
+import {
+    ALERT_CHANNEL_KINDS, ALERT_EVENT_LABELS, AlertChannel, AlertChannelFields, AlertChannelKind, AlertDispatcher,
+    ComposedAlert, OutboxEntry, SubscribableEvent, channelFieldsError, createAlertChannel, createAlertDispatcher,
+    createAlertEvent, createWebhookSecret, loadAlertChannels, loadAlertOutbox, saveAlertChannels,
+    toggleChannelEvent,
+} from './services/alertDispatch';
+import { AlertEventType, AlertLocation } from './services/alertProtocol';
+import { getPushPublicKey, loadPushContact, savePushContact, subscribeToPush } from './services/webPush';
+import { SafetyArticle } from './services/safetyArticles';
+import { safetyLibrary } from './services/safetyLibrary';
+import { AI_ERROR_MESSAGES, AI_MAX_ATTEMPTS, requestWithRetry, toAiError } from './services/aiRequest';
+import { MarkdownInline, parseMarkdown, safeHref } from './services/markdown';
+import { getSirenUrl, getRingtoneUrl, getAlarmUrl, getDtmfUrl, DTMF_KEYS } from './services/sounds';
+import { TILE_URL_TEMPLATE, TILE_ATTRIBUTION, MAX_OFFLINE_TILES, downloadTiles, countCachedTiles, clearCachedTiles } from './services/offlineTiles';
+import { TrackPoint, loadTrack, saveTrack, toTrackPoint, appendTrackPoint, trackToGpx, trackToGeoJson } from './services/locationTrack';
+import { downloadBlob } from './services/download';
+import { createId } from './services/storage';
 
-declare global {
-    interface Window {
-        L: any; // Leaflet library
+// Leaflet can't locate its default marker images once bundled, so point it at the bundled copies.
+delete L.Icon.Default.prototype._getIconUrl;
+L.Icon.Default.mergeOptions({
+    iconRetinaUrl: markerIcon2x,
+    iconUrl: markerIcon,
+    shadowUrl: markerShadow,
+});
+
+type ContactForm = Omit<EmergencyContact, 'id'>;
+type PersonaForm = PersonaFields;
+type GestureDraft = {
+    kind: GesturePattern['kind'];
+    key: string;
+    count: number;
+    windowMs: number;
+    durationMs: number;
+    sequence: string;
+    ctrl: boolean;
+    alt: boolean;
+    shift: boolean;
+    action: GestureAction;
+};
+type ZoneDraft = { mode: ZoneShape['type']; name: string; radius: number; points: LatLng[] };
+
+const RECORDING_MIME_TYPE = 'video/webm';
+const RECORDING_TIMESLICE_MS = 1000;
+// Browsers can't route speech to the earpiece, so "speaker off" is just quieter.
+const EARPIECE_VOLUME = 0.35;
+// Pause between caller lines when the microphone can't tell when the user stops talking.
+const FALLBACK_REPLY_MS = 1500;
+
+const emptyContactForm: ContactForm = { name: '', phone: '', email: '', relationship: '' };
+const emptyChannelForm: AlertChannelFields = { kind: 'webhook', label: '', target: '', secret: '' };
+const emptyPersonaForm: PersonaForm = { name: '', photo: null, voiceURI: null, rate: 1, pitch: 1, script: '' };
+const emptyGestureDraft: GestureDraft = {
+    kind: 'presses', key: 'AudioVolumeUp', count: 3, windowMs: 1500, durationMs: 1000, sequence: '..-',
+    ctrl: true, alt: false, shift: true, action: 'discreetSos',
+};
+const emptyZoneDraft: ZoneDraft = { mode: 'circle', name: '', radius: 150, points: [] };
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] => nodes.map((node, i) => {
+    switch (node.kind) {
+        case 'text': return node.text;
+        case 'strong': return <strong key={i}>{renderInline(node.children)}</strong>;
+        case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+        case 'code': return <code key={i} style={styles.markdownCode}>{node.text}</code>;
+        case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" style={styles.markdownLink}>{renderInline(node.children)}</a>;
+        case 'break': return <br key={i} />;
     }
-}
+});
 
-type ChatMessage = { role: 'user' | 'bot'; text: string; };
+// Model output is parsed into elements, never injected as HTML.
+const Markdown = ({ source }: { source: string }) => (
+    <>
+        {parseMarkdown(source).map((block, i) => {
+            switch (block.kind) {
+                case 'heading': return React.createElement(`h${Math.min(block.level + 2, 6)}`, { key: i, style: styles.markdownHeading }, renderInline(block.children));
+                case 'paragraph': return <p key={i} style={styles.markdownBlock}>{renderInline(block.children)}</p>;
+                case 'list': {
+                    const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+                    return block.ordered
+                        ? <ol key={i} style={styles.markdownList}>{items}</ol>
+                        : <ul key={i} style={styles.markdownList}>{items}</ul>;
+                }
+                case 'quote': return <blockquote key={i} style={styles.markdownQuote}>{renderInline(block.children)}</blockquote>;
+                case 'code': return <pre key={i} style={styles.markdownPre}><code>{block.text}</code></pre>;
+                case 'rule': return <hr key={i} style={styles.markdownRule} />;
+            }
+        })}
+    </>
+);
 
 const App = () => {
     const [view, setView] = useState('home');
-    const [isEmergency, setIsEmergency] = useState(false);
+    const [mode, dispatchMode] = useReducer(modeReducer, INITIAL_MODE);
     const [location, setLocation] = useState<{latitude: number, longitude: number} | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [isRecording, setIsRecording] = useState(false);
-    const [showFakeCall, setShowFakeCall] = useState(false);
-    const [fakeCallContact, setFakeCallContact] = useState('');
-    const [showContactSelector, setShowContactSelector] = useState(false);
-    const [isCallActive, setIsCallActive] = useState(false);
+    const [fakeCaller, setFakeCaller] = useState<CallerPersona | null>(null);
+    const [personas, setPersonas] = useState<CallerPersona[]>(loadPersonas);
+    const [personaForm, setPersonaForm] = useState<PersonaForm>(emptyPersonaForm);
+    const [editingPersonaId, setEditingPersonaId] = useState<string | null>(null);
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+    const [scheduledCall, setScheduledCall] = useState<ScheduledCall | null>(loadScheduledCall);
+    const [fakeCallDelay, setFakeCallDelay] = useState<number | 'at'>(0);
+    const [fakeCallTime, setFakeCallTime] = useState('');
+    const [gestureCallerId, setGestureCallerId] = useState<string | null>(loadGestureCallerId);
     const [callTimer, setCallTimer] = useState(0);
+    const [callOptions, setCallOptions] = useState<ScriptOption[] | null>(null);
+    const [isCallMuted, setIsCallMuted] = useState(false);
+    const [isCallSpeaker, setIsCallSpeaker] = useState(false);
+    const [showKeypad, setShowKeypad] = useState(false);
+    const [keypadDigits, setKeypadDigits] = useState('');
     const [aiResponse, setAiResponse] = useState('');
+    const [aiSources, setAiSources] = useState<AiSource[]>([]);
+    const [copiedText, setCopiedText] = useState<string | null>(null);
+    const [aiFallback, setAiFallback] = useState<{ reason: string; articles: SafetyArticle[] } | null>(null);
+    const [libraryQuery, setLibraryQuery] = useState('');
+    const [libraryTag, setLibraryTag] = useState<string | null>(null);
+    const [openArticle, setOpenArticle] = useState<SafetyArticle | null>(null);
+    const [helpPlaces, setHelpPlaces] = useState<HelpPlace[] | null>(null);
+    const [helpSort, setHelpSort] = useState<NearbySort>('distance');
+    const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+    const aiProvider = useMemo(() => createAiProvider(aiSettings), [aiSettings]);
     const [isLoading, setIsLoading] = useState(false);
-    const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+    const [streamingReply, setStreamingReply] = useState<string | null>(null);
+    const [aiNotice, setAiNotice] = useState<string | null>(null);
+    const [conversations, setConversations] = useState<Conversation[]>(loadConversations);
+    const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+    const [showConversationList, setShowConversationList] = useState(false);
+    const [chatContext, setChatContext] = useState<ChatContextSettings>(loadChatContextSettings);
     const [chatInput, setChatInput] = useState('');
-    const [showSharingOptions, setShowSharingOptions] = useState(false);
-    const [isSharingLocation, setIsSharingLocation] = useState(false);
     const [sharingEndTime, setSharingEndTime] = useState<number | null>(null);
     const [remainingTime, setRemainingTime] = useState('');
-    const [volumeUpCount, setVolumeUpCount] = useState(0);
+    const [gestureBindings, setGestureBindings] = useState<GestureBinding[]>(loadGestureBindings);
+    const [gestureDraft, setGestureDraft] = useState<GestureDraft>(emptyGestureDraft);
+    const [lastGesture, setLastGesture] = useState<string | null>(null);
+    const [fallSettings, setFallSettings] = useState<FallDetectionSettings>(loadFallSettings);
+    const [listenSettings, setListenSettings] = useState<ListenSettings>(loadListenSettings);
+    const [sosSettings, setSosSettings] = useState<SosSettings>(loadSosSettings);
+    const [sosCountdown, setSosCountdown] = useState<SosCountdown | null>(null);
+    const [safeWordRecordings, setSafeWordRecordings] = useState<AudioFrame[][]>([]);
+    const [isRecordingSafeWord, setIsRecordingSafeWord] = useState(false);
+    const [contacts, setContacts] = useState<EmergencyContact[]>(loadContacts);
+    const [alertTemplate, setAlertTemplate] = useState<string>(loadAlertTemplate);
+    const [contactAlerts, setContactAlerts] = useState<ContactAlert[]>([]);
+    const [alertChannels, setAlertChannels] = useState<AlertChannel[]>(loadAlertChannels);
+    const [alertOutbox, setAlertOutbox] = useState<OutboxEntry[]>(loadAlertOutbox);
+    const [composedAlerts, setComposedAlerts] = useState<ComposedAlert[]>([]);
+    const [channelForm, setChannelForm] = useState<AlertChannelFields>(emptyChannelForm);
+    const [pushKey, setPushKey] = useState<string | null>(null);
+    const [pushContact, setPushContact] = useState<string>(loadPushContact);
+    const [pushSenderKey, setPushSenderKey] = useState('');
+    const [pushSubscription, setPushSubscription] = useState<string | null>(null);
+    const [contactForm, setContactForm] = useState<ContactForm>(emptyContactForm);
+    const [editingContactId, setEditingContactId] = useState<string | null>(null);
+    const [checkInSession, setCheckInSession] = useState<CheckInSession | null>(loadCheckInSession);
+    const [checkInStage, setCheckInStage] = useState<CheckInStage>('waiting');
+    const [checkInRemaining, setCheckInRemaining] = useState(0);
+    const [checkInPin, setCheckInPin] = useState('');
+    const [emergencyPins, setEmergencyPins] = useState<EmergencyPins>(loadEmergencyPins);
+    const [pinForm, setPinForm] = useState({ current: '', cancel: '', duress: '' });
+    const [showStopPrompt, setShowStopPrompt] = useState(false);
+    const [stopPin, setStopPin] = useState('');
+    const [disguiseSettings, setDisguiseSettings] = useState<DisguiseSettings>(loadDisguiseSettings);
+    const [isLocked, setIsLocked] = useState(() => disguiseSettings.enabled && !!disguiseSettings.unlock);
+    const [disguiseForm, setDisguiseForm] = useState<{ decoy: DecoyKind; secret: string }>({ decoy: disguiseSettings.decoy, secret: '' });
+    const [calculator, setCalculator] = useState(INITIAL_CALCULATOR);
+    const [decoyNotes, setDecoyNotes] = useState<DecoyNote[]>(loadDecoyNotes);
+    const [decoySearch, setDecoySearch] = useState('');
+    const [decoyDraft, setDecoyDraft] = useState('');
+    const [checkInConfirmPin, setCheckInConfirmPin] = useState('');
+    const [vaultSessions, setVaultSessions] = useState<VaultSession[]>([]);
+    const [vaultRoutes, setVaultRoutes] = useState<VaultRoute[]>([]);
+    const [vaultPlayback, setVaultPlayback] = useState<{ id: string; url: string } | null>(null);
+    const [recoveredCount, setRecoveredCount] = useState(0);
+    const [liveShareSettings, setLiveShareSettings] = useState<LiveShareSettings>(loadLiveShareSettings);
+    const [liveSession, setLiveSession] = useState<LiveSession | null>(null);
+    const [track, setTrack] = useState<TrackPoint[]>(loadTrack);
+    const [safeZones, setSafeZones] = useState<SafeZone[]>(loadSafeZones);
+    const [zoneEvents, setZoneEvents] = useState<ZoneEvent[]>(loadZoneEvents);
+    const [zoneDraft, setZoneDraft] = useState<ZoneDraft>(emptyZoneDraft);
+    const [zonePrompt, setZonePrompt] = useState<ZoneEvent | null>(null);
+    const [offlineTileCount, setOfflineTileCount] = useState(0);
+    const [tileDownload, setTileDownload] = useState<{ done: number; total: number } | null>(null);
+    const [verification, setVerification] = useState<{ label: string; result: VerificationResult } | null>(null);
+    const [deviceKeyFingerprint, setDeviceKeyFingerprint] = useState<string | null>(null);
 
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
-    const recordedChunksRef = useRef<Blob[]>([]);
-    const ai = useRef(new GoogleGenAI({ apiKey: process.env.API_KEY })).current;
-    const chatRef = useRef<Chat | null>(null);
+    const recordingSessionIdRef = useRef<string | null>(null);
+    const recordingSeqRef = useRef(0);
+    const vaultWriteQueueRef = useRef<Promise<void>>(Promise.resolve());
+    const evidenceHeadRef = useRef<ChainHead | null>(null);
+    const liveTransportRef = useRef<LiveShareTransport | null>(null);
     const mapRef = useRef<HTMLDivElement>(null);
     const mapInstanceRef = useRef<any>(null); // Leaflet map instance
     const markerRef = useRef<any>(null); // Leaflet marker instance
-    const locationWatchIdRef = useRef<number | null>(null);
+    const trackLineRef = useRef<any>(null); // Leaflet breadcrumb polyline
+    const accuracyCircleRef = useRef<any>(null); // Leaflet accuracy circle
+    const zoneMapRef = useRef<HTMLDivElement>(null);
+    const zoneMapInstanceRef = useRef<any>(null); // Leaflet map for the safe zone editor
+    const zoneLayerRef = useRef<any>(null); // Leaflet layer group holding zones and the draft
+    const zonesInsideRef = useRef<string[] | null>(null);
+    const helpMapRef = useRef<HTMLDivElement>(null);
+    const helpMapInstanceRef = useRef<any>(null); // Leaflet map for nearby help results
+    const helpLayerRef = useRef<any>(null); // Leaflet layer group holding the result markers
+    const aiAbortRef = useRef<AbortController | null>(null);
     const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
     const locationSharingTimerRef = useRef<NodeJS.Timeout | null>(null);
-    const isSpeakingRef = useRef(false);
-    const volumeUpTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-    const longPressTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const callScriptRef = useRef<ReturnType<typeof runCallScript> | null>(null);
+    const callMicStopRef = useRef<(() => void) | null>(null);
+    const callReplyRef = useRef<{ tracker: ReturnType<typeof createReplyTracker>; resolve: () => void } | null>(null);
+    const callMutedRef = useRef(false);
+    const callSpeakerRef = useRef(false);
+    const runGestureActionRef = useRef<(action: GestureAction) => void>(() => {});
+    const alertDispatcherRef = useRef<AlertDispatcher | null>(null);
+    const alertEmergencyRef = useRef<{ id: string; discreet: boolean } | null>(null);
+    const sendAlertRef = useRef<(type: AlertEventType, location: AlertLocation | null, batteryLevel?: number | null) => void>(() => {});
+    const modeRef = useRef(mode);
+    const handleLocationFixRef = useRef<(position: GeolocationPosition) => void>(() => {});
+    const liveShareIdRef = useRef(0);
     const sirenAudioRef = useRef<HTMLAudioElement | null>(null);
+    const checkInHoldTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
     const requestPermissions = useCallback(async () => {
         try {
@@ -67,21 +324,145 @@ const App = () => {
     useEffect(() => {
         requestPermissions();
     }, [requestPermissions]);
-    
+
     useEffect(() => {
-        chatRef.current = ai.chats.create({
-            model: 'gemini-2.5-flash',
-            config: {
-                systemInstruction: "You are a calming and helpful safety assistant. Provide clear, concise, and supportive advice. If the user seems to be in immediate danger, strongly advise them to contact emergency services immediately.",
-            },
+        getDeviceKeyFingerprint().then(setDeviceKeyFingerprint).catch(err => console.error('Vault Error:', err));
+    }, []);
+
+    const refreshVault = useCallback(async () => {
+        try {
+            setVaultSessions(await listSessions());
+            setVaultRoutes(await listRoutes());
+        } catch (err) {
+            console.error('Vault Error:', err);
+        }
+    }, []);
+
+    // Vault writes run strictly in order so chunks and hash-chain entries stay in sequence.
+    const queueVaultWrite = useCallback((task: () => Promise<void>) => {
+        vaultWriteQueueRef.current = vaultWriteQueueRef.current
+            .then(task)
+            .catch(err => console.error('Vault write failed:', err));
+    }, []);
+
+    const recordLocationEvidence = useCallback((position: GeolocationPosition) => {
+        if (!evidenceHeadRef.current) return;
+        queueVaultWrite(async () => {
+            const head = evidenceHeadRef.current;
+            if (!head) return;
+            const entry = await createLocationEntry(head, position);
+            await appendEvidence(entry);
+            evidenceHeadRef.current = advanceChain(entry);
+        });
+    }, [queueVaultWrite]);
+
+    useEffect(() => {
+        // Close out recordings interrupted by a crash or a killed tab on the previous run
+        recoverUnfinishedSessions(recordingSessionIdRef.current)
+            .then(count => setRecoveredCount(count))
+            .catch(err => console.error('Vault recovery failed:', err))
+            .finally(refreshVault);
+    }, [refreshVault]);
+
+    useEffect(() => {
+        saveContacts(contacts);
+    }, [contacts]);
+
+    useEffect(() => {
+        saveAlertTemplate(alertTemplate);
+    }, [alertTemplate]);
+
+    useEffect(() => {
+        saveAlertChannels(alertChannels);
+    }, [alertChannels]);
+
+    useEffect(() => {
+        savePushContact(pushContact);
+    }, [pushContact]);
+
+    useEffect(() => {
+        // Delivers alerts in the background, starting with any a previous run couldn't send
+        const dispatcher = createAlertDispatcher({
+            onChange: setAlertOutbox,
+            // A channel's newest link replaces its older one, so "it's over" replaces "help".
+            onCompose: alerts => setComposedAlerts(prev => [...prev.filter(a => !alerts.some(b => b.channelId === a.channelId)), ...alerts]),
         });
-    }, [ai]);
+        alertDispatcherRef.current = dispatcher;
+        return () => {
+            dispatcher.close();
+            alertDispatcherRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        savePersonas(personas);
+    }, [personas]);
+
+    useEffect(() => {
+        saveGestureCallerId(gestureCallerId);
+    }, [gestureCallerId]);
+
+    useEffect(() => {
+        saveLiveShareSettings(liveShareSettings);
+    }, [liveShareSettings]);
+
+    useEffect(() => {
+        saveTrack(track);
+    }, [track]);
+
+    useEffect(() => {
+        saveSafeZones(safeZones);
+    }, [safeZones]);
+
+    useEffect(() => {
+        saveZoneEvents(zoneEvents);
+    }, [zoneEvents]);
+
+    // Each emergency or location share starts a fresh route. The previous one moves to the
+    // vault first, and is only cleared once it is safely stored there.
+    const isTracking = mode.emergency || mode.sharing;
+    useEffect(() => {
+        if (!isTracking || track.length === 0) return;
+        const previous = track;
+        const lastAt = previous[previous.length - 1].timestamp;
+        saveRoute({ id: createId(), startedAt: previous[0].timestamp, endedAt: lastAt, points: previous })
+            .then(() => {
+                setTrack(prev => prev.filter(point => point.timestamp > lastAt));
+                refreshVault();
+            })
+            .catch(err => {
+                console.error('Vault Error:', err);
+                setError('The previous route could not be moved to the vault, so this route continues it.');
+            });
+    }, [isTracking]);
+    
+    useEffect(() => {
+        saveAiSettings(aiSettings);
+    }, [aiSettings]);
+
+    useEffect(() => {
+        saveConversations(conversations);
+    }, [conversations]);
+
+    useEffect(() => {
+        saveChatContextSettings(chatContext);
+    }, [chatContext]);
 
     const handleStopSharing = useCallback(() => {
-        setIsSharingLocation(false);
+        liveShareIdRef.current++;
+        dispatchMode({ type: 'sharingStopped' });
         setSharingEndTime(null);
         setRemainingTime('');
-    }, []);
+        liveTransportRef.current?.close();
+        liveTransportRef.current = null;
+        if (liveSession) {
+            endLiveSession(liveShareSettings.relayUrl, liveSession).catch(err => {
+                console.error('Failed to end live session:', err);
+                setError('The relay could not be told to end the live link. It stays viewable until it expires.');
+            });
+            setLiveSession(null);
+        }
+    }, [liveSession, liveShareSettings.relayUrl]);
     
     const startRecording = useCallback(async () => {
         try {
@@ -89,21 +470,47 @@ const App = () => {
             if (videoRef.current) {
                 videoRef.current.srcObject = stream;
             }
-            mediaRecorderRef.current = new MediaRecorder(stream, { mimeType: 'video/webm' });
-            mediaRecorderRef.current.ondataavailable = (event: BlobEvent) => {
+            const sessionId = createId();
+            await createSession(sessionId, RECORDING_MIME_TYPE);
+            recordingSessionIdRef.current = sessionId;
+            recordingSeqRef.current = 0;
+            evidenceHeadRef.current = startChain(sessionId);
+
+            const recorder = new MediaRecorder(stream, { mimeType: RECORDING_MIME_TYPE });
+            // Each timeslice is persisted and hash-chained as soon as it arrives.
+            recorder.ondataavailable = (event: BlobEvent) => {
                 if (event.data.size > 0) {
-                    recordedChunksRef.current.push(event.data);
+                    const seq = recordingSeqRef.current++;
+                    queueVaultWrite(async () => {
+                        await appendChunk(sessionId, seq, event.data);
+                        const head = evidenceHeadRef.current;
+                        if (!head) return;
+                        const entry = await createChunkEntry(head, seq, event.data);
+                        await appendEvidence(entry);
+                        evidenceHeadRef.current = advanceChain(entry);
+                    });
                 }
             };
-            mediaRecorderRef.current.start();
+            recorder.onstop = () => {
+                queueVaultWrite(async () => {
+                    evidenceHeadRef.current = null;
+                    await finishSession(sessionId);
+                });
+                queueVaultWrite(refreshVault);
+                recordingSessionIdRef.current = null;
+            };
+            mediaRecorderRef.current = recorder;
+            recorder.start(RECORDING_TIMESLICE_MS);
             setIsRecording(true);
         } catch (err) {
             setError('Could not start recording. Permissions may be denied.');
         }
-    }, []);
+    }, [refreshVault, queueVaultWrite]);
     
     const activateEmergencyMode = useCallback((isDiscreet: boolean = false) => {
-        if (isEmergency) return;
+        // A discreet emergency runs behind the decoy; a loud one has nothing left to hide.
+        if (disguiseSettings.enabled && disguiseSettings.unlock) setIsLocked(isDiscreet);
+        if (isEmergencyVisible(mode)) return;
 
         if (!isDiscreet) {
             if (sirenAudioRef.current) {
@@ -114,90 +521,243 @@ const App = () => {
             }
         }
 
+        // After a duress stop everything is still running, so a new SOS only brings it back into view.
+        if (mode.emergency) {
+            dispatchMode({ type: 'emergencyStarted' });
+            return;
+        }
+
         navigator.geolocation.getCurrentPosition(
             (position: GeolocationPosition) => {
-                setLocation({
+                const currentLocation = {
                     latitude: position.coords.latitude,
                     longitude: position.coords.longitude
-                });
-                setIsEmergency(true);
+                };
+                setLocation(currentLocation);
+                dispatchMode({ type: 'emergencyStarted' });
                 startRecording();
+                alertEmergencyRef.current = { id: createId(), discreet: isDiscreet };
+                setComposedAlerts([]);
+
+                // Prepare a personalised alert for every saved contact, in priority order.
+                getBatteryLevel().then(batteryLevel => {
+                    setContactAlerts(buildContactAlerts(contacts, alertTemplate, {
+                        emergencyType: isDiscreet ? 'Discreet SOS' : 'SOS',
+                        location: currentLocation,
+                        time: new Date(),
+                        batteryLevel,
+                    }));
+                    sendAlertRef.current('emergencyStarted', { ...currentLocation, accuracy: position.coords.accuracy }, batteryLevel);
+                });
             },
             () => {
                 setError('Could not get location. Please ensure location services are enabled.');
             },
             { enableHighAccuracy: true }
         );
-    }, [isEmergency, startRecording]);
+    }, [mode.emergency, mode.disguised, disguiseSettings, startRecording, contacts, alertTemplate]);
 
     useEffect(() => {
-        // This effect handles the map and live location updates
-        if ((isEmergency || isSharingLocation) && location) {
-            // Initialize map if it doesn't exist
-            if (mapRef.current && !mapInstanceRef.current && window.L) {
-                // Set default icon path for Leaflet
-                delete window.L.Icon.Default.prototype._getIconUrl;
-                window.L.Icon.Default.mergeOptions({
-                  iconRetinaUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
-                  iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
-                  shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
-                });
-                
-                const map = window.L.map(mapRef.current).setView([location.latitude, location.longitude], 17);
-                window.L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-                    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-                }).addTo(map);
-                const marker = window.L.marker([location.latitude, location.longitude]).addTo(map);
-                
-                mapInstanceRef.current = map;
-                markerRef.current = marker;
+        // This effect drives the check-in timer through its warning stages
+        saveCheckInSession(checkInSession);
+        if (!checkInSession) return;
+
+        const tick = () => {
+            const now = Date.now();
+            const stage = getCheckInStage(checkInSession, now);
+            setCheckInStage(stage);
+            setCheckInRemaining(getCheckInRemaining(checkInSession, now));
+
+            if (stage === 'warning' && 'vibrate' in navigator) {
+                navigator.vibrate(400);
             }
-            // Start watching location
-            if (locationWatchIdRef.current === null) {
-                locationWatchIdRef.current = navigator.geolocation.watchPosition(
-                    (position: GeolocationPosition) => {
-                        const newPos = {
-                            latitude: position.coords.latitude,
-                            longitude: position.coords.longitude,
-                        };
-                        setLocation(newPos); 
-
-                        if (mapInstanceRef.current && markerRef.current) {
-                            const newLatLng = [newPos.latitude, newPos.longitude];
-                            markerRef.current.setLatLng(newLatLng);
-                            if (!mapInstanceRef.current.dragging?._active) {
-                                mapInstanceRef.current.panTo(newLatLng);
-                            }
-                        }
-                    },
-                    (err: GeolocationPositionError) => {
-                         if (isSharingLocation) {
-                            setRemainingTime('Live tracking paused. Sharing last known location.');
-                        } else {
-                            setError('Live location tracking failed. Sharing last known location.');
-                        }
-                        console.error('watchPosition Error:', err);
-                    },
-                    { enableHighAccuracy: true, maximumAge: 0, timeout: 5000 }
-                );
+            if (stage === 'expired') {
+                setCheckInSession(null);
+                activateEmergencyMode(false);
             }
+        };
+        tick();
+        const intervalId = setInterval(tick, 1000);
+        return () => clearInterval(intervalId);
+    }, [checkInSession, activateEmergencyMode]);
+
+    // Zones are watched during a share, an emergency, or a journey guarded by the check-in timer.
+    const isMonitoringZones = isTracking || !!checkInSession;
+
+    const handleZonePosition = useCallback((point: LatLng, timestamp: number) => {
+        const { inside, events } = detectZoneTransitions(safeZones, zonesInsideRef.current, point, timestamp);
+        zonesInsideRef.current = inside;
+        if (events.length === 0) return;
+
+        setZoneEvents(prev => [...prev, ...events]);
+        const unexpected = events.find(event => isUnexpectedExit(event, safeZones));
+        if (unexpected && !mode.emergency) {
+            setZonePrompt(unexpected);
+            if ('vibrate' in navigator) navigator.vibrate([300, 100, 300]);
         }
-        // Cleanup function
-        return () => {
-            if (locationWatchIdRef.current !== null) {
-                navigator.geolocation.clearWatch(locationWatchIdRef.current);
-                locationWatchIdRef.current = null;
-            }
-            if (!isEmergency && !isSharingLocation && mapInstanceRef.current) {
-                mapInstanceRef.current.remove();
-                mapInstanceRef.current = null;
-                markerRef.current = null;
-            }
+    }, [safeZones, mode.emergency]);
+
+    useEffect(() => {
+        if (!isMonitoringZones) zonesInsideRef.current = null;
+    }, [isMonitoringZones]);
+
+    // Assigned on every render so the long-lived position watch always sees current state.
+    handleLocationFixRef.current = (position: GeolocationPosition) => {
+        const newPos = {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
         };
-    }, [isEmergency, isSharingLocation, location]);
+        setLocation(newPos);
+        setTrack(prev => appendTrackPoint(prev, toTrackPoint(position)));
+        recordLocationEvidence(position);
+        liveTransportRef.current?.publish(toPositionUpdate(position));
+        if (alertEmergencyRef.current) sendAlertRef.current('locationUpdated', { ...newPos, accuracy: position.coords.accuracy });
+        handleZonePosition(newPos, position.timestamp);
+
+        if (mapInstanceRef.current && markerRef.current) {
+            const newLatLng = [newPos.latitude, newPos.longitude];
+            markerRef.current.setLatLng(newLatLng);
+            accuracyCircleRef.current?.setLatLng(newLatLng).setRadius(position.coords.accuracy);
+            if (!mapInstanceRef.current.dragging?._active) {
+                mapInstanceRef.current.panTo(newLatLng);
+            }
+        }
+    };
+
+    useEffect(() => {
+        // This effect watches the live location while anything needs it
+        if (!isMonitoringZones) return;
+        const watchId = navigator.geolocation.watchPosition(
+            (position: GeolocationPosition) => handleLocationFixRef.current(position),
+            (err: GeolocationPositionError) => {
+                if (modeRef.current.sharing) {
+                    setRemainingTime('Live tracking paused. Sharing last known location.');
+                } else {
+                    setError('Live location tracking failed. Sharing last known location.');
+                }
+                console.error('watchPosition Error:', err);
+            },
+            { enableHighAccuracy: true, maximumAge: 0, timeout: 5000 }
+        );
+        return () => navigator.geolocation.clearWatch(watchId);
+    }, [isMonitoringZones]);
+
+    const hasLocation = location !== null;
+
+    useEffect(() => {
+        // This effect keeps the live map on whichever screen shows one. The emergency and
+        // sharing screens each have their own container, so the map follows the one showing.
+        if (mapInstanceRef.current && (!isTracking || mapInstanceRef.current.getContainer() !== mapRef.current)) {
+            mapInstanceRef.current.remove();
+            mapInstanceRef.current = null;
+            markerRef.current = null;
+            trackLineRef.current = null;
+            accuracyCircleRef.current = null;
+        }
+        if (!isTracking || !location || !mapRef.current || mapInstanceRef.current) return;
+        const map = L.map(mapRef.current).setView([location.latitude, location.longitude], 17);
+        L.tileLayer(TILE_URL_TEMPLATE, { attribution: TILE_ATTRIBUTION }).addTo(map);
+        mapInstanceRef.current = map;
+        markerRef.current = L.marker([location.latitude, location.longitude]).addTo(map);
+        trackLineRef.current = L.polyline(track.map(p => [p.latitude, p.longitude]), { color: '#4a90e2', weight: 4 }).addTo(map);
+        accuracyCircleRef.current = L.circle([location.latitude, location.longitude], { radius: 0, color: '#4a90e2', weight: 1, fillOpacity: 0.15 }).addTo(map);
+    }, [isTracking, mode, view, hasLocation]);
+
+    // The breadcrumb is drawn from the stored track, so fixes dropped as jitter don't appear.
+    useEffect(() => {
+        trackLineRef.current?.setLatLngs(track.map(p => [p.latitude, p.longitude]));
+    }, [track]);
+
+    useEffect(() => {
+        // This effect runs the safe zone editor map
+        if (view !== 'zones' || !zoneMapRef.current) return;
+
+        if (!zoneMapInstanceRef.current) {
+            const center = location ? [location.latitude, location.longitude] : [0, 0];
+            const map = L.map(zoneMapRef.current).setView(center, location ? 15 : 2);
+            L.tileLayer(TILE_URL_TEMPLATE, { attribution: TILE_ATTRIBUTION }).addTo(map);
+            map.on('click', (e: any) => {
+                const point = { latitude: e.latlng.lat, longitude: e.latlng.lng };
+                setZoneDraft(draft => ({ ...draft, points: draft.mode === 'circle' ? [point] : [...draft.points, point] }));
+            });
+            zoneMapInstanceRef.current = map;
+            zoneLayerRef.current = L.layerGroup().addTo(map);
+        }
+
+        const layer = zoneLayerRef.current;
+        layer.clearLayers();
+        const drawShape = (shape: ZoneShape, options: object) => shape.type === 'circle'
+            ? L.circle([shape.center.latitude, shape.center.longitude], { radius: shape.radius, ...options })
+            : L.polygon(shape.points.map(p => [p.latitude, p.longitude]), options);
+        safeZones.forEach(zone => {
+            drawShape(zone.shape, { color: '#34c759', weight: 2 }).bindTooltip(zone.name).addTo(layer);
+        });
+        if (zoneDraft.points.length > 0) {
+            const draftShape: ZoneShape = zoneDraft.mode === 'circle'
+                ? { type: 'circle', center: zoneDraft.points[0], radius: zoneDraft.radius }
+                : { type: 'polygon', points: zoneDraft.points };
+            drawShape(draftShape, { color: '#4a90e2', weight: 2, dashArray: '6 4' }).addTo(layer);
+            zoneDraft.points.forEach(p => L.circleMarker([p.latitude, p.longitude], { radius: 4, color: '#4a90e2' }).addTo(layer));
+        }
+    }, [view, safeZones, zoneDraft, location]);
+
+    useEffect(() => {
+        // The editor map's container unmounts with the view, so the map goes with it
+        if (view !== 'zones' && zoneMapInstanceRef.current) {
+            zoneMapInstanceRef.current.remove();
+            zoneMapInstanceRef.current = null;
+            zoneLayerRef.current = null;
+        }
+    }, [view]);
+
+    useEffect(() => {
+        // This effect plots nearby help results around the user's position
+        if (view !== 'nearby' || !helpMapRef.current || !location) return;
+
+        if (!helpMapInstanceRef.current) {
+            const map = L.map(helpMapRef.current).setView([location.latitude, location.longitude], 15);
+            L.tileLayer(TILE_URL_TEMPLATE, { attribution: TILE_ATTRIBUTION }).addTo(map);
+            helpMapInstanceRef.current = map;
+            helpLayerRef.current = L.layerGroup().addTo(map);
+        }
+
+        const layer = helpLayerRef.current;
+        layer.clearLayers();
+        const you = L.circleMarker([location.latitude, location.longitude], { radius: 7, color: '#4a90e2', fillOpacity: 0.8 }).bindTooltip('You').addTo(layer);
+        const markers = (helpPlaces || []).map(place => L.marker([place.latitude, place.longitude])
+            .bindPopup(`${place.name} (${HELP_PLACE_TYPES[place.type].label})`)
+            .addTo(layer));
+        if (markers.length > 0) {
+            helpMapInstanceRef.current.fitBounds(L.featureGroup([you, ...markers]).getBounds(), { padding: [30, 30], maxZoom: 16 });
+        }
+    }, [view, helpPlaces, location]);
+
+    useEffect(() => {
+        if (view !== 'nearby' && helpMapInstanceRef.current) {
+            helpMapInstanceRef.current.remove();
+            helpMapInstanceRef.current = null;
+            helpLayerRef.current = null;
+        }
+    }, [view]);
     
     useEffect(() => {
-        if (isCallActive) {
+        // Whatever ends a call, hanging up or an emergency pre-empting it, releases its script, microphone and voice
+        if (mode.call !== 'idle') return;
+        setCallOptions(null);
+        setShowKeypad(false);
+        callScriptRef.current?.stop();
+        callScriptRef.current = null;
+        callReplyRef.current?.resolve();
+        callReplyRef.current = null;
+        callMicStopRef.current?.();
+        callMicStopRef.current = null;
+        if ('speechSynthesis' in window) {
+            window.speechSynthesis.cancel();
+        }
+    }, [mode.call]);
+
+    useEffect(() => {
+        if (mode.call === 'active') {
             timerIntervalRef.current = setInterval(() => {
                 setCallTimer(prev => prev + 1);
             }, 1000);
@@ -208,10 +768,10 @@ const App = () => {
         return () => {
             if(timerIntervalRef.current) clearInterval(timerIntervalRef.current)
         };
-    }, [isCallActive]);
+    }, [mode.call]);
 
     useEffect(() => {
-        if (isSharingLocation && sharingEndTime) {
+        if (mode.sharing && sharingEndTime) {
             locationSharingTimerRef.current = setInterval(() => {
                 const now = Date.now();
                 const remaining = sharingEndTime - now;
@@ -232,7 +792,7 @@ const App = () => {
                     setRemainingTime(timeString);
                 }
             }, 1000);
-        } else if (isSharingLocation && sharingEndTime === null) {
+        } else if (mode.sharing && sharingEndTime === null) {
             setRemainingTime('Sharing indefinitely');
         }
     
@@ -241,50 +801,147 @@ const App = () => {
                 clearInterval(locationSharingTimerRef.current);
             }
         };
-    }, [isSharingLocation, sharingEndTime, handleStopSharing]);
+    }, [mode.sharing, sharingEndTime, handleStopSharing]);
 
     useEffect(() => {
-        const handleKeyDown = (event: KeyboardEvent) => {
-            if (isEmergency || isCallActive || showFakeCall || showContactSelector || isSharingLocation || showSharingOptions) {
-                return;
-            }
-    
-            if (event.key === 'AudioVolumeUp') {
-                event.preventDefault();
-                if (event.repeat) return; // Ignore repeated events from holding the key
+        saveGestureBindings(gestureBindings);
+    }, [gestureBindings]);
 
-                // Long Press Logic
-                longPressTimeoutRef.current = setTimeout(() => {
-                    activateEmergencyMode(false); // Not discreet
-                    setVolumeUpCount(0);
-                    if (volumeUpTimeoutRef.current) clearTimeout(volumeUpTimeoutRef.current);
-                }, 1000); // 1-second long press
+    useEffect(() => {
+        saveFallSettings(fallSettings);
+    }, [fallSettings]);
 
-                // 4-Quick-Press Logic
-                if (volumeUpTimeoutRef.current) clearTimeout(volumeUpTimeoutRef.current);
-    
-                const newCount = volumeUpCount + 1;
-                setVolumeUpCount(newCount);
-    
-                if (newCount >= 4) {
-                    if(longPressTimeoutRef.current) clearTimeout(longPressTimeoutRef.current); // Cancel long press
-                    activateEmergencyMode(true); // Discreet
-                    setVolumeUpCount(0);
-                } else {
-                    volumeUpTimeoutRef.current = setTimeout(() => {
-                        setVolumeUpCount(0);
-                    }, 1500); // 1.5-second window for multiple presses
-                }
-            } 
+    useEffect(() => {
+        saveEmergencyPins(emergencyPins);
+    }, [emergencyPins]);
+
+    useEffect(() => {
+        saveDisguiseSettings(disguiseSettings);
+    }, [disguiseSettings]);
+
+    useEffect(() => {
+        saveDecoyNotes(decoyNotes);
+    }, [decoyNotes]);
+
+    useEffect(() => {
+        // The tab and app switcher show the decoy's name while it is on screen
+        document.title = isLocked ? DECOY_TITLES[disguiseSettings.decoy] : 'Guardian Angel';
+    }, [isLocked, disguiseSettings.decoy]);
+
+    useEffect(() => {
+        // This effect watches the motion sensors for a hard impact followed by stillness
+        if (!fallSettings.enabled || mode.emergency) return;
+        const detector = createFallDetector(fallSettings.sensitivity, () => {
+            setSosCountdown(current => current ?? createSosCountdown('fall', false, fallSettings.countdownSeconds));
+        });
+        const handleMotion = (event: DeviceMotionEvent) => {
+            const sample = toMotionSample(event);
+            if (sample) detector.push(sample);
         };
+        window.addEventListener('devicemotion', handleMotion);
+        return () => window.removeEventListener('devicemotion', handleMotion);
+    }, [fallSettings, mode.emergency]);
 
-        const handleKeyUp = (event: KeyboardEvent) => {
-            if (event.key === 'AudioVolumeUp') {
-                if (longPressTimeoutRef.current) {
-                    clearTimeout(longPressTimeoutRef.current);
-                }
+    useEffect(() => {
+        saveListenSettings(listenSettings);
+    }, [listenSettings]);
+
+    useEffect(() => {
+        // This effect listens to the microphone for screams, breaking glass or the safe word.
+        // It pauses during an emergency (the recorder owns the microphone) and while enrolling the safe word.
+        if (!listenSettings.enabled || mode.emergency || isRecordingSafeWord) return;
+        let stop: (() => void) | null = null;
+        let cancelled = false;
+        const detector = createDistressDetector(listenSettings, ({ sound }) => {
+            setSosCountdown(current => current ?? createSosCountdown(sound, true, listenSettings.countdownSeconds));
+        });
+        startMicrophoneFrames(detector)
+            .then(stopFrames => {
+                if (cancelled) stopFrames();
+                else stop = stopFrames;
+            })
+            .catch(err => {
+                console.error('Listening Error:', err);
+                setError('Microphone access is needed to listen for distress sounds.');
+                setListenSettings(prev => ({ ...prev, enabled: false }));
+            });
+        return () => {
+            cancelled = true;
+            stop?.();
+        };
+    }, [listenSettings, mode.emergency, isRecordingSafeWord]);
+
+    useEffect(() => {
+        // This effect records one utterance of the safe word for enrolment
+        if (!isRecordingSafeWord) return;
+        let stop: (() => void) | null = null;
+        let cancelled = false;
+        const segmenter = createSpeechSegmenter(frames => {
+            setSafeWordRecordings(prev => [...prev, frames]);
+            setIsRecordingSafeWord(false);
+        });
+        startMicrophoneFrames(segmenter)
+            .then(stopFrames => {
+                if (cancelled) stopFrames();
+                else stop = stopFrames;
+            })
+            .catch(err => {
+                console.error('Safe Word Error:', err);
+                setError('Microphone access is needed to record the safe word.');
+                setIsRecordingSafeWord(false);
+            });
+        return () => {
+            cancelled = true;
+            stop?.();
+        };
+    }, [isRecordingSafeWord]);
+
+    useEffect(() => {
+        if (safeWordRecordings.length < SAFE_WORD_ENROLMENTS) return;
+        setListenSettings(prev => ({ ...prev, safeWord: createSafeWordTemplate(safeWordRecordings) }));
+        setSafeWordRecordings([]);
+    }, [safeWordRecordings]);
+
+    useEffect(() => {
+        saveSosSettings(sosSettings);
+    }, [sosSettings]);
+
+    useEffect(() => {
+        // This effect ticks the SOS countdown, whatever started it, and escalates unless cancelled
+        if (sosCountdown === null) return;
+        if (sosCountdown.remaining <= 0) {
+            setSosCountdown(null);
+            activateEmergencyMode(sosCountdown.discreet);
+            return;
+        }
+        if ('vibrate' in navigator) navigator.vibrate(tickVibration(sosCountdown));
+        const timeout = setTimeout(() => setSosCountdown(current => current && tickSosCountdown(current)), 1000);
+        return () => clearTimeout(timeout);
+    }, [sosCountdown, activateEmergencyMode]);
+
+    useEffect(() => {
+        // This effect feeds hardware key events into the gesture recognizer. It stays on in every
+        // mode, so an SOS works during a fake call or a location share.
+        // While the gesture settings are open, detected gestures are only reported so they can be tried out safely.
+        const isTesting = view === 'gestures';
+        const recognizer = createGestureRecognizer(gestureBindings, binding => {
+            if (isTesting) {
+                setLastGesture(`${describeGesture(binding.pattern)} → ${GESTURE_ACTION_LABELS[binding.action]}`);
+            } else {
+                runGestureActionRef.current(binding.action);
+            }
+        });
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const modifiers = { ctrl: event.ctrlKey, alt: event.altKey, shift: event.shiftKey, meta: event.metaKey };
+            if (recognizer.keyDown(event.key, modifiers, event.repeat, event.timeStamp)) {
+                event.preventDefault();
             }
         };
+
+        const handleKeyUp = (event: KeyboardEvent) => {
+            recognizer.keyUp(event.key, event.timeStamp);
+        };
     
         window.addEventListener('keydown', handleKeyDown);
         window.addEventListener('keyup', handleKeyUp);
@@ -292,10 +949,9 @@ const App = () => {
         return () => {
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
-            if (volumeUpTimeoutRef.current) clearTimeout(volumeUpTimeoutRef.current);
-            if (longPressTimeoutRef.current) clearTimeout(longPressTimeoutRef.current);
+            recognizer.reset();
         };
-    }, [volumeUpCount, isEmergency, isCallActive, showFakeCall, showContactSelector, isSharingLocation, showSharingOptions, activateEmergencyMode]);
+    }, [gestureBindings, view]);
 
 
     const stopRecording = () => {
@@ -303,30 +959,89 @@ const App = () => {
             mediaRecorderRef.current.stop();
             mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
             setIsRecording(false);
-            
-            const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.style.display = 'none';
-            a.href = url;
-            a.download = `emergency-recording-${new Date().toISOString()}.webm`;
-            document.body.appendChild(a);
-            a.click();
-            window.URL.revokeObjectURL(url);
-            document.body.removeChild(a);
-            recordedChunksRef.current = [];
         }
     };
+
+    const handlePlayVaultSession = async (session: VaultSession) => {
+        if (vaultPlayback) URL.revokeObjectURL(vaultPlayback.url);
+        if (vaultPlayback?.id === session.id) {
+            setVaultPlayback(null);
+            return;
+        }
+        const blob = await getSessionBlob(session);
+        setVaultPlayback({ id: session.id, url: URL.createObjectURL(blob) });
+    };
+
+    const handleExportVaultSession = async (session: VaultSession) => {
+        const blob = await getSessionBlob(session);
+        downloadBlob(blob, `emergency-recording-${new Date(session.startedAt).toISOString()}.webm`);
+    };
+
+    // Exports the recording together with its signed hash-chain manifest.
+    const handleExportEvidence = async (session: VaultSession) => {
+        const manifest = await buildManifest(session);
+        const stamp = new Date(session.startedAt).toISOString();
+        downloadBlob(await getSessionBlob(session), `emergency-recording-${stamp}.webm`);
+        downloadBlob(new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }), `emergency-recording-${stamp}.manifest.json`);
+    };
+
+    const handleVerifyVaultSession = async (session: VaultSession) => {
+        const entries = await getEvidence(session.id);
+        const issues = entries.length
+            ? await verifyEntries(entries, await getSessionChunkBlobs(session))
+            : ['No evidence chain was recorded for this session.'];
+        setVerification({ label: new Date(session.startedAt).toLocaleString(), result: { signatureValid: null, signer: null, issues } });
+    };
+
+    const handleVerifyExport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        const manifestFile = files.find(f => f.name.endsWith('.json'));
+        const mediaFile = files.find(f => f !== manifestFile);
+        if (!manifestFile) {
+            setVerification({ label: 'Exported evidence', result: { signatureValid: null, signer: null, issues: ['Select the .manifest.json file (and optionally the recording).'] } });
+            return;
+        }
+        try {
+            const manifest = JSON.parse(await manifestFile.text()) as EvidenceManifest;
+            const result = await verifyManifest(manifest, mediaFile);
+            if (!mediaFile) result.issues.push('No recording was selected, so only the manifest was checked.');
+            setVerification({ label: manifestFile.name, result });
+        } catch (err) {
+            console.error('Verification Error:', err);
+            setVerification({ label: manifestFile.name, result: { signatureValid: null, signer: null, issues: ['The manifest could not be read.'] } });
+        }
+    };
+
+    const handleDeleteVaultSession = async (session: VaultSession) => {
+        if (!window.confirm('Delete this recording permanently?')) return;
+        if (vaultPlayback?.id === session.id) {
+            URL.revokeObjectURL(vaultPlayback.url);
+            setVaultPlayback(null);
+        }
+        await deleteSession(session.id);
+        refreshVault();
+    };
     
-    const handleSos = () => {
-        if (window.confirm('Are you sure you want to activate emergency mode? This will start recording and track your location.')) {
-            activateEmergencyMode(false);
+    // Every trigger goes through here, so they all share the countdown and its cancel screen.
+    const requestSos = (trigger: SosTrigger, discreet: boolean, seconds: number) => {
+        if (seconds <= 0) {
+            activateEmergencyMode(discreet);
+            return;
         }
+        setSosCountdown(current => current ?? createSosCountdown(trigger, discreet, seconds));
+    };
+
+    const handleSos = () => requestSos('button', false, sosSettings.skipConfirmation ? 0 : sosSettings.countdownSeconds);
+
+    const handleCancelSos = () => {
+        setSosCountdown(null);
+        if ('vibrate' in navigator) navigator.vibrate(0);
     };
     
-    const handleStopEmergency = () => {
-        setIsEmergency(false);
-        stopRecording();
+    const silenceEmergency = () => {
+        setShowStopPrompt(false);
+        setStopPin('');
         if (sirenAudioRef.current) {
             sirenAudioRef.current.pause();
             sirenAudioRef.current.currentTime = 0;
@@ -336,377 +1051,2058 @@ const App = () => {
         }
     };
 
-    const startFakeCall = (contactName: string) => {
-        setFakeCallContact(contactName);
-        setShowContactSelector(false);
-        setShowFakeCall(true);
-    };
-
-    const callScripts: { [key: string]: { gender: 'male' | 'female'; script: string[] } } = {
-        'Mom': {
-            gender: 'female',
-            script: [
-                "Hey sweetie, are you on your way?",
-                "I was just about to put dinner in the oven.",
-                "Just wanted to check in. Let me know when you're close!",
-                "Okay, drive safe! See you soon."
-            ]
-        },
-        'Dad': {
-            gender: 'male',
-            script: [
-                "Hi champ, just checking in.",
-                "Did you remember to pick up the milk on your way home?",
-                "We're all out.",
-                "Alright, talk to you in a bit."
-            ]
-        },
-        'Best Friend': {
-            gender: 'female',
-            script: [
-                "OMG, you will not BELIEVE what just happened.",
-                "Are you free to talk right now?",
-                "I have to tell you everything, it's wild.",
-                "Okay call me back as SOON as you can."
-            ]
-        },
-        'Boyfriend': {
-            gender: 'male',
-            script: [
-                "Hey babe, was just thinking about you.",
-                "Are we still on for tonight?",
-                "I was thinking we could grab that pizza you like.",
-                "Can't wait to see you."
-            ]
-        },
-        'Girlfriend': {
-            gender: 'female',
-            script: [
-                "Hey, just calling to hear your voice.",
-                "I miss you! What are you up to right now?",
-                "Hope you're having a good day.",
-                "Talk to you later, okay?"
-            ]
-        },
-        'Unknown Number': {
-            gender: 'male',
-            script: [
-                "We've been trying to reach you concerning your vehicle's extended warranty.",
-                "This is your final notice.",
-                "Please stay on the line to speak with a representative about your options.",
-                "..."
-            ]
-        },
-    };
-
-    const speakInSequence = (lines: string[], voice: SpeechSynthesisVoice | null) => {
-        if (!isSpeakingRef.current || lines.length === 0) {
-            isSpeakingRef.current = false;
-            return;
-        }
+    const handleStopEmergency = () => {
+        dispatchMode({ type: 'emergencyStopped' });
+        setContactAlerts([]);
+        sendAlertRef.current('emergencyEnded', location && { ...location, accuracy: null });
+        alertEmergencyRef.current = null;
+        stopRecording();
+        silenceEmergency();
+    };
 
-        const utterance = new SpeechSynthesisUtterance(lines[0]);
-        if (voice) {
-            utterance.voice = voice;
-        }
-        
-        utterance.onend = () => {
-            setTimeout(() => {
-                speakInSequence(lines.slice(1), voice);
-            }, 1500); // 1.5 second pause for realism
-        };
-        
-        utterance.onerror = (e: SpeechSynthesisErrorEvent) => {
-             // "interrupted" is a common event when speech is cancelled manually (e.g., hanging up).
-             // We don't need to treat it as a critical error.
-             if (e.error !== 'interrupted') {
-                console.error("Speech synthesis error:", e.error);
-             }
-             isSpeakingRef.current = false;
-        };
+    // The duress PIN only changes what is on screen: recording, tracking and alerts carry on.
+    const handleDuressStop = () => {
+        dispatchMode({ type: 'emergencyDisguised' });
+        silenceEmergency();
+    };
 
-        window.speechSynthesis.speak(utterance);
+    const handleSubmitStopPin = async () => {
+        const result = await checkPin(emergencyPins, stopPin);
+        setStopPin('');
+        if (result === 'cancel') {
+            handleStopEmergency();
+        } else if (result === 'duress') {
+            handleDuressStop();
+        } else if ('vibrate' in navigator) {
+            navigator.vibrate([100, 50, 100]);
+        }
     };
 
-    const getVoicesPromise = (): Promise<SpeechSynthesisVoice[]> => {
-        return new Promise(resolve => {
-            const voices = window.speechSynthesis.getVoices();
-            if (voices.length) {
-                resolve(voices);
-                return;
-            }
-            window.speechSynthesis.onvoiceschanged = () => {
-                resolve(window.speechSynthesis.getVoices());
-            };
+    const handleSavePins = async () => {
+        const current = pinForm.current.trim();
+        const cancel = pinForm.cancel.trim();
+        const duress = pinForm.duress.trim();
+        if (emergencyPins.cancel && !(await matchesPin(emergencyPins.cancel, current))) {
+            setError('Enter your current cancel PIN to make changes.');
+            return;
+        }
+        if ((cancel && !isValidPin(cancel)) || (duress && !isValidPin(duress))) {
+            setError(`PINs must be at least ${MIN_PIN_LENGTH} digits.`);
+            return;
+        }
+        if (!cancel && !emergencyPins.cancel) {
+            setError('Set a cancel PIN first.');
+            return;
+        }
+        // A PIN chosen during an emergency could be made up by whoever is holding the phone.
+        if (!emergencyPins.cancel && mode.emergency) {
+            setError('A cancel PIN can only be set while no emergency is running.');
+            return;
+        }
+        const duressMatchesCancel = duress && (cancel ? duress === cancel : await matchesPin(emergencyPins.cancel, duress));
+        const cancelMatchesDuress = cancel && !duress && await matchesPin(emergencyPins.duress, cancel);
+        if (duressMatchesCancel || cancelMatchesDuress) {
+            setError('The duress PIN must be different from the cancel PIN.');
+            return;
+        }
+        setError(null);
+        setEmergencyPins({
+            cancel: cancel ? await hashPin(cancel) : emergencyPins.cancel,
+            duress: duress ? await hashPin(duress) : emergencyPins.duress,
         });
+        setPinForm({ current: '', cancel: '', duress: '' });
     };
 
-    const handleAcceptCall = async () => {
-        setShowFakeCall(false);
-        setIsCallActive(true);
-    
-        const contactInfo = callScripts[fakeCallContact];
-        if (!contactInfo) return;
-    
-        const { gender, script } = contactInfo;
-        
-        if ('speechSynthesis' in window) {
-            window.speechSynthesis.cancel();
-    
-            const voices = await getVoicesPromise();
-            let selectedVoice: SpeechSynthesisVoice | null = null;
-    
-            const voiceFilter = (v: SpeechSynthesisVoice) => {
-                const name = v.name.toLowerCase();
-                const targetGender = gender === 'female' ? 'female' : 'male';
-                return v.lang.startsWith('en') && ((v as any).gender === targetGender || name.includes(targetGender));
-            }
-            
-            const preferredVoices = voices.filter(voiceFilter);
-            selectedVoice = preferredVoices.find(v => v.name.includes('Google')) || preferredVoices[0] || null;
-    
-            if (!selectedVoice) {
-                selectedVoice = voices.find(v => v.lang.startsWith('en')) || null;
-            }
-    
-            isSpeakingRef.current = true;
-            speakInSequence(script, selectedVoice);
+    const handleCalculatorKey = async (key: string) => {
+        const code = calculator.typed;
+        setCalculator(prev => pressCalculatorKey(prev, key));
+        if (key === '=' && code && await matchesPin(disguiseSettings.unlock, normalizeUnlock('calculator', code))) {
+            setCalculator(INITIAL_CALCULATOR);
+            setIsLocked(false);
         }
     };
 
-    const handleHangUp = () => {
-        setIsCallActive(false);
-        if ('speechSynthesis' in window) {
-            isSpeakingRef.current = false;
-            window.speechSynthesis.cancel();
+    const handleDecoySearch = async () => {
+        if (await matchesPin(disguiseSettings.unlock, normalizeUnlock('notes', decoySearch))) {
+            setDecoySearch('');
+            setIsLocked(false);
         }
     };
 
-    const handleStartSharing = (durationInMinutes: number | null) => {
-        if (!location) {
-             setError('Location not available. Please enable location services and try again.');
+    const handleAddDecoyNote = () => {
+        if (!decoyDraft.trim()) return;
+        setDecoyNotes(prev => [createDecoyNote(decoyDraft.trim()), ...prev]);
+        setDecoyDraft('');
+    };
+
+    const handleSaveDisguise = async () => {
+        const { decoy, secret } = disguiseForm;
+        if (!isValidUnlock(decoy, secret)) {
+            setError(decoy === 'calculator'
+                ? 'The unlock code must be at least 4 digits.'
+                : 'The unlock passphrase must be at least 4 characters.');
+            return;
+        }
+        setError(null);
+        setDisguiseSettings({ enabled: true, decoy, unlock: await hashPin(normalizeUnlock(decoy, secret)) });
+        setDisguiseForm({ decoy, secret: '' });
+    };
+
+    const handleRemovePins = async (which: 'duress' | 'all') => {
+        if (!(await matchesPin(emergencyPins.cancel, pinForm.current.trim()))) {
+            setError('Enter your current cancel PIN to make changes.');
+            return;
+        }
+        setError(null);
+        setEmergencyPins(which === 'all' ? { cancel: null, duress: null } : { ...emergencyPins, duress: null });
+        setPinForm({ current: '', cancel: '', duress: '' });
+    };
+
+    const handleSaveContact = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const fields: ContactForm = {
+            name: contactForm.name.trim(),
+            phone: contactForm.phone.trim(),
+            email: contactForm.email.trim(),
+            relationship: contactForm.relationship.trim(),
+        };
+        if (!fields.name || (!fields.phone && !fields.email)) {
+            setError('A contact needs a name and at least a phone number or email.');
+            return;
+        }
+        setError(null);
+        if (editingContactId) {
+            setContacts(prev => prev.map(c => c.id === editingContactId ? { ...c, ...fields } : c));
+        } else {
+            setContacts(prev => [...prev, createContact(fields)]);
+        }
+        setEditingContactId(null);
+        setContactForm(emptyContactForm);
+    };
+
+    const handleEditContact = (contact: EmergencyContact) => {
+        const { id, ...fields } = contact;
+        setEditingContactId(id);
+        setContactForm(fields);
+    };
+
+    const handleDeleteContact = (id: string) => {
+        setContacts(prev => prev.filter(c => c.id !== id));
+        if (editingContactId === id) {
+            setEditingContactId(null);
+            setContactForm(emptyContactForm);
+        }
+    };
+
+    const handleSavePersona = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const fields: PersonaForm = { ...personaForm, name: personaForm.name.trim() };
+        const issues = validateCallScript(parseCallScript(fields.script));
+        if (!fields.name || issues.length > 0) {
+            setError(fields.name ? issues.join(' ') : 'A caller needs a name.');
+            return;
+        }
+        setError(null);
+        if (editingPersonaId) {
+            setPersonas(prev => prev.map(p => p.id === editingPersonaId ? { ...p, ...fields } : p));
+        } else {
+            setPersonas(prev => [...prev, createPersona(fields)]);
+        }
+        setEditingPersonaId(null);
+        setPersonaForm(emptyPersonaForm);
+    };
+
+    const handleEditPersona = (persona: CallerPersona) => {
+        const { id, ...fields } = persona;
+        setEditingPersonaId(id);
+        setPersonaForm(fields);
+    };
+
+    const handleDeletePersona = (id: string) => {
+        setPersonas(prev => prev.filter(p => p.id !== id));
+        if (editingPersonaId === id) {
+            setEditingPersonaId(null);
+            setPersonaForm(emptyPersonaForm);
+        }
+    };
+
+    const handlePersonaPhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const photo = await readPersonaPhoto(file);
+            setPersonaForm(prev => ({ ...prev, photo }));
+        } catch (err) {
+            console.error('Photo Error:', err);
+            setError('That photo could not be read.');
+        }
+    };
+
+    const handleImportPersonas = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parsePersonas(await file.text());
+            setPersonas(prev => [...prev, ...imported]);
+            setError(null);
+        } catch (err) {
+            console.error('Import Error:', err);
+            setError('That file does not contain any callers.');
+        }
+    };
+
+    const handlePreviewVoice = () => {
+        if (!('speechSynthesis' in window)) return;
+        const line = firstLine(parseCallScript(personaForm.script));
+        const utterance = new SpeechSynthesisUtterance(line || `Hi, it's ${personaForm.name || 'me'}.`);
+        utterance.voice = findVoice(voices, personaForm.voiceURI);
+        utterance.rate = personaForm.rate;
+        utterance.pitch = personaForm.pitch;
+        window.speechSynthesis.cancel();
+        window.speechSynthesis.speak(utterance);
+    };
+
+    const openPersonas = () => {
+        dispatchMode({ type: 'dialogClosed' });
+        setView('personas');
+        if ('speechSynthesis' in window) getVoicesPromise().then(setVoices);
+    };
+
+    const handleStartCheckIn = async (minutes: number) => {
+        setCheckInSession(await createCheckInSession(minutes, checkInPin));
+        setCheckInPin('');
+        dispatchMode({ type: 'dialogClosed' });
+    };
+
+    const handleConfirmCheckIn = async () => {
+        if (!checkInSession) return;
+        if (!(await verifyCheckInPin(checkInSession, checkInConfirmPin))) {
+            setCheckInConfirmPin('');
+            if ('vibrate' in navigator) navigator.vibrate([100, 50, 100]);
+            return;
+        }
+        setCheckInSession(null);
+        setCheckInConfirmPin('');
+        if ('vibrate' in navigator) navigator.vibrate(0);
+    };
+
+    // Without a PIN, checking in is a deliberate 2-second hold so a pocket tap can't disarm it.
+    const handleCheckInHoldStart = () => {
+        checkInHoldTimeoutRef.current = setTimeout(handleConfirmCheckIn, 2000);
+    };
+
+    const handleCheckInHoldEnd = () => {
+        if (checkInHoldTimeoutRef.current) clearTimeout(checkInHoldTimeoutRef.current);
+    };
+
+    const startFakeCall = (persona: CallerPersona) => {
+        setFakeCaller(persona);
+        dispatchMode({ type: 'callRang' });
+    };
+
+    useEffect(() => {
+        // This effect rings the scheduled fake call when it is due, on top of whatever is on screen
+        saveScheduledCall(scheduledCall);
+        if (!scheduledCall) return;
+        const persona = personas.find(p => p.id === scheduledCall.personaId);
+        if (!persona || isMissed(scheduledCall)) {
+            setScheduledCall(null);
+            return;
+        }
+        const timeout = setTimeout(() => {
+            setScheduledCall(null);
+            startFakeCall(persona);
+        }, Math.max(0, scheduledCall.at - Date.now()));
+        return () => clearTimeout(timeout);
+    }, [scheduledCall, personas]);
+
+    const handleChooseCaller = (persona: CallerPersona) => {
+        if (fakeCallDelay === 0) {
+            startFakeCall(persona);
+            return;
+        }
+        const call = fakeCallDelay === 'at' ? scheduleCallAt(persona.id, fakeCallTime) : scheduleCallIn(persona.id, fakeCallDelay);
+        if (!call) {
+            setError('Pick a time for the call.');
+            return;
+        }
+        setError(null);
+        setScheduledCall(call);
+        dispatchMode({ type: 'dialogClosed' });
+    };
+
+    const getVoicesPromise = (): Promise<SpeechSynthesisVoice[]> => {
+        return new Promise(resolve => {
+            const voices = window.speechSynthesis.getVoices();
+            if (voices.length) {
+                resolve(voices);
+                return;
+            }
+            window.speechSynthesis.onvoiceschanged = () => {
+                resolve(window.speechSynthesis.getVoices());
+            };
+        });
+    };
+
+    const handleAcceptCall = async () => {
+        dispatchMode({ type: 'callAnswered' });
+        setCallOptions(null);
+        setShowKeypad(false);
+        setKeypadDigits('');
+        setIsCallMuted(false);
+        setIsCallSpeaker(false);
+
+        if (!fakeCaller) return;
+        const persona = fakeCaller;
+        const script = parseCallScript(persona.script);
+
+        // Listening for the user's replies is best effort: without a microphone the caller just pauses between lines.
+        let stopMic: (() => void) | null = null;
+        try {
+            stopMic = await startMicrophoneFrames(frame => {
+                const reply = callReplyRef.current;
+                // While muted the user can't be heard, so every frame counts as silence.
+                if (reply && reply.tracker.push(callMutedRef.current ? { ...frame, rmsDb: -100 } : frame)) {
+                    callReplyRef.current = null;
+                    reply.resolve();
+                }
+            });
+        } catch (err) {
+            console.error('Call Microphone Error:', err);
+        }
+        const voice = 'speechSynthesis' in window ? findVoice(await getVoicesPromise(), persona.voiceURI) : null;
+        // The call may have been hung up, or pre-empted by an emergency, while the microphone started.
+        if (modeRef.current.call !== 'active') {
+            stopMic?.();
+            return;
+        }
+        if (callScriptRef.current) callScriptRef.current.stop();
+        callMicStopRef.current = stopMic;
+
+        const io: CallScriptIO = {
+            say: text => new Promise(resolve => {
+                if (!('speechSynthesis' in window)) return resolve();
+                const utterance = new SpeechSynthesisUtterance(text);
+                if (voice) utterance.voice = voice;
+                utterance.rate = persona.rate;
+                utterance.pitch = persona.pitch;
+                utterance.volume = callSpeakerRef.current ? 1 : EARPIECE_VOLUME;
+                utterance.onend = () => resolve();
+                utterance.onerror = (e: SpeechSynthesisErrorEvent) => {
+                    // "interrupted" is expected when the user hangs up mid-sentence.
+                    if (e.error !== 'interrupted') console.error('Speech synthesis error:', e.error);
+                    resolve();
+                };
+                window.speechSynthesis.speak(utterance);
+            }),
+            waitForReply: () => new Promise(resolve => {
+                if (!callMicStopRef.current) {
+                    setTimeout(resolve, FALLBACK_REPLY_MS);
+                    return;
+                }
+                callReplyRef.current = { tracker: createReplyTracker(), resolve };
+            }),
+            pause: ms => new Promise(resolve => setTimeout(resolve, ms)),
+            showOptions: setCallOptions,
+            hangUp: () => handleHangUp(),
+        };
+        if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+        callScriptRef.current = runCallScript(script, io);
+    };
+
+    const handleHangUp = () => dispatchMode({ type: 'callEnded' });
+
+    const handleKeypadPress = (key: string) => {
+        setKeypadDigits(prev => prev + key);
+        new Audio(getDtmfUrl(key)).play().catch(() => {});
+    };
+
+    const handleSaveZone = () => {
+        const name = zoneDraft.name.trim();
+        const { mode, points, radius } = zoneDraft;
+        if (!name || (mode === 'circle' ? points.length < 1 : points.length < 3)) {
+            setError(mode === 'circle'
+                ? 'Give the zone a name and tap the map to place its centre.'
+                : 'Give the zone a name and tap at least three corners on the map.');
+            return;
+        }
+        setError(null);
+        const shape: ZoneShape = mode === 'circle'
+            ? { type: 'circle', center: points[0], radius }
+            : { type: 'polygon', points };
+        setSafeZones(prev => [...prev, createSafeZone(name, shape)]);
+        setZoneDraft(emptyZoneDraft);
+    };
+
+    const handleZoneNotifyContacts = async (event: ZoneEvent) => {
+        setContactAlerts(buildContactAlerts(contacts, alertTemplate, {
+            emergencyType: `Left safe zone "${event.zoneName}" unexpectedly`,
+            location: event.location,
+            time: new Date(event.timestamp),
+            batteryLevel: await getBatteryLevel(),
+        }));
+    };
+
+    const refreshOfflineTiles = () => {
+        countCachedTiles().then(setOfflineTileCount).catch(err => console.error('Tile cache Error:', err));
+    };
+
+    const handleDownloadTiles = async (radiusMeters: number) => {
+        if (!location || tileDownload) return;
+        setTileDownload({ done: 0, total: 0 });
+        try {
+            await downloadTiles(location, radiusMeters, (done, total) => setTileDownload({ done, total }));
+        } catch (err) {
+            console.error('Tile download Error:', err);
+            setError('Could not save map tiles. Check your connection and try again.');
+        } finally {
+            setTileDownload(null);
+            refreshOfflineTiles();
+        }
+    };
+
+    const handleClearTiles = async () => {
+        await clearCachedTiles();
+        refreshOfflineTiles();
+    };
+
+    // The running call script reads these between lines, after the closure that started it has gone stale.
+    callMutedRef.current = isCallMuted;
+    callSpeakerRef.current = isCallSpeaker;
+    modeRef.current = mode;
+
+    // Location updates arrive in the long-lived geolocation watch, so alerts go out through a ref.
+    sendAlertRef.current = (type, alertLocation, batteryLevel = null) => {
+        const emergency = alertEmergencyRef.current;
+        alertDispatcherRef.current?.notify(createAlertEvent(type, {
+            emergencyId: emergency?.id ?? null,
+            discreet: emergency?.discreet ?? false,
+            location: alertLocation,
+            batteryLevel,
+        }), alertChannels);
+    };
+
+    runGestureActionRef.current = (action: GestureAction) => {
+        switch (action) {
+            case 'loudSos':
+            case 'discreetSos':
+                requestSos('gesture', action === 'discreetSos', sosSettings.gestureCountdown ? sosSettings.countdownSeconds : 0);
+                break;
+            case 'fakeCall': {
+                const persona = personas.find(p => p.id === gestureCallerId) || personas[0];
+                if (persona) startFakeCall(persona);
+                else dispatchMode({ type: 'dialogOpened', dialog: 'callerSelector' });
+                break;
+            }
+            case 'startSharing': if (!mode.sharing) handleStartSharing(null); break;
+        }
+    };
+
+    const handleAddChannel = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const problem = channelFieldsError(channelForm);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        if (channelForm.kind === 'push' && !/^[^\s@]+@[^\s@]+$/.test(pushContact.trim())) {
+            setError('Push services need a contact email for the sender. Enter yours under Push Notifications.');
+            return;
+        }
+        setError(null);
+        setAlertChannels(prev => [...prev, createAlertChannel(channelForm)]);
+        setChannelForm({ ...emptyChannelForm, kind: channelForm.kind });
+    };
+
+    const handleTestChannel = (channel: AlertChannel) => {
+        alertDispatcherRef.current?.notify(createAlertEvent('test', {
+            emergencyId: null,
+            discreet: false,
+            location: location && { ...location, accuracy: null },
+            batteryLevel: null,
+        }), [channel]);
+    };
+
+    const handleSubscribePush = async () => {
+        try {
+            setError(null);
+            setPushSubscription(JSON.stringify(await subscribeToPush(pushSenderKey)));
+        } catch (err) {
+            console.error('Push Error:', err);
+            setError('Could not subscribe to alerts. Check the key and allow notifications for this app.');
+        }
+    };
+
+    const handleAddGesture = () => {
+        const { kind, key, count, windowMs, durationMs, sequence, ctrl, alt, shift, action } = gestureDraft;
+        let pattern: GesturePattern;
+        if (kind === 'presses') {
+            pattern = { kind, key, count: Math.max(1, count), windowMs };
+        } else if (kind === 'longPress') {
+            pattern = { kind, key, durationMs };
+        } else if (kind === 'sequence') {
+            if (!/^[.-]{2,}$/.test(sequence)) {
+                setError('A sequence uses "." for a short press and "-" for a long press, at least two of them.');
+                return;
+            }
+            pattern = { kind, key, sequence };
+        } else {
+            if (key.length !== 1 || !(ctrl || alt)) {
+                setError('A keyboard shortcut needs a single key combined with Ctrl or Alt.');
+                return;
+            }
+            pattern = { kind, key: key.toLowerCase(), ctrl, alt, shift, meta: false };
+        }
+        setError(null);
+        setGestureBindings(prev => [...prev, createGestureBinding(pattern, action)]);
+    };
+
+    const handleToggleFallDetection = async (enabled: boolean) => {
+        if (enabled && !(await requestMotionPermission())) {
+            setError('Motion sensor access was denied, so falls cannot be detected.');
+            return;
+        }
+        setError(null);
+        setFallSettings(prev => ({ ...prev, enabled }));
+    };
+
+    const handleRecordSafeWord = () => {
+        setError(null);
+        setIsRecordingSafeWord(true);
+    };
+
+    const handleClearSafeWord = () => {
+        setSafeWordRecordings([]);
+        setListenSettings(prev => ({ ...prev, safeWord: null }));
+    };
+
+    const handleExportTrack = (points: TrackPoint[], format: 'gpx' | 'geojson') => {
+        if (points.length === 0) return;
+        const stamp = new Date(points[0].timestamp).toISOString();
+        const name = `Guardian Angel route ${stamp}`;
+        if (format === 'gpx') {
+            downloadBlob(new Blob([trackToGpx(points, name)], { type: 'application/gpx+xml' }), `route-${stamp}.gpx`);
+        } else {
+            downloadBlob(new Blob([trackToGeoJson(points, name)], { type: 'application/geo+json' }), `route-${stamp}.geojson`);
+        }
+    };
+
+    const handleDeleteRoute = async (route: VaultRoute) => {
+        if (!window.confirm('Delete this route permanently?')) return;
+        await deleteRoute(route.id);
+        refreshVault();
+    };
+
+    const renderTrackExport = () => track.length > 0 && (
+        <div style={styles.trackExport}>
+            <span>Route: {track.length} point{track.length > 1 ? 's' : ''}</span>
+            <button style={styles.textButton} onClick={() => handleExportTrack(track, 'gpx')}><i className="fas fa-route"></i> GPX</button>
+            <button style={styles.textButton} onClick={() => handleExportTrack(track, 'geojson')}><i className="fas fa-code"></i> GeoJSON</button>
+        </div>
+    );
+
+    const handleStartSharing = (durationInMinutes: number | null) => {
+        if (!location) {
+             setError('Location not available. Please enable location services and try again.');
              return;
         }
         
-        setShowSharingOptions(false);
-        setIsSharingLocation(true);
+        dispatchMode({ type: 'sharingStarted' });
     
-        if (durationInMinutes) {
-            const endTime = Date.now() + durationInMinutes * 60 * 1000;
+        const endTime = durationInMinutes ? Date.now() + durationInMinutes * 60 * 1000 : null;
+        if (endTime) {
             setSharingEndTime(endTime);
         } else {
             setSharingEndTime(null);
             setRemainingTime('Sharing indefinitely');
         }
+
+        // With a relay configured, recipients get a live link whose token expires with the share.
+        const { relayUrl, transport } = liveShareSettings;
+        if (relayUrl) {
+            // Sharing may be stopped (or restarted) before the relay answers; a session that
+            // arrives for a share that is over is ended straight away.
+            const shareId = ++liveShareIdRef.current;
+            createLiveSession(relayUrl, endTime)
+                .then(session => {
+                    if (liveShareIdRef.current !== shareId) {
+                        endLiveSession(relayUrl, session).catch(err => console.error('Failed to end live session:', err));
+                        return;
+                    }
+                    setLiveSession(session);
+                    liveTransportRef.current = createTransport(transport, relayUrl, session);
+                    liveTransportRef.current.publish({
+                        latitude: location.latitude,
+                        longitude: location.longitude,
+                        accuracy: null,
+                        speed: null,
+                        heading: null,
+                        timestamp: Date.now(),
+                    });
+                })
+                .catch(err => {
+                    console.error('Live relay Error:', err);
+                    if (liveShareIdRef.current === shareId) setError('Could not reach the live location relay. Sharing a static link instead.');
+                });
+        }
+    };
+
+    // Starts an AI request that the Stop button can cancel, reporting retries as they happen.
+    const startAiRequest = () => {
+        aiAbortRef.current?.abort();
+        const controller = new AbortController();
+        aiAbortRef.current = controller;
+        setIsLoading(true);
+        setAiNotice(null);
+        return {
+            controller,
+            signal: controller.signal,
+            onRetry: (nextAttempt: number) => {
+                if (aiAbortRef.current === controller) setAiNotice(`Connection problem, retrying (attempt ${nextAttempt} of ${AI_MAX_ATTEMPTS})...`);
+            },
+        };
     };
 
+    // A request replaced by a newer one finishes after it was aborted, and must leave the
+    // newer request's state alone.
+    const finishAiRequest = (controller: AbortController) => {
+        if (aiAbortRef.current !== controller) return;
+        aiAbortRef.current = null;
+        setIsLoading(false);
+        setAiNotice(null);
+    };
+
+    const handleStopAi = () => aiAbortRef.current?.abort();
+
     const fetchAiHelp = async (prompt: string) => {
         setView('tools');
-        setIsLoading(true);
         setAiResponse('');
+        setAiSources([]);
+        setAiFallback(null);
+        const request = startAiRequest();
         try {
-            const result = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: { tools: [{googleSearch: {}}] }
-            });
-            let finalResponse = result.text;
-            const groundingChunks = result.candidates?.[0]?.groundingMetadata?.groundingChunks;
-            if (groundingChunks && groundingChunks.length > 0) {
-                const sources = groundingChunks
-                    .map(chunk => chunk.web && chunk.web.uri ? `<div><a href="${chunk.web.uri}" target="_blank" rel="noopener noreferrer" style="color: var(--accent-blue);">${chunk.web.title || chunk.web.uri}</a></div>` : null)
-                    .filter(Boolean)
-                    .join('');
-                if (sources) {
-                    finalResponse += '<br /><br /><strong>Sources:</strong><br />' + sources;
-                }
+            const result = await requestWithRetry<AiReply>(options => aiProvider.search(prompt, options), { ...request, onText: setAiResponse });
+            setAiResponse(result.text);
+            setAiSources(result.sources);
+        } catch (err) {
+            const error = toAiError(err);
+            if (error.kind === 'cancelled') return;
+            console.error('AI Help Error:', error);
+            // Without the assistant, answer from the bundled library where it has anything relevant.
+            const [best, ...related] = safetyLibrary.search(prompt, { limit: 4 }).map(match => match.article);
+            if (best) {
+                setAiResponse(`### ${best.title}\n\n${best.body}`);
+                setAiSources([]);
+                setAiFallback({ reason: AI_ERROR_MESSAGES[error.kind], articles: related });
+            } else {
+                setAiResponse(AI_ERROR_MESSAGES[error.kind]);
             }
-            setAiResponse(finalResponse);
+        } finally {
+            finishAiRequest(request.controller);
+        }
+    };
+
+    const findHelpNearby = async (origin: LatLng) => {
+        setView('nearby');
+        setHelpPlaces(null);
+        setError(null);
+        const request = startAiRequest();
+        try {
+            // A reply that isn't valid JSON throws inside the attempt, so it is retried too.
+            const places = await requestWithRetry<HelpPlace[]>(
+                async options => parseHelpPlaces((await aiProvider.generateJson(helpPlacesPrompt(origin), HELP_PLACES_SCHEMA, options)).text),
+                request,
+            );
+            setHelpPlaces(places);
         } catch (err) {
-            console.error(err);
-            setAiResponse('Sorry, I had trouble finding information. Please try again.');
+            const error = toAiError(err);
+            if (error.kind === 'cancelled') return;
+            console.error('Nearby Help Error:', error);
+            setError(AI_ERROR_MESSAGES[error.kind]);
         } finally {
-            setIsLoading(false);
+            finishAiRequest(request.controller);
         }
     };
 
+    const activeConversation = conversations.find(c => c.id === activeConversationId) || null;
+    const chatHistory: ChatMessage[] = activeConversation?.messages || [];
+
     const handleChatSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
-        if (!chatInput.trim() || isLoading || !chatRef.current) return;
+        if (!chatInput.trim() || isLoading) return;
+
+        const conversation = activeConversation || createConversation();
+        const id = conversation.id;
+        const currentInput = chatInput;
+        setConversations(prev => addMessage(activeConversation ? prev : [conversation, ...prev], id, { role: 'user', text: currentInput }));
+        setActiveConversationId(id);
+        setChatInput('');
+        setStreamingReply('');
+        const request = startAiRequest();
+        let partial = '';
+
+        try {
+            // The chat is rebuilt from the saved conversation on every attempt, so resumed
+            // conversations, retries and provider switches all see the same history.
+            const situation = describeSituation({ location, isEmergency: mode.emergency, isSharingLocation: mode.sharing, now: new Date() }, chatContext);
+            const response = await requestWithRetry<AiReply>(
+                options => aiProvider.chat(SAFETY_SYSTEM_INSTRUCTION, toAiHistory(conversation.messages)).send(withSituation(currentInput, situation), options),
+                { ...request, onText: text => { partial = text; setStreamingReply(text); } },
+            );
+            setConversations(prev => addMessage(prev, id, { role: 'bot', text: response.text, sources: response.sources }));
+        } catch (err) {
+            const error = toAiError(err);
+            if (error.kind !== 'cancelled') console.error("Chat Error:", error);
+            // A stopped answer keeps whatever had arrived; anything else is reported plainly.
+            const message: ChatMessage = error.kind === 'cancelled' && partial
+                ? { role: 'bot', text: `${partial} …` }
+                : { role: 'bot', text: AI_ERROR_MESSAGES[error.kind], failed: true };
+            setConversations(prev => addMessage(prev, id, message));
+        } finally {
+            setStreamingReply(null);
+            finishAiRequest(request.controller);
+        }
+    };
+
+    const handleDeleteConversation = (id: string) => {
+        setConversations(prev => prev.filter(c => c.id !== id));
+        if (activeConversationId === id) setActiveConversationId(null);
+    };
+
+    const handleCopyText = async (text: string) => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopiedText(text);
+            setTimeout(() => setCopiedText(current => current === text ? null : current), 2000);
+        } catch (err) {
+            console.error('Copy Error:', err);
+        }
+    };
+
+    const renderCitations = (sources: AiSource[]) => sources.length > 0 && (
+        <div style={styles.citations}>
+            <strong>Sources</strong>
+            <ol style={styles.citationList}>
+                {sources.map(source => {
+                    const href = safeHref(source.uri);
+                    return (
+                        <li key={source.uri} style={styles.citationItem}>
+                            <span style={styles.contactDetails}>
+                                {href ? <a href={href} target="_blank" rel="noopener noreferrer" style={styles.markdownLink}>{source.title}</a> : source.title}
+                                {href && <div style={styles.contactMeta}>{new URL(href).hostname}</div>}
+                            </span>
+                            <button style={styles.iconButton} onClick={() => handleCopyText(source.uri)} aria-label="Copy link">
+                                <i className={copiedText === source.uri ? 'fas fa-check' : 'fas fa-copy'}></i>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+
+    const renderContactAlerts = () => contactAlerts.length > 0 && (
+        <div style={styles.alertList}>
+            <p>Alert your contacts:</p>
+            {contactAlerts.map(alert => (
+                <div key={alert.contact.id} style={styles.alertItem}>
+                    <span>{alert.contact.name}</span>
+                    <span style={styles.alertLinks}>
+                        {alert.smsUri && <a href={alert.smsUri} style={styles.alertLink}><i className="fas fa-sms"></i> SMS</a>}
+                        {alert.mailtoUri && <a href={alert.mailtoUri} style={styles.alertLink}><i className="fas fa-envelope"></i> Email</a>}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+
+    const renderHome = () => (
+        <div style={styles.content}>
+            <h1 style={styles.title}>Guardian Angel</h1>
+            <p style={styles.subtitle}>Your Personal Safety Companion</p>
+            {error && <p style={styles.error}>{error}</p>}
+
+            {isEmergencyVisible(mode) ? (
+                <div style={styles.emergencyContainer}>
+                    <h2 style={styles.emergencyHeader}>EMERGENCY MODE ACTIVE</h2>
+                    <div style={styles.videoContainer}>
+                        {isRecording && <video ref={videoRef} autoPlay muted playsInline style={styles.videoPreview}></video>}
+                        <div style={styles.recordingIndicator}>
+                            <i className="fas fa-circle" style={{ color: 'red', animation: 'pulse 1.5s infinite' }}></i> REC
+                        </div>
+                    </div>
+                    <div ref={mapRef} style={styles.mapContainer}></div>
+                    {location && (
+                        <div style={styles.locationInfo}>
+                            <p>Live Location:</p>
+                            <p>{location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}</p>
+                            <button
+                                style={styles.shareButton}
+                                onClick={() => {
+                                    const message = `Emergency! My location is https://www.google.com/maps?q=${location.latitude},${location.longitude}`;
+                                    if(navigator.share) {
+                                        navigator.share({ title: 'Emergency Location', text: message });
+                                    } else {
+                                        navigator.clipboard.writeText(message);
+                                        alert('Emergency message copied to clipboard!');
+                                    }
+                                }}
+                            >
+                                <i className="fas fa-share-alt"></i> Share Location
+                            </button>
+                        </div>
+                    )}
+                    {renderTrackExport()}
+                    {renderContactAlerts()}
+                    {renderComposedAlerts()}
+                    {mode.sharing && (
+                        <p style={styles.recordingNotice}>
+                            <i className="fas fa-satellite-dish"></i> Your location share is still running.{' '}
+                            <button style={styles.textButton} onClick={handleStopSharing}>Stop sharing</button>
+                        </p>
+                    )}
+                    {!emergencyPins.cancel ? (
+                        <p style={styles.recordingNotice}>
+                            No cancel PIN was set before this emergency, so it can't be stopped here. Recording, tracking and alerts keep running.
+                        </p>
+                    ) : showStopPrompt ? (
+                        <div style={{ ...styles.checkInConfirm, marginTop: '20px' }}>
+                            <input
+                                style={styles.formInput}
+                                type="password"
+                                inputMode="numeric"
+                                placeholder="PIN"
+                                autoFocus
+                                value={stopPin}
+                                onChange={(e) => setStopPin(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleSubmitStopPin()}
+                            />
+                            <button style={styles.shareButton} onClick={handleSubmitStopPin}>Stop</button>
+                        </div>
+                    ) : (
+                        <button style={styles.stopButton} onClick={() => setShowStopPrompt(true)}>
+                            <i className="fas fa-hand-paper"></i> Stop Emergency
+                        </button>
+                    )}
+                    <p style={styles.recordingNotice}>Audio & Video are being recorded and saved to your on-device Vault as they are captured.</p>
+                </div>
+            ) : (
+                <button style={styles.sosButton} onClick={handleSos} aria-label="Activate Emergency SOS">
+                    <div style={styles.sosText}>SOS</div>
+                </button>
+            )}
+            {!mode.emergency && renderComposedAlerts()}
+            {!mode.emergency && !emergencyPins.cancel && (
+                <button style={styles.textButton} onClick={() => setView('pins')}>
+                    <i className="fas fa-key"></i> Set a cancel PIN now. Without one, an emergency can't be stopped.
+                </button>
+            )}
+            {recoveredCount > 0 && !isEmergencyVisible(mode) && (
+                <button style={styles.textButton} onClick={() => { setRecoveredCount(0); setView('vault'); }}>
+                    <i className="fas fa-life-ring"></i> {recoveredCount} interrupted recording{recoveredCount > 1 ? 's were' : ' was'} recovered. Open Vault
+                </button>
+            )}
+        </div>
+    );
+
+    const renderTools = () => {
+        const isLocationReady = !!(location?.latitude && location?.longitude);
+
+        return (
+            <div style={styles.content}>
+                <h2 style={styles.pageTitle}>Safety Tools</h2>
+                <div style={styles.toolGrid}>
+                    <button
+                        style={isLocationReady && !isLoading ? styles.toolButton : { ...styles.toolButton, ...styles.disabledButton }}
+                        onClick={() => {
+                            if (isLocationReady && !isLoading) findHelpNearby(location);
+                        }}
+                        disabled={!isLocationReady || isLoading}
+                        title={isLocationReady ? "Find help nearby" : "Location not yet available. Please wait."}
+                    >
+                        <i className="fas fa-building-shield" style={styles.toolIcon}></i>
+                        <span>Find Help Nearby</span>
+                    </button>
+                    <button
+                        style={isLoading ? { ...styles.toolButton, ...styles.disabledButton } : styles.toolButton}
+                        onClick={() => fetchAiHelp('Give me simple text-based self-defense tutorials.')}
+                        disabled={isLoading}
+                    >
+                        <i className="fas fa-user-shield" style={styles.toolIcon}></i>
+                        <span>Self-Defense Tutorials</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => dispatchMode({ type: 'dialogOpened', dialog: 'callerSelector' })}>
+                        <i className="fas fa-phone-alt" style={styles.toolIcon}></i>
+                        <span>{scheduledCall ? `Call at ${formatClockTime(scheduledCall.at)}` : 'Fake Call'}</span>
+                    </button>
+                    <button
+                        style={isLocationReady ? styles.toolButton : { ...styles.toolButton, ...styles.disabledButton }}
+                        onClick={() => isLocationReady && dispatchMode({ type: 'dialogOpened', dialog: 'sharingOptions' })}
+                        disabled={!isLocationReady}
+                        title={isLocationReady ? "Share your live location" : "Location not yet available. Please wait."}
+                    >
+                        <i className="fas fa-map-marker-alt" style={styles.toolIcon}></i>
+                        <span>Share Location</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => dispatchMode({ type: 'dialogOpened', dialog: 'checkInOptions' })} disabled={!!checkInSession}>
+                        <i className="fas fa-user-clock" style={styles.toolIcon}></i>
+                        <span>{checkInSession ? 'Check-In Active' : 'Check-In Timer'}</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => { setOpenArticle(null); setView('library'); }}>
+                        <i className="fas fa-book-medical" style={styles.toolIcon}></i>
+                        <span>Safety Library</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => { setDisguiseForm({ decoy: disguiseSettings.decoy, secret: '' }); setView('disguise'); }}>
+                        <i className="fas fa-mask" style={styles.toolIcon}></i>
+                        <span>{disguiseSettings.enabled ? 'Disguise On' : 'Disguise'}</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => setView('sos')}>
+                        <i className="fas fa-stopwatch" style={styles.toolIcon}></i>
+                        <span>SOS Countdown</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => setView('pins')}>
+                        <i className="fas fa-key" style={styles.toolIcon}></i>
+                        <span>Emergency PINs</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => setView('contacts')}>
+                        <i className="fas fa-address-book" style={styles.toolIcon}></i>
+                        <span>Emergency Contacts</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => { setError(null); setView('alerts'); }}>
+                        <i className="fas fa-tower-broadcast" style={styles.toolIcon}></i>
+                        <span>Alert Channels</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => { setLastGesture(null); setView('gestures'); }}>
+                        <i className="fas fa-hand-pointer" style={styles.toolIcon}></i>
+                        <span>Trigger Gestures</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => setView('fall-detection')}>
+                        <i className="fas fa-person-falling" style={styles.toolIcon}></i>
+                        <span>{fallSettings.enabled ? 'Fall Detection On' : 'Fall Detection'}</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => setView('listen')}>
+                        <i className="fas fa-ear-listen" style={styles.toolIcon}></i>
+                        <span>{listenSettings.enabled ? 'Listening On' : 'Distress Listening'}</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => setView('zones')}>
+                        <i className="fas fa-draw-polygon" style={styles.toolIcon}></i>
+                        <span>Safe Zones</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => { refreshOfflineTiles(); setView('offline-map'); }}>
+                        <i className="fas fa-map" style={styles.toolIcon}></i>
+                        <span>Offline Map</span>
+                    </button>
+                    <button style={styles.toolButton} onClick={() => { refreshVault(); setView('vault'); }}>
+                        <i className="fas fa-vault" style={styles.toolIcon}></i>
+                        <span>Evidence Vault</span>
+                    </button>
+                </div>
+                {isLoading && (
+                    <div style={styles.loader}>
+                        {!aiResponse && <><i className="fas fa-spinner fa-spin"></i> Loading...</>}
+                        <button style={styles.textButton} onClick={handleStopAi}>Stop</button>
+                    </div>
+                )}
+                {aiNotice && <p style={styles.recordingNotice}>{aiNotice}</p>}
+                {aiFallback && <p style={styles.recordingNotice}>{aiFallback.reason} Here is guidance from the offline safety library instead.</p>}
+                {aiResponse && (
+                    <div style={{ ...styles.aiResponse, whiteSpace: 'normal' }}>
+                        <Markdown source={aiResponse} />
+                        {renderCitations(aiSources)}
+                    </div>
+                )}
+                {aiFallback && aiFallback.articles.length > 0 && (
+                    <div style={styles.contactList}>
+                        <strong>More from the library</strong>
+                        {aiFallback.articles.map(article => renderArticleLink(article))}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const renderPins = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Emergency PINs</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <p style={styles.modalDescription}>
+                The <strong>cancel PIN</strong> is needed to stop emergency mode, and must be set before an emergency starts. If someone forces you to stop it, enter
+                the <strong>duress PIN</strong> instead: the screen goes back to normal, but recording, location tracking and
+                alerts keep running. Press SOS again to bring the emergency screen back.
+            </p>
+            <div style={styles.contactForm}>
+                {emergencyPins.cancel && (
+                    <input style={styles.formInput} type="password" inputMode="numeric" placeholder="Current cancel PIN" value={pinForm.current} onChange={(e) => setPinForm({ ...pinForm, current: e.target.value })} />
+                )}
+                <input style={styles.formInput} type="password" inputMode="numeric" placeholder={emergencyPins.cancel ? 'New cancel PIN (leave blank to keep)' : 'Cancel PIN'} value={pinForm.cancel} onChange={(e) => setPinForm({ ...pinForm, cancel: e.target.value })} />
+                <input style={styles.formInput} type="password" inputMode="numeric" placeholder={emergencyPins.duress ? 'New duress PIN (leave blank to keep)' : 'Duress PIN (optional)'} value={pinForm.duress} onChange={(e) => setPinForm({ ...pinForm, duress: e.target.value })} />
+                <button style={styles.shareButton} onClick={handleSavePins}>Save PINs</button>
+                {emergencyPins.duress && <button style={styles.textButton} onClick={() => handleRemovePins('duress')}>Remove duress PIN</button>}
+                {emergencyPins.cancel && <button style={styles.textButton} onClick={() => handleRemovePins('all')}>Remove all PINs</button>}
+            </div>
+            <p style={styles.recordingNotice}>
+                Cancel PIN: {emergencyPins.cancel ? 'set' : 'not set'} · Duress PIN: {emergencyPins.duress ? 'set' : 'not set'}
+            </p>
+        </div>
+    );
+
+    const renderDisguise = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Disguise</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <p style={styles.modalDescription}>
+                When disguise is on, the app opens as a working {DECOY_TITLES[disguiseSettings.decoy].toLowerCase()} and a
+                discreet SOS keeps the emergency entirely behind it.
+                {disguiseForm.decoy === 'calculator'
+                    ? ' To get back in, type your unlock code on the calculator and press =.'
+                    : ' To get back in, search the notes for your passphrase and press Enter.'}
+            </p>
+            <div style={styles.contactForm}>
+                <select style={styles.formInput} value={disguiseForm.decoy} onChange={(e) => setDisguiseForm({ decoy: e.target.value as DecoyKind, secret: '' })}>
+                    <option value="calculator">Calculator</option>
+                    <option value="notes">Notes</option>
+                </select>
+                <input
+                    style={styles.formInput}
+                    type="password"
+                    inputMode={disguiseForm.decoy === 'calculator' ? 'numeric' : 'text'}
+                    placeholder={disguiseForm.decoy === 'calculator' ? 'Unlock code (digits)' : 'Unlock passphrase'}
+                    value={disguiseForm.secret}
+                    onChange={(e) => setDisguiseForm({ ...disguiseForm, secret: e.target.value })}
+                />
+                <button style={styles.shareButton} onClick={handleSaveDisguise}>{disguiseSettings.enabled ? 'Change disguise' : 'Turn on disguise'}</button>
+                {disguiseSettings.enabled && (
+                    <>
+                        <button style={styles.shareButton} onClick={() => setIsLocked(true)}><i className="fas fa-lock"></i> Lock now</button>
+                        <button style={styles.textButton} onClick={() => setDisguiseSettings({ ...disguiseSettings, enabled: false })}>Turn off disguise</button>
+                    </>
+                )}
+            </div>
+            <p style={styles.recordingNotice}>Volume-button gestures keep working while the decoy is showing.</p>
+        </div>
+    );
+
+    const renderCalculator = () => (
+        <div style={styles.calculator}>
+            <div style={styles.calculatorDisplay}>{calculator.display}</div>
+            <div style={styles.calculatorKeys}>
+                {CALCULATOR_KEYS.flat().map(key => (
+                    <button
+                        key={key}
+                        style={{
+                            ...styles.calculatorKey,
+                            ...(['÷', '×', '−', '+', '='].includes(key) ? styles.calculatorOperator : {}),
+                            ...(key === '0' ? { gridColumn: 'span 2', borderRadius: '40px' } : {}),
+                        }}
+                        onClick={() => handleCalculatorKey(key)}
+                    >
+                        {key}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+
+    const renderNotes = () => {
+        const query = decoySearch.trim().toLowerCase();
+        const notes = decoyNotes.filter(note => !query || note.text.toLowerCase().includes(query));
+        return (
+            <div style={{ ...styles.content, ...styles.decoyNotes }}>
+                <h2 style={{ ...styles.pageTitle, color: '#222' }}>Notes</h2>
+                <input
+                    style={styles.decoyInput}
+                    type="search"
+                    placeholder="Search"
+                    value={decoySearch}
+                    onChange={(e) => setDecoySearch(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleDecoySearch()}
+                />
+                <textarea style={styles.decoyInput} rows={3} placeholder="New note" value={decoyDraft} onChange={(e) => setDecoyDraft(e.target.value)} />
+                <button style={styles.decoyButton} onClick={handleAddDecoyNote}>Add note</button>
+                {notes.map(note => (
+                    <div key={note.id} style={styles.decoyNote}>
+                        <span style={{ flex: 1, whiteSpace: 'pre-wrap' }}>{note.text}</span>
+                        <button style={styles.iconButton} onClick={() => setDecoyNotes(prev => prev.filter(n => n.id !== note.id))} aria-label="Delete note">
+                            <i className="fas fa-trash"></i>
+                        </button>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    const renderArticleLink = (article: SafetyArticle) => (
+        <div key={article.id} style={styles.contactRow}>
+            <button style={{ ...styles.contactDetails, ...styles.conversationButton }} onClick={() => { setOpenArticle(article); setView('library'); }}>
+                <strong>{article.title}</strong>
+                <div style={styles.contactMeta}>{article.summary}</div>
+            </button>
+        </div>
+    );
+
+    const renderLibrary = () => {
+        if (openArticle) {
+            return (
+                <div style={styles.content}>
+                    <h2 style={styles.pageTitle}>{openArticle.title}</h2>
+                    <div style={{ ...styles.aiResponse, whiteSpace: 'normal' }}>
+                        <Markdown source={openArticle.body} />
+                    </div>
+                    <button style={styles.textButton} onClick={() => setOpenArticle(null)}>Back to the library</button>
+                </div>
+            );
+        }
+
+        const matches = safetyLibrary.search(libraryQuery, { tag: libraryTag || undefined, limit: 50 });
+        return (
+            <div style={styles.content}>
+                <h2 style={styles.pageTitle}>Safety Library</h2>
+                <p style={styles.modalDescription}>Guidance stored on this phone, available without a connection.</p>
+                <input
+                    style={{ ...styles.formInput, width: '100%', boxSizing: 'border-box', marginBottom: '10px' }}
+                    type="search"
+                    placeholder="Search, e.g. bleeding, followed, helpline"
+                    value={libraryQuery}
+                    onChange={(e) => setLibraryQuery(e.target.value)}
+                />
+                <div style={styles.scheduleOptions}>
+                    {safetyLibrary.tags.map(tag => (
+                        <button key={tag} style={libraryTag === tag ? styles.optionChipActive : styles.optionChip} onClick={() => setLibraryTag(libraryTag === tag ? null : tag)}>
+                            {tag.replace('-', ' ')}
+                        </button>
+                    ))}
+                </div>
+                <div style={styles.contactList}>
+                    {matches.length === 0 && <p style={styles.recordingNotice}>No articles match. If you are in danger, call emergency services.</p>}
+                    {matches.map(match => renderArticleLink(match.article))}
+                </div>
+            </div>
+        );
+    };
+
+    const renderNearbyHelp = () => {
+        const places = helpPlaces && location ? sortPlaces(measurePlaces(helpPlaces, location), helpSort) : [];
+
+        return (
+            <div style={styles.content}>
+                <h2 style={styles.pageTitle}>Help Nearby</h2>
+                {error && <p style={styles.error}>{error}</p>}
+                <div ref={helpMapRef} style={styles.mapContainer}></div>
+                {isLoading && (
+                    <div style={styles.loader}>
+                        <i className="fas fa-spinner fa-spin"></i> Looking for places...
+                        <button style={styles.textButton} onClick={handleStopAi}>Stop</button>
+                    </div>
+                )}
+                {aiNotice && <p style={styles.recordingNotice}>{aiNotice}</p>}
+                {places.length > 0 && (
+                    <div style={styles.scheduleOptions}>
+                        {(['distance', 'name', 'type'] as NearbySort[]).map(sort => (
+                            <button key={sort} style={helpSort === sort ? styles.optionChipActive : styles.optionChip} onClick={() => setHelpSort(sort)}>
+                                Sort by {sort}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <div style={styles.contactList}>
+                    {helpPlaces?.length === 0 && <p style={styles.recordingNotice}>No places with a known location were found. If you are in danger, call emergency services.</p>}
+                    {places.map((place, i) => {
+                        const tel = phoneHref(place.phone);
+                        return (
+                            <div key={`${place.name}-${i}`} style={styles.contactRow}>
+                                <i className={`fas ${HELP_PLACE_TYPES[place.type].icon}`} style={styles.placeIcon}></i>
+                                <div style={styles.contactDetails}>
+                                    <strong>{place.name}</strong>
+                                    <div style={styles.contactMeta}>
+                                        {HELP_PLACE_TYPES[place.type].label} · {formatDistance(place.distance)} {compassPoint(place.bearing)}
+                                    </div>
+                                    {place.address && <div style={styles.contactMeta}>{place.address}</div>}
+                                    {place.hours && <div style={styles.contactMeta}>{place.hours}</div>}
+                                </div>
+                                {tel && (
+                                    <a href={tel} style={styles.iconButton} aria-label={`Call ${place.name}`}>
+                                        <i className="fas fa-phone"></i>
+                                    </a>
+                                )}
+                                <a href={directionsUrl(place)} target="_blank" rel="noopener noreferrer" style={styles.iconButton} aria-label={`Directions to ${place.name}`}>
+                                    <i className="fas fa-diamond-turn-right"></i>
+                                </a>
+                            </div>
+                        );
+                    })}
+                </div>
+                {helpPlaces && helpPlaces.length > 0 && (
+                    <p style={styles.recordingNotice}>Places come from the AI assistant and may be out of date. Check before relying on them.</p>
+                )}
+            </div>
+        );
+    };
+
+    const renderChat = () => (
+         <div style={{ ...styles.content, ...styles.chatContainer }}>
+            <h2 style={styles.pageTitle}>AI Safety Chat</h2>
+            <div style={styles.chatToolbar}>
+                <button style={styles.textButton} onClick={() => setShowConversationList(!showConversationList)}>
+                    <i className="fas fa-clock-rotate-left"></i> History
+                </button>
+                <button style={styles.textButton} onClick={() => { setActiveConversationId(null); setShowConversationList(false); }}>
+                    <i className="fas fa-plus"></i> New chat
+                </button>
+                <button style={styles.textButton} onClick={() => setView('ai-settings')}>
+                    <i className="fas fa-gear"></i> {AI_PROVIDER_LABELS[aiSettings.provider]}
+                </button>
+            </div>
+            <label style={{ ...styles.contactMeta, display: 'flex', gap: '6px', alignItems: 'center', marginBottom: '10px' }}>
+                <input type="checkbox" checked={chatContext.enabled} onChange={(e) => setChatContext({ ...chatContext, enabled: e.target.checked })} />
+                Share my situation with the assistant (location, status, time, medical notes)
+            </label>
+            {showConversationList ? (
+                <div style={styles.contactList}>
+                    {conversations.length === 0 && <p style={styles.recordingNotice}>No saved conversations yet.</p>}
+                    {conversations.map(conversation => (
+                        <div key={conversation.id} style={styles.contactRow}>
+                            <button style={{ ...styles.contactDetails, ...styles.conversationButton }} onClick={() => { setActiveConversationId(conversation.id); setShowConversationList(false); }}>
+                                <strong>{conversation.title}</strong>
+                                <div style={styles.contactMeta}>{new Date(conversation.updatedAt).toLocaleString()} · {conversation.messages.length} messages</div>
+                            </button>
+                            <button style={styles.iconButton} onClick={() => handleDeleteConversation(conversation.id)} aria-label="Delete conversation">
+                                <i className="fas fa-trash"></i>
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div style={styles.chatWindow}>
+                    {chatHistory.map((msg, index) => (
+                        <div key={index} style={msg.role === 'user' ? styles.userMessage : styles.botMessage}>
+                            {msg.role === 'user' ? msg.text : <Markdown source={msg.text} />}
+                            {msg.sources && renderCitations(msg.sources)}
+                        </div>
+                    ))}
+                    {isLoading && chatHistory.length > 0 && (
+                        <div style={styles.botMessage}>
+                           {streamingReply ? <Markdown source={streamingReply} /> : <i className="fas fa-spinner fa-spin"></i>}
+                        </div>
+                    )}
+                    {aiNotice && <p style={styles.recordingNotice}>{aiNotice}</p>}
+                </div>
+            )}
+            <form onSubmit={handleChatSubmit} style={styles.chatInputForm}>
+                <input
+                    type="text"
+                    value={chatInput}
+                    onChange={(e) => setChatInput(e.target.value)}
+                    placeholder="Ask for advice..."
+                    style={styles.chatInput}
+                    disabled={isLoading}
+                />
+                {isLoading ? (
+                    <button type="button" style={styles.sendButton} onClick={handleStopAi} aria-label="Stop">
+                        <i className="fas fa-stop"></i>
+                    </button>
+                ) : (
+                    <button type="submit" style={styles.sendButton} aria-label="Send">
+                        <i className="fas fa-paper-plane"></i>
+                    </button>
+                )}
+            </form>
+        </div>
+    );
+    
+    const renderAiSettings = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>AI Assistant</h2>
+            <p style={styles.modalDescription}>
+                Choose where the safety assistant runs. A self-hosted OpenAI-compatible server keeps
+                questions and API keys off third-party services.
+            </p>
+            <div style={styles.contactForm}>
+                <label style={styles.formLabel}>
+                    Provider
+                    <select style={styles.formInput} value={aiSettings.provider} onChange={(e) => setAiSettings({ ...aiSettings, provider: e.target.value as AiProviderKind })}>
+                        {Object.entries(AI_PROVIDER_LABELS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+                    </select>
+                </label>
+                {aiSettings.provider === 'gemini' && (
+                    <>
+                        <label style={styles.formLabel}>
+                            Gemini API key (stored on this device only)
+                            <input style={styles.formInput} type="password" value={aiSettings.geminiApiKey} onChange={(e) => setAiSettings({ ...aiSettings, geminiApiKey: e.target.value })} />
+                        </label>
+                        <label style={styles.formLabel}>
+                            Model
+                            <input style={styles.formInput} value={aiSettings.geminiModel} onChange={(e) => setAiSettings({ ...aiSettings, geminiModel: e.target.value })} />
+                        </label>
+                    </>
+                )}
+                {aiSettings.provider === 'openai' && (
+                    <>
+                        <label style={styles.formLabel}>
+                            Server URL
+                            <input style={styles.formInput} type="url" value={aiSettings.baseUrl} onChange={(e) => setAiSettings({ ...aiSettings, baseUrl: e.target.value })} />
+                        </label>
+                        <label style={styles.formLabel}>
+                            Model
+                            <input style={styles.formInput} value={aiSettings.model} onChange={(e) => setAiSettings({ ...aiSettings, model: e.target.value })} />
+                        </label>
+                        <label style={styles.formLabel}>
+                            API key (optional)
+                            <input style={styles.formInput} type="password" value={aiSettings.apiKey} onChange={(e) => setAiSettings({ ...aiSettings, apiKey: e.target.value })} />
+                        </label>
+                        <p style={styles.recordingNotice}>This provider can't search the web, so answers come from the model alone. "Find Help Nearby" needs a server that supports JSON schema output (<code>response_format</code>).</p>
+                    </>
+                )}
+                {aiSettings.provider === 'mock' && (
+                    <p style={styles.recordingNotice}>Answers are fixed and work with no network. Use this to try the app out.</p>
+                )}
+            </div>
+            <h3 style={styles.modalTitle}>Situation Context</h3>
+            <p style={styles.modalDescription}>
+                When you allow it, each chat question is sent with the details below so the advice fits where you are
+                and what is happening. They are sent to the selected provider but not saved in the conversation.
+            </p>
+            <div style={styles.contactForm}>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={chatContext.enabled} onChange={(e) => setChatContext({ ...chatContext, enabled: e.target.checked })} />
+                    Share my situation with the assistant
+                </label>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={chatContext.location} onChange={(e) => setChatContext({ ...chatContext, location: e.target.checked })} disabled={!chatContext.enabled} />
+                    Current coordinates
+                </label>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={chatContext.status} onChange={(e) => setChatContext({ ...chatContext, status: e.target.checked })} disabled={!chatContext.enabled} />
+                    Whether emergency mode or location sharing is on
+                </label>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={chatContext.time} onChange={(e) => setChatContext({ ...chatContext, time: e.target.checked })} disabled={!chatContext.enabled} />
+                    Time of day
+                </label>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={chatContext.medical} onChange={(e) => setChatContext({ ...chatContext, medical: e.target.checked })} disabled={!chatContext.enabled} />
+                    Medical notes
+                </label>
+                <label style={styles.formLabel}>
+                    Medical notes (allergies, conditions, medication)
+                    <textarea style={styles.formTextarea} rows={3} value={chatContext.medicalNotes} onChange={(e) => setChatContext({ ...chatContext, medicalNotes: e.target.value })} />
+                </label>
+            </div>
+        </div>
+    );
+
+    const renderContacts = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Emergency Contacts</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <p style={styles.modalDescription}>Contacts are alerted in this order when emergency mode starts.</p>
+            <div style={styles.contactList}>
+                {contacts.length === 0 && <p style={styles.recordingNotice}>No contacts yet.</p>}
+                {contacts.map((contact, index) => (
+                    <div key={contact.id} style={styles.contactRow}>
+                        <div style={styles.contactDetails}>
+                            <strong>{index + 1}. {contact.name}</strong>
+                            {contact.relationship && <span> ({contact.relationship})</span>}
+                            <div style={styles.contactMeta}>{[contact.phone, contact.email].filter(Boolean).join(' · ')}</div>
+                        </div>
+                        <button style={styles.iconButton} onClick={() => setContacts(prev => moveContact(prev, contact.id, -1))} disabled={index === 0} aria-label="Move up">
+                            <i className="fas fa-arrow-up"></i>
+                        </button>
+                        <button style={styles.iconButton} onClick={() => setContacts(prev => moveContact(prev, contact.id, 1))} disabled={index === contacts.length - 1} aria-label="Move down">
+                            <i className="fas fa-arrow-down"></i>
+                        </button>
+                        <button style={styles.iconButton} onClick={() => handleEditContact(contact)} aria-label="Edit contact">
+                            <i className="fas fa-pen"></i>
+                        </button>
+                        <button style={styles.iconButton} onClick={() => handleDeleteContact(contact.id)} aria-label="Delete contact">
+                            <i className="fas fa-trash"></i>
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <form onSubmit={handleSaveContact} style={styles.contactForm}>
+                <input style={styles.formInput} placeholder="Name" value={contactForm.name} onChange={(e) => setContactForm({ ...contactForm, name: e.target.value })} />
+                <input style={styles.formInput} placeholder="Phone" type="tel" value={contactForm.phone} onChange={(e) => setContactForm({ ...contactForm, phone: e.target.value })} />
+                <input style={styles.formInput} placeholder="Email" type="email" value={contactForm.email} onChange={(e) => setContactForm({ ...contactForm, email: e.target.value })} />
+                <input style={styles.formInput} placeholder="Relationship" value={contactForm.relationship} onChange={(e) => setContactForm({ ...contactForm, relationship: e.target.value })} />
+                <button type="submit" style={styles.shareButton}>{editingContactId ? 'Save Contact' : 'Add Contact'}</button>
+                {editingContactId && (
+                    <button type="button" style={styles.textButton} onClick={() => { setEditingContactId(null); setContactForm(emptyContactForm); }}>Cancel editing</button>
+                )}
+            </form>
+            <label style={styles.formLabel}>
+                Alert message template
+                <textarea style={styles.formTextarea} rows={4} value={alertTemplate} onChange={(e) => setAlertTemplate(e.target.value)} />
+            </label>
+            <p style={styles.recordingNotice}>Placeholders: {'{name}'}, {'{relationship}'}, {'{type}'}, {'{location}'}, {'{time}'}, {'{battery}'}</p>
+            <button style={styles.textButton} onClick={() => setAlertTemplate(DEFAULT_ALERT_TEMPLATE)}>Reset template</button>
+        </div>
+    );
 
-        const userMessage: ChatMessage = { role: 'user', text: chatInput };
-        setChatHistory(prev => [...prev, userMessage]);
-        setIsLoading(true);
-        const currentInput = chatInput;
-        setChatInput('');
+    const renderComposedAlerts = () => composedAlerts.length > 0 && (
+        <div style={styles.alertList}>
+            <p>Tap to send from your alert channels:</p>
+            {composedAlerts.map(alert => (
+                <div key={alert.channelId} style={styles.alertItem}>
+                    <span>{alert.label}</span>
+                    <a href={alert.uri} style={styles.alertLink}>
+                        <i className={ALERT_CHANNEL_KINDS[alert.kind].icon}></i> {ALERT_CHANNEL_KINDS[alert.kind].label}
+                    </a>
+                </div>
+            ))}
+            <button style={styles.textButton} onClick={() => setComposedAlerts([])}>Dismiss</button>
+        </div>
+    );
 
-        try {
-            const response = await chatRef.current.sendMessage({ message: currentInput });
-            const botMessage: ChatMessage = { role: 'bot', text: response.text };
-            setChatHistory(prev => [...prev, botMessage]);
-        } catch (err) {
-            console.error("Chat Error:", err);
-            const errorMessage: ChatMessage = { role: 'bot', text: 'Sorry, I am having trouble connecting. Please try again.' };
-            setChatHistory(prev => [...prev, errorMessage]);
-        } finally {
-            setIsLoading(false);
-        }
+    const describeOutboxEntry = (entry: OutboxEntry) => {
+        const event = entry.event.type === 'test' ? 'Test' : ALERT_EVENT_LABELS[entry.event.type];
+        const status = entry.failed ? 'Gave up' : entry.attempts === 0 ? 'Sending' : `Retrying, attempt ${entry.attempts + 1}`;
+        return [event, status, entry.lastError].filter(Boolean).join(' · ');
     };
 
-    const renderHome = () => (
+    const renderAlertChannels = () => (
         <div style={styles.content}>
-            <h1 style={styles.title}>Guardian Angel</h1>
-            <p style={styles.subtitle}>Your Personal Safety Companion</p>
+            <h2 style={styles.pageTitle}>Alert Channels</h2>
             {error && <p style={styles.error}>{error}</p>}
-
-            {isEmergency ? (
-                <div style={styles.emergencyContainer}>
-                    <h2 style={styles.emergencyHeader}>EMERGENCY MODE ACTIVE</h2>
-                    <div style={styles.videoContainer}>
-                        {isRecording && <video ref={videoRef} autoPlay muted playsInline style={styles.videoPreview}></video>}
-                        <div style={styles.recordingIndicator}>
-                            <i className="fas fa-circle" style={{ color: 'red', animation: 'pulse 1.5s infinite' }}></i> REC
+            <p style={styles.modalDescription}>
+                Alerts go out by themselves when an emergency starts, as you move (at most once a minute) and when it ends.
+                Webhooks and push notifications are sent in the background and retried until they get through.
+                Browsers can't send texts or emails on their own, so SMS and email channels prepare a message for you to tap and send.
+            </p>
+            <div style={styles.contactList}>
+                {alertChannels.length === 0 && <p style={styles.recordingNotice}>No alert channels yet.</p>}
+                {alertChannels.map(channel => (
+                    <div key={channel.id} style={styles.contactRow}>
+                        <i className={ALERT_CHANNEL_KINDS[channel.kind].icon}></i>
+                        <div style={styles.contactDetails}>
+                            <strong>{channel.label}</strong>
+                            <div style={styles.contactMeta}>{ALERT_CHANNEL_KINDS[channel.kind].label} · {channel.target}</div>
+                            <div style={styles.channelEvents}>
+                                {(Object.keys(ALERT_EVENT_LABELS) as SubscribableEvent[]).map(event => (
+                                    <button
+                                        key={event}
+                                        style={channel.events.includes(event) ? styles.optionChipActive : styles.optionChip}
+                                        onClick={() => setAlertChannels(prev => prev.map(c => c.id === channel.id ? toggleChannelEvent(c, event) : c))}
+                                    >
+                                        {ALERT_EVENT_LABELS[event]}
+                                    </button>
+                                ))}
+                            </div>
                         </div>
+                        <button style={styles.iconButton} onClick={() => handleTestChannel(channel)} aria-label="Send test alert">
+                            <i className="fas fa-paper-plane"></i>
+                        </button>
+                        <button style={styles.iconButton} onClick={() => setAlertChannels(prev => prev.filter(c => c.id !== channel.id))} aria-label="Delete channel">
+                            <i className="fas fa-trash"></i>
+                        </button>
                     </div>
-                    <div ref={mapRef} style={styles.mapContainer}></div>
-                    {location && (
-                        <div style={styles.locationInfo}>
-                            <p>Live Location:</p>
-                            <p>{location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}</p>
-                            <button
-                                style={styles.shareButton}
-                                onClick={() => {
-                                    const message = `Emergency! My location is https://www.google.com/maps?q=${location.latitude},${location.longitude}`;
-                                    if(navigator.share) {
-                                        navigator.share({ title: 'Emergency Location', text: message });
-                                    } else {
-                                        navigator.clipboard.writeText(message);
-                                        alert('Emergency message copied to clipboard!');
-                                    }
-                                }}
-                            >
-                                <i className="fas fa-share-alt"></i> Share Location
-                            </button>
-                        </div>
-                    )}
-                    <button style={styles.stopButton} onClick={handleStopEmergency}>
-                        <i className="fas fa-hand-paper"></i> Stop Emergency
+                ))}
+            </div>
+            <form onSubmit={handleAddChannel} style={styles.contactForm}>
+                <div style={styles.scheduleOptions}>
+                    {(Object.keys(ALERT_CHANNEL_KINDS) as AlertChannelKind[]).map(kind => (
+                        <button type="button" key={kind} style={channelForm.kind === kind ? styles.optionChipActive : styles.optionChip} onClick={() => setChannelForm({ ...channelForm, kind })}>
+                            <i className={ALERT_CHANNEL_KINDS[kind].icon}></i> {ALERT_CHANNEL_KINDS[kind].label}
+                        </button>
+                    ))}
+                </div>
+                <input style={styles.formInput} placeholder="Name (optional)" value={channelForm.label} onChange={(e) => setChannelForm({ ...channelForm, label: e.target.value })} />
+                {channelForm.kind === 'push' ? (
+                    <textarea style={styles.formTextarea} rows={3} placeholder={ALERT_CHANNEL_KINDS.push.placeholder} value={channelForm.target} onChange={(e) => setChannelForm({ ...channelForm, target: e.target.value })} />
+                ) : (
+                    <input
+                        style={styles.formInput}
+                        type={channelForm.kind === 'sms' ? 'tel' : channelForm.kind === 'email' ? 'email' : 'url'}
+                        placeholder={ALERT_CHANNEL_KINDS[channelForm.kind].placeholder}
+                        value={channelForm.target}
+                        onChange={(e) => setChannelForm({ ...channelForm, target: e.target.value })}
+                    />
+                )}
+                {channelForm.kind === 'webhook' && (
+                    <div style={styles.checkInConfirm}>
+                        <input style={styles.formInput} placeholder="Signing secret" value={channelForm.secret} onChange={(e) => setChannelForm({ ...channelForm, secret: e.target.value })} />
+                        <button type="button" style={styles.textButton} onClick={() => setChannelForm({ ...channelForm, secret: createWebhookSecret() })}>Generate</button>
+                    </div>
+                )}
+                <button type="submit" style={styles.shareButton}>Add Channel</button>
+            </form>
+            {alertOutbox.length > 0 && (
+                <>
+                    <h3 style={styles.modalTitle}>Outbox</h3>
+                    {!navigator.onLine && <p style={styles.recordingNotice}>You are offline. These alerts are sent as soon as a connection is back.</p>}
+                    <div style={styles.contactList}>
+                        {alertOutbox.map(entry => (
+                            <div key={entry.id} style={styles.contactRow}>
+                                <i className={ALERT_CHANNEL_KINDS[entry.channel.kind].icon}></i>
+                                <div style={styles.contactDetails}>
+                                    <strong>{entry.channel.label}</strong>
+                                    <div style={styles.contactMeta}>{describeOutboxEntry(entry)}</div>
+                                </div>
+                                {entry.failed && (
+                                    <button style={styles.iconButton} onClick={() => alertDispatcherRef.current?.retry(entry.id)} aria-label="Retry">
+                                        <i className="fas fa-redo"></i>
+                                    </button>
+                                )}
+                                <button style={styles.iconButton} onClick={() => alertDispatcherRef.current?.discard(entry.id)} aria-label="Discard">
+                                    <i className="fas fa-times"></i>
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+            <h3 style={styles.modalTitle}>Push Notifications</h3>
+            <p style={styles.modalDescription}>
+                To send push alerts to someone, they open the app on their device and subscribe with this device's key.
+                Add the subscription their device shows as a Push channel here.
+            </p>
+            <label style={styles.formLabel}>
+                Your contact email, shared with push services
+                <input style={styles.formInput} type="email" value={pushContact} onChange={(e) => setPushContact(e.target.value)} />
+            </label>
+            {pushKey ? (
+                <div style={styles.checkInConfirm}>
+                    <input style={styles.formInput} readOnly value={pushKey} />
+                    <button style={styles.iconButton} onClick={() => handleCopyText(pushKey)} aria-label="Copy key">
+                        <i className={copiedText === pushKey ? 'fas fa-check' : 'fas fa-copy'}></i>
                     </button>
-                    <p style={styles.recordingNotice}>Audio & Video are being recorded. The recording will be downloaded when you stop the emergency.</p>
                 </div>
             ) : (
-                <button style={styles.sosButton} onClick={handleSos} aria-label="Activate Emergency SOS">
-                    <div style={styles.sosText}>SOS</div>
+                <button style={styles.textButton} onClick={() => getPushPublicKey().then(setPushKey).catch(err => console.error('Push Error:', err))}>
+                    Show this device's key
                 </button>
             )}
+            <p style={styles.modalDescription}>Receive alerts on this device:</p>
+            <div style={styles.checkInConfirm}>
+                <input style={styles.formInput} placeholder="Sender's key" value={pushSenderKey} onChange={(e) => setPushSenderKey(e.target.value)} />
+                <button style={styles.shareButton} onClick={handleSubscribePush} disabled={!pushSenderKey.trim()}>Subscribe</button>
+            </div>
+            {pushSubscription && (
+                <div style={styles.checkInConfirm}>
+                    <textarea style={{ ...styles.formTextarea, flex: 1 }} rows={3} readOnly value={pushSubscription} />
+                    <button style={styles.iconButton} onClick={() => handleCopyText(pushSubscription)} aria-label="Copy subscription">
+                        <i className={copiedText === pushSubscription ? 'fas fa-check' : 'fas fa-copy'}></i>
+                    </button>
+                </div>
+            )}
         </div>
     );
 
-    const renderTools = () => {
-        const isLocationReady = !!(location?.latitude && location?.longitude);
+    const renderPersonas = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Fake Callers</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <p style={styles.modalDescription}>Who calls you, how they sound and what they say once you answer.</p>
+            <label style={styles.formLabel}>
+                Caller for button gestures
+                <select style={styles.formInput} value={gestureCallerId || ''} onChange={(e) => setGestureCallerId(e.target.value || null)}>
+                    <option value="">First caller in the list</option>
+                    {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+                </select>
+            </label>
+            <div style={styles.contactList}>
+                {personas.length === 0 && <p style={styles.recordingNotice}>No callers yet.</p>}
+                {personas.map(persona => (
+                    <div key={persona.id} style={styles.contactRow}>
+                        {persona.photo ? <img src={persona.photo} alt="" style={styles.personaThumb} /> : <i className="fas fa-user-circle" style={{ fontSize: '2rem' }}></i>}
+                        <div style={styles.contactDetails}>
+                            <strong>{persona.name}</strong>
+                            <div style={styles.contactMeta}>{firstLine(parseCallScript(persona.script))}</div>
+                        </div>
+                        <button style={styles.iconButton} onClick={() => startFakeCall(persona)} aria-label="Call now">
+                            <i className="fas fa-phone"></i>
+                        </button>
+                        <button style={styles.iconButton} onClick={() => handleEditPersona(persona)} aria-label="Edit caller">
+                            <i className="fas fa-pen"></i>
+                        </button>
+                        <button style={styles.iconButton} onClick={() => handleDeletePersona(persona.id)} aria-label="Delete caller">
+                            <i className="fas fa-trash"></i>
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <form onSubmit={handleSavePersona} style={styles.contactForm}>
+                <input style={styles.formInput} placeholder="Caller name" value={personaForm.name} onChange={(e) => setPersonaForm({ ...personaForm, name: e.target.value })} />
+                <label style={styles.formLabel}>
+                    Photo
+                    <input type="file" accept="image/*" onChange={handlePersonaPhoto} />
+                </label>
+                {personaForm.photo && (
+                    <button type="button" style={styles.textButton} onClick={() => setPersonaForm({ ...personaForm, photo: null })}>Remove photo</button>
+                )}
+                <label style={styles.formLabel}>
+                    Voice
+                    <select style={styles.formInput} value={personaForm.voiceURI || ''} onChange={(e) => setPersonaForm({ ...personaForm, voiceURI: e.target.value || null })}>
+                        <option value="">Default voice</option>
+                        {voices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>)}
+                    </select>
+                </label>
+                <label style={styles.formLabel}>
+                    Speed: {personaForm.rate.toFixed(2)}
+                    <input type="range" min={0.5} max={2} step={0.05} value={personaForm.rate} onChange={(e) => setPersonaForm({ ...personaForm, rate: Number(e.target.value) })} />
+                </label>
+                <label style={styles.formLabel}>
+                    Pitch: {personaForm.pitch.toFixed(2)}
+                    <input type="range" min={0} max={2} step={0.05} value={personaForm.pitch} onChange={(e) => setPersonaForm({ ...personaForm, pitch: Number(e.target.value) })} />
+                </label>
+                <label style={styles.formLabel}>
+                    Script
+                    <textarea style={styles.formTextarea} rows={8} value={personaForm.script} onChange={(e) => setPersonaForm({ ...personaForm, script: e.target.value })} />
+                </label>
+                <p style={styles.recordingNotice}>
+                    One line per sentence; the caller waits for you to finish answering each one.
+                    Add choices with {'"? I\'m 5 minutes away -> close"'}, start sections with "# close",
+                    jump with {'"-> close"'}, and use [pause 3] or [hangup].
+                </p>
+                <button type="button" style={styles.textButton} onClick={handlePreviewVoice}>Preview voice</button>
+                <button type="submit" style={styles.shareButton}>{editingPersonaId ? 'Save Caller' : 'Add Caller'}</button>
+                {editingPersonaId && (
+                    <button type="button" style={styles.textButton} onClick={() => { setEditingPersonaId(null); setPersonaForm(emptyPersonaForm); }}>Cancel editing</button>
+                )}
+            </form>
+            <label style={styles.formLabel}>
+                Import callers (.json)
+                <input type="file" accept=".json,application/json" onChange={handleImportPersonas} />
+            </label>
+            <button style={styles.textButton} onClick={() => downloadBlob(exportPersonas(personas), 'fake-callers.json')} disabled={personas.length === 0}>Export callers</button>
+            <button style={styles.textButton} onClick={() => setPersonas(DEFAULT_PERSONAS)}>Restore default callers</button>
+        </div>
+    );
 
-        return (
-            <div style={styles.content}>
-                <h2 style={styles.pageTitle}>Safety Tools</h2>
-                <div style={styles.toolGrid}>
-                    <button
-                        style={isLocationReady ? styles.toolButton : { ...styles.toolButton, ...styles.disabledButton }}
-                        onClick={() => {
-                            if (isLocationReady) {
-                                fetchAiHelp(`Find the nearest police stations, government help offices, and public transport options near latitude ${location.latitude} and longitude ${location.longitude}`);
-                            }
-                        }}
-                        disabled={!isLocationReady}
-                        title={isLocationReady ? "Find help nearby" : "Location not yet available. Please wait."}
-                    >
-                        <i className="fas fa-building-shield" style={styles.toolIcon}></i>
-                        <span>Find Help Nearby</span>
-                    </button>
-                     <button style={styles.toolButton} onClick={() => fetchAiHelp('Give me simple text-based self-defense tutorials.')}>
-                        <i className="fas fa-user-shield" style={styles.toolIcon}></i>
-                        <span>Self-Defense Tutorials</span>
-                    </button>
-                    <button style={styles.toolButton} onClick={() => setShowContactSelector(true)}>
-                        <i className="fas fa-phone-alt" style={styles.toolIcon}></i>
-                        <span>Fake Call</span>
-                    </button>
-                    <button
-                        style={isLocationReady ? styles.toolButton : { ...styles.toolButton, ...styles.disabledButton }}
-                        onClick={() => isLocationReady && setShowSharingOptions(true)}
-                        disabled={!isLocationReady}
-                        title={isLocationReady ? "Share your live location" : "Location not yet available. Please wait."}
-                    >
-                        <i className="fas fa-map-marker-alt" style={styles.toolIcon}></i>
-                        <span>Share Location</span>
-                    </button>
+    const renderVault = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Evidence Vault</h2>
+            <p style={styles.modalDescription}>Recordings are stored only on this device.</p>
+            {deviceKeyFingerprint && (
+                <p style={styles.contactMeta}>
+                    This device signs exported evidence with key {deviceKeyFingerprint}. Note it down somewhere safe, so a verifier can check it was you.
+                </p>
+            )}
+            {renderTrackExport()}
+            {vaultRoutes.length > 0 && (
+                <div style={styles.contactList}>
+                    {vaultRoutes.map(route => (
+                        <div key={route.id} style={styles.contactRow}>
+                            <div style={styles.contactDetails}>
+                                <strong><i className="fas fa-route"></i> {new Date(route.startedAt).toLocaleString()}</strong>
+                                <div style={styles.contactMeta}>
+                                    {formatTime(Math.round((route.endedAt - route.startedAt) / 1000))} · {route.points.length} point{route.points.length > 1 ? 's' : ''}
+                                </div>
+                            </div>
+                            <button style={styles.iconButton} onClick={() => handleExportTrack(route.points, 'gpx')} aria-label="Export route as GPX">
+                                <i className="fas fa-download"></i>
+                            </button>
+                            <button style={styles.iconButton} onClick={() => handleExportTrack(route.points, 'geojson')} aria-label="Export route as GeoJSON">
+                                <i className="fas fa-code"></i>
+                            </button>
+                            <button style={styles.iconButton} onClick={() => handleDeleteRoute(route)} aria-label="Delete route">
+                                <i className="fas fa-trash"></i>
+                            </button>
+                        </div>
+                    ))}
                 </div>
-                {isLoading && <div style={styles.loader}><i className="fas fa-spinner fa-spin"></i> Loading...</div>}
-                {aiResponse && (
-                    <div style={styles.aiResponse} dangerouslySetInnerHTML={{ __html: aiResponse.replace(/\n/g, '<br />').replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') }}>
+            )}
+            <div style={styles.contactList}>
+                {vaultSessions.length === 0 && <p style={styles.recordingNotice}>No recordings yet.</p>}
+                {vaultSessions.map(session => (
+                    <div key={session.id}>
+                        <div style={styles.contactRow}>
+                            <div style={styles.contactDetails}>
+                                <strong>{new Date(session.startedAt).toLocaleString()}</strong>
+                                {session.recovered && <span style={styles.vaultBadge}>recovered</span>}
+                                {session.endedAt === null && <span style={styles.vaultBadge}>recording</span>}
+                                <div style={styles.contactMeta}>
+                                    {session.endedAt !== null && `${formatTime(Math.round((session.endedAt - session.startedAt) / 1000))} · `}
+                                    {(session.size / (1024 * 1024)).toFixed(1)} MB
+                                </div>
+                            </div>
+                            <button style={styles.iconButton} onClick={() => handlePlayVaultSession(session)} disabled={session.chunkCount === 0} aria-label="Play recording">
+                                <i className={vaultPlayback?.id === session.id ? 'fas fa-stop' : 'fas fa-play'}></i>
+                            </button>
+                            <button style={styles.iconButton} onClick={() => handleExportVaultSession(session)} disabled={session.chunkCount === 0} aria-label="Export recording">
+                                <i className="fas fa-download"></i>
+                            </button>
+                            <button style={styles.iconButton} onClick={() => handleExportEvidence(session)} disabled={session.endedAt === null} aria-label="Export signed evidence">
+                                <i className="fas fa-file-signature"></i>
+                            </button>
+                            <button style={styles.iconButton} onClick={() => handleVerifyVaultSession(session)} disabled={session.endedAt === null} aria-label="Verify recording">
+                                <i className="fas fa-shield-halved"></i>
+                            </button>
+                            <button style={styles.iconButton} onClick={() => handleDeleteVaultSession(session)} disabled={session.endedAt === null} aria-label="Delete recording">
+                                <i className="fas fa-trash"></i>
+                            </button>
+                        </div>
+                        {vaultPlayback?.id === session.id && (
+                            <video src={vaultPlayback.url} controls autoPlay playsInline style={styles.vaultPlayer}></video>
+                        )}
                     </div>
+                ))}
+            </div>
+            <label style={styles.formLabel}>
+                Verify exported evidence (manifest and recording)
+                <input type="file" multiple accept=".json,.webm,application/json,video/webm" onChange={handleVerifyExport} />
+            </label>
+            {verification && (
+                <div style={{ ...styles.aiResponse, marginTop: '15px' }}>
+                    <strong style={{ color: verification.result.issues.length ? 'var(--danger-red)' : '#34c759' }}>
+                        {verification.result.issues.length ? 'Verification failed' : 'Evidence intact'}
+                    </strong>{' '}
+                    {verification.label}
+                    {verification.result.signatureValid && <div>Signature valid.</div>}
+                    {verification.result.signer && (
+                        <div>
+                            Signed with key {verification.result.signer.fingerprint}
+                            {verification.result.signer.thisDevice
+                                ? " (this device's key)."
+                                : '. This is not the key of this device. The signature only shows the evidence is unaltered if you know this fingerprint belongs to the person who exported it.'}
+                        </div>
+                    )}
+                    {verification.result.issues.map((issue, i) => <div key={i}>• {issue}</div>)}
+                </div>
+            )}
+        </div>
+    );
+
+    const renderZones = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Safe Zones</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <p style={styles.modalDescription}>
+                {zoneDraft.mode === 'circle' ? 'Tap the map to place the centre of the zone.' : 'Tap the map to add the corners of the zone.'}
+            </p>
+            <div ref={zoneMapRef} style={styles.mapContainer}></div>
+            <div style={styles.contactForm}>
+                <input style={styles.formInput} placeholder="Zone name (e.g. Home)" value={zoneDraft.name} onChange={(e) => setZoneDraft({ ...zoneDraft, name: e.target.value })} />
+                <select style={styles.formInput} value={zoneDraft.mode} onChange={(e) => setZoneDraft({ ...zoneDraft, mode: e.target.value as ZoneShape['type'], points: [] })}>
+                    <option value="circle">Circle</option>
+                    <option value="polygon">Polygon</option>
+                </select>
+                {zoneDraft.mode === 'circle' && (
+                    <label style={styles.formLabel}>
+                        Radius: {zoneDraft.radius} m
+                        <input type="range" min={50} max={2000} step={50} value={zoneDraft.radius} onChange={(e) => setZoneDraft({ ...zoneDraft, radius: Number(e.target.value) })} />
+                    </label>
+                )}
+                <button style={styles.shareButton} onClick={handleSaveZone}>Save Zone</button>
+                {zoneDraft.points.length > 0 && (
+                    <button style={styles.textButton} onClick={() => setZoneDraft({ ...zoneDraft, points: [] })}>Clear shape</button>
                 )}
             </div>
-        );
-    };
+            <div style={styles.contactList}>
+                {safeZones.length === 0 && <p style={styles.recordingNotice}>No safe zones yet.</p>}
+                {safeZones.map(zone => (
+                    <div key={zone.id} style={styles.contactRow}>
+                        <div style={styles.contactDetails}>
+                            <strong>{zone.name}</strong>
+                            <div style={styles.contactMeta}>
+                                {zone.shape.type === 'circle' ? `Circle, ${zone.shape.radius} m` : `Polygon, ${zone.shape.points.length} corners`}
+                            </div>
+                        </div>
+                        <label style={styles.contactMeta}>
+                            <input
+                                type="checkbox"
+                                checked={zone.alertOnNightExit}
+                                onChange={(e) => setSafeZones(prev => prev.map(z => z.id === zone.id ? { ...z, alertOnNightExit: e.target.checked } : z))}
+                            /> Alert if I leave at night
+                        </label>
+                        <button style={styles.iconButton} onClick={() => setSafeZones(prev => prev.filter(z => z.id !== zone.id))} aria-label="Delete zone">
+                            <i className="fas fa-trash"></i>
+                        </button>
+                    </div>
+                ))}
+            </div>
+            {zoneEvents.length > 0 && (
+                <div style={{ ...styles.aiResponse, whiteSpace: 'normal' }}>
+                    <strong>Recent zone activity</strong>
+                    {zoneEvents.slice(-10).reverse().map((event, i) => (
+                        <div key={i} style={styles.contactMeta}>
+                            {new Date(event.timestamp).toLocaleString()}: {event.type === 'enter' ? 'Entered' : 'Left'} {event.zoneName}
+                        </div>
+                    ))}
+                    <button style={styles.textButton} onClick={() => setZoneEvents([])}>Clear log</button>
+                </div>
+            )}
+        </div>
+    );
 
-    const renderChat = () => (
-         <div style={{ ...styles.content, ...styles.chatContainer }}>
-            <h2 style={styles.pageTitle}>AI Safety Chat</h2>
-            <div style={styles.chatWindow}>
-                {chatHistory.map((msg, index) => (
-                    <div key={index} style={msg.role === 'user' ? styles.userMessage : styles.botMessage}>
-                        {msg.text}
+    const renderGestures = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Trigger Gestures</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <p style={styles.modalDescription}>
+                Gestures are recognised while the app is open. Try one now: while this page is open it is only reported, not run.
+            </p>
+            <p style={styles.sharingStatus}>{lastGesture ? `Detected: ${lastGesture}` : 'No gesture detected yet'}</p>
+            <div style={styles.contactList}>
+                {gestureBindings.map(binding => (
+                    <div key={binding.id} style={styles.contactRow}>
+                        <input
+                            type="checkbox"
+                            checked={binding.enabled}
+                            onChange={(e) => setGestureBindings(prev => prev.map(b => b.id === binding.id ? { ...b, enabled: e.target.checked } : b))}
+                            aria-label="Enable gesture"
+                        />
+                        <div style={styles.contactDetails}>
+                            <strong>{GESTURE_ACTION_LABELS[binding.action]}</strong>
+                            <div style={styles.contactMeta}>{describeGesture(binding.pattern)}</div>
+                        </div>
+                        <button style={styles.iconButton} onClick={() => setGestureBindings(prev => prev.filter(b => b.id !== binding.id))} aria-label="Delete gesture">
+                            <i className="fas fa-trash"></i>
+                        </button>
                     </div>
                 ))}
-                {isLoading && chatHistory.length > 0 && (
-                    <div style={styles.botMessage}>
-                       <i className="fas fa-spinner fa-spin"></i>
+            </div>
+            <div style={styles.contactForm}>
+                <select style={styles.formInput} value={gestureDraft.kind} onChange={(e) => {
+                    const kind = e.target.value as GesturePattern['kind'];
+                    setGestureDraft({ ...gestureDraft, kind, key: kind === 'shortcut' ? 's' : 'AudioVolumeUp' });
+                }}>
+                    <option value="presses">Repeated presses</option>
+                    <option value="longPress">Long press</option>
+                    <option value="sequence">Short/long sequence</option>
+                    <option value="shortcut">Keyboard shortcut</option>
+                </select>
+                {gestureDraft.kind === 'shortcut' ? (
+                    <div style={styles.checkInConfirm}>
+                        <label style={styles.contactMeta}><input type="checkbox" checked={gestureDraft.ctrl} onChange={(e) => setGestureDraft({ ...gestureDraft, ctrl: e.target.checked })} /> Ctrl</label>
+                        <label style={styles.contactMeta}><input type="checkbox" checked={gestureDraft.alt} onChange={(e) => setGestureDraft({ ...gestureDraft, alt: e.target.checked })} /> Alt</label>
+                        <label style={styles.contactMeta}><input type="checkbox" checked={gestureDraft.shift} onChange={(e) => setGestureDraft({ ...gestureDraft, shift: e.target.checked })} /> Shift</label>
+                        <input style={{ ...styles.formInput, width: '60px' }} maxLength={1} value={gestureDraft.key} onChange={(e) => setGestureDraft({ ...gestureDraft, key: e.target.value })} aria-label="Shortcut key" />
                     </div>
+                ) : (
+                    <select style={styles.formInput} value={gestureDraft.key} onChange={(e) => setGestureDraft({ ...gestureDraft, key: e.target.value })}>
+                        {Object.entries(HARDWARE_KEYS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                    </select>
+                )}
+                {gestureDraft.kind === 'presses' && (
+                    <label style={styles.formLabel}>
+                        Presses: {gestureDraft.count}
+                        <input type="range" min={2} max={8} value={gestureDraft.count} onChange={(e) => setGestureDraft({ ...gestureDraft, count: Number(e.target.value) })} />
+                    </label>
+                )}
+                {gestureDraft.kind === 'longPress' && (
+                    <label style={styles.formLabel}>
+                        Hold for: {gestureDraft.durationMs / 1000}s
+                        <input type="range" min={500} max={5000} step={250} value={gestureDraft.durationMs} onChange={(e) => setGestureDraft({ ...gestureDraft, durationMs: Number(e.target.value) })} />
+                    </label>
                 )}
+                {gestureDraft.kind === 'sequence' && (
+                    <input style={styles.formInput} placeholder='Sequence, e.g. "..-"' value={gestureDraft.sequence} onChange={(e) => setGestureDraft({ ...gestureDraft, sequence: e.target.value.trim() })} />
+                )}
+                <select style={styles.formInput} value={gestureDraft.action} onChange={(e) => setGestureDraft({ ...gestureDraft, action: e.target.value as GestureAction })}>
+                    {Object.entries(GESTURE_ACTION_LABELS).map(([action, label]) => <option key={action} value={action}>{label}</option>)}
+                </select>
+                <button style={styles.shareButton} onClick={handleAddGesture}>Add Gesture</button>
+                <button style={styles.textButton} onClick={() => setGestureBindings(DEFAULT_GESTURE_BINDINGS)}>Restore defaults</button>
             </div>
-            <form onSubmit={handleChatSubmit} style={styles.chatInputForm}>
-                <input
-                    type="text"
-                    value={chatInput}
-                    onChange={(e) => setChatInput(e.target.value)}
-                    placeholder="Ask for advice..."
-                    style={styles.chatInput}
-                    disabled={isLoading}
-                />
-                <button type="submit" style={styles.sendButton} disabled={isLoading}>
-                    <i className="fas fa-paper-plane"></i>
+        </div>
+    );
+
+    const renderFallDetection = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Fall Detection</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <p style={styles.modalDescription}>
+                Detects a hard impact followed by no movement, such as a fall, a crash or being pushed.
+                A loud countdown gives you time to cancel before emergency mode starts.
+            </p>
+            <div style={styles.contactForm}>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={fallSettings.enabled} onChange={(e) => handleToggleFallDetection(e.target.checked)} />
+                    Detect falls while the app is open
+                </label>
+                <label style={styles.formLabel}>
+                    Sensitivity
+                    <select style={styles.formInput} value={fallSettings.sensitivity} onChange={(e) => setFallSettings({ ...fallSettings, sensitivity: e.target.value as FallSensitivity })}>
+                        <option value="low">Low: only violent impacts</option>
+                        <option value="medium">Medium</option>
+                        <option value="high">High: also softer falls</option>
+                    </select>
+                </label>
+                <label style={styles.formLabel}>
+                    Countdown: {fallSettings.countdownSeconds}s
+                    <input type="range" min={10} max={120} step={5} value={fallSettings.countdownSeconds} onChange={(e) => setFallSettings({ ...fallSettings, countdownSeconds: Number(e.target.value) })} />
+                </label>
+                <button style={styles.textButton} onClick={() => setSosCountdown(createSosCountdown('fall', false, fallSettings.countdownSeconds))}>Test the countdown</button>
+            </div>
+        </div>
+    );
+
+    // The cancel button fills most of the screen so it can't be missed with shaking hands.
+    const renderSosCountdown = () => sosCountdown !== null && (
+        <div style={styles.checkInOverlay}>
+            {SOS_TRIGGERS[sosCountdown.trigger].alarm && <audio src={getAlarmUrl()} autoPlay loop></audio>}
+            <h2 style={styles.emergencyHeader}>{SOS_TRIGGERS[sosCountdown.trigger].label}</h2>
+            <p style={styles.checkInCountdown}>{sosCountdown.remaining}</p>
+            <p style={styles.modalDescription}>
+                {sosCountdown.discreet ? 'A discreet emergency starts when the countdown ends.' : 'Emergency mode starts when the countdown ends.'}
+            </p>
+            <button style={{ ...styles.cancelCountdownButton, ...styles.sosCancelButton }} onClick={handleCancelSos}>
+                I'm OK - Cancel
+            </button>
+            <button style={styles.textButton} onClick={() => { setSosCountdown(null); activateEmergencyMode(sosCountdown.discreet); }}>
+                Start now
+            </button>
+        </div>
+    );
+
+    const renderSosSettings = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>SOS Countdown</h2>
+            <p style={styles.modalDescription}>
+                Pressing SOS starts a short countdown you can cancel, so a slip of the finger doesn't raise an alarm.
+                Fall detection and distress listening use the same countdown with their own lengths.
+            </p>
+            <div style={styles.contactForm}>
+                <label style={styles.formLabel}>
+                    Countdown: {sosSettings.countdownSeconds}s
+                    <input type="range" min={3} max={30} step={1} value={sosSettings.countdownSeconds} onChange={(e) => setSosSettings({ ...sosSettings, countdownSeconds: Number(e.target.value) })} />
+                </label>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={sosSettings.skipConfirmation} onChange={(e) => setSosSettings({ ...sosSettings, skipConfirmation: e.target.checked })} />
+                    Start the emergency as soon as SOS is pressed
+                </label>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={sosSettings.gestureCountdown} onChange={(e) => setSosSettings({ ...sosSettings, gestureCountdown: e.target.checked })} />
+                    Count down after button gestures too
+                </label>
+                <button style={styles.textButton} onClick={() => setSosCountdown(createSosCountdown('button', false, sosSettings.countdownSeconds))}>Test the countdown</button>
+            </div>
+        </div>
+    );
+
+    const renderListen = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Distress Listening</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <p style={styles.modalDescription}>
+                Listens for a scream, breaking glass or your safe word while the app is open.
+                Sound is analysed on this device only and is never recorded or uploaded.
+                A silent countdown lets you cancel before a discreet emergency starts.
+            </p>
+            <div style={styles.contactForm}>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={listenSettings.enabled} onChange={(e) => { setError(null); setListenSettings({ ...listenSettings, enabled: e.target.checked }); }} />
+                    Listen for distress sounds
+                </label>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={listenSettings.scream} onChange={(e) => setListenSettings({ ...listenSettings, scream: e.target.checked })} />
+                    Screams
+                </label>
+                <label style={{ ...styles.formLabel, flexDirection: 'row', alignItems: 'center' }}>
+                    <input type="checkbox" checked={listenSettings.glass} onChange={(e) => setListenSettings({ ...listenSettings, glass: e.target.checked })} />
+                    Breaking glass
+                </label>
+                <label style={styles.formLabel}>
+                    Countdown: {listenSettings.countdownSeconds}s
+                    <input type="range" min={5} max={60} step={5} value={listenSettings.countdownSeconds} onChange={(e) => setListenSettings({ ...listenSettings, countdownSeconds: Number(e.target.value) })} />
+                </label>
+                <button style={styles.textButton} onClick={() => setSosCountdown(createSosCountdown('scream', true, listenSettings.countdownSeconds))}>Test the countdown</button>
+            </div>
+            <h3 style={styles.modalTitle}>Safe Word</h3>
+            <p style={styles.modalDescription}>
+                {listenSettings.safeWord
+                    ? 'Your safe word is set. Say it clearly to start the countdown.'
+                    : `Say your safe word ${SAFE_WORD_ENROLMENTS} times, once per recording, in a quiet place.`}
+            </p>
+            {listenSettings.safeWord ? (
+                <button style={styles.textButton} onClick={handleClearSafeWord}>Remove safe word</button>
+            ) : (
+                <button style={styles.shareButton} onClick={handleRecordSafeWord} disabled={isRecordingSafeWord}>
+                    {isRecordingSafeWord ? 'Listening... say the word' : `Record ${safeWordRecordings.length + 1} of ${SAFE_WORD_ENROLMENTS}`}
                 </button>
-            </form>
+            )}
         </div>
     );
-    
+
+    const renderOfflineMap = () => (
+        <div style={styles.content}>
+            <h2 style={styles.pageTitle}>Offline Map</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <p style={styles.modalDescription}>
+                Save the map around your current location so it still works with no signal.
+                Up to {MAX_OFFLINE_TILES} tiles are saved per area.
+            </p>
+            <p style={styles.sharingStatus}>{offlineTileCount} map tiles saved on this device</p>
+            {tileDownload ? (
+                <div style={styles.loader}>
+                    <i className="fas fa-spinner fa-spin"></i> Saving tiles {tileDownload.done}/{tileDownload.total}
+                </div>
+            ) : (
+                <div style={styles.shareOptionsGrid}>
+                    <button style={styles.shareOptionButton} onClick={() => handleDownloadTiles(1000)} disabled={!location}>1 km around me</button>
+                    <button style={styles.shareOptionButton} onClick={() => handleDownloadTiles(3000)} disabled={!location}>3 km around me</button>
+                    <button style={styles.shareOptionButton} onClick={() => handleDownloadTiles(10000)} disabled={!location}>10 km around me</button>
+                    <button style={styles.shareOptionButton} onClick={handleClearTiles} disabled={offlineTileCount === 0}>Delete saved tiles</button>
+                </div>
+            )}
+            {!location && <p style={styles.recordingNotice}>Waiting for your location...</p>}
+        </div>
+    );
+
+    const renderZonePrompt = () => zonePrompt && (
+        <div style={{ ...styles.modalOverlay, zIndex: 102 }}>
+            <div style={styles.modalContent}>
+                <h3 style={styles.modalTitle}>You left {zonePrompt.zoneName}</h3>
+                <p style={styles.modalDescription}>
+                    You left this safe zone at {new Date(zonePrompt.timestamp).toLocaleTimeString()}. Is everything OK?
+                </p>
+                {renderContactAlerts()}
+                <div style={styles.shareOptionsGrid}>
+                    <button style={styles.shareOptionButton} onClick={() => handleZoneNotifyContacts(zonePrompt)} disabled={contacts.length === 0}>Notify Contacts</button>
+                    <button style={styles.shareOptionButton} onClick={() => { setZonePrompt(null); activateEmergencyMode(false); }}>Start Emergency</button>
+                </div>
+                <button style={styles.modalCloseButton} onClick={() => { setZonePrompt(null); setContactAlerts([]); }}>I'm OK</button>
+            </div>
+        </div>
+    );
+
     const renderFakeCallSelector = () => (
         <div style={styles.modalOverlay}>
             <div style={styles.modalContent}>
                 <h3 style={styles.modalTitle}>Choose a Caller</h3>
+                {error && <p style={styles.error}>{error}</p>}
+                {scheduledCall && (
+                    <p style={styles.modalDescription}>
+                        {personas.find(p => p.id === scheduledCall.personaId)?.name} will call at {formatClockTime(scheduledCall.at)}.{' '}
+                        <button style={styles.textButton} onClick={() => setScheduledCall(null)}>Cancel call</button>
+                    </p>
+                )}
+                <div style={styles.scheduleOptions}>
+                    {FAKE_CALL_DELAYS.map(({ label, seconds }) => (
+                        <button key={seconds} style={fakeCallDelay === seconds ? styles.optionChipActive : styles.optionChip} onClick={() => setFakeCallDelay(seconds)}>{label}</button>
+                    ))}
+                    <button style={fakeCallDelay === 'at' ? styles.optionChipActive : styles.optionChip} onClick={() => setFakeCallDelay('at')}>At...</button>
+                </div>
+                {fakeCallDelay === 'at' && (
+                    <input type="time" style={{ ...styles.formInput, width: '100%', marginBottom: '15px' }} value={fakeCallTime} onChange={(e) => setFakeCallTime(e.target.value)} />
+                )}
                 <div style={styles.contactGrid}>
-                    <button style={styles.contactButton} onClick={() => startFakeCall('Mom')}>Mom</button>
-                    <button style={styles.contactButton} onClick={() => startFakeCall('Dad')}>Dad</button>
-                    <button style={styles.contactButton} onClick={() => startFakeCall('Best Friend')}>Best Friend</button>
-                    <button style={styles.contactButton} onClick={() => startFakeCall('Boyfriend')}>Boyfriend</button>
-                    <button style={styles.contactButton} onClick={() => startFakeCall('Girlfriend')}>Girlfriend</button>
-                    <button style={styles.contactButton} onClick={() => startFakeCall('Unknown Number')}>Unknown Number</button>
+                    {personas.map(persona => (
+                        <button key={persona.id} style={styles.contactButton} onClick={() => handleChooseCaller(persona)}>{persona.name}</button>
+                    ))}
                 </div>
-                <button style={styles.modalCloseButton} onClick={() => setShowContactSelector(false)}>Cancel</button>
+                <button style={styles.textButton} onClick={openPersonas}>Edit callers</button>
+                <button style={styles.modalCloseButton} onClick={() => dispatchMode({ type: 'dialogClosed' })}>Cancel</button>
             </div>
         </div>
     );
 
+    const formatClockTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
     const renderFakeCall = () => (
         <div style={styles.fakeCallScreen}>
             <div style={styles.callerInfo}>
-                <div style={styles.callerAvatar}><i className="fas fa-user"></i></div>
-                <h3 style={styles.callerName}>{fakeCallContact}</h3>
+                <div style={styles.callerAvatar}>
+                    {fakeCaller?.photo ? <img src={fakeCaller.photo} alt="" style={styles.callerPhoto} /> : <i className="fas fa-user"></i>}
+                </div>
+                <h3 style={styles.callerName}>{fakeCaller?.name}</h3>
                 <p style={styles.callStatus}>incoming call...</p>
             </div>
-             <audio src="https://actions.google.com/sounds/v1/alarms/digital_watch_alarm_long.ogg" autoPlay loop></audio>
+             <audio src={getRingtoneUrl()} autoPlay loop></audio>
             <div style={styles.callActions}>
-                <button style={{...styles.callButton, ...styles.declineCall}} onClick={() => setShowFakeCall(false)} aria-label="Decline Call">
+                <button style={{...styles.callButton, ...styles.declineCall}} onClick={() => dispatchMode({ type: 'callEnded' })} aria-label="Decline Call">
                     <i className="fas fa-phone-slash"></i>
                 </button>
                 <button style={{...styles.callButton, ...styles.acceptCall}} onClick={handleAcceptCall} aria-label="Accept Call">
@@ -725,18 +3121,44 @@ const App = () => {
     const renderActiveCall = () => (
         <div style={styles.fakeCallScreen}>
             <div style={{...styles.callerInfo, marginTop: '40px'}}>
-                <h3 style={styles.callerName}>{fakeCallContact}</h3>
-                <p style={styles.callStatus}>{formatTime(callTimer)}</p>
+                <h3 style={styles.callerName}>{fakeCaller?.name}</h3>
+                <p style={styles.callStatus}>{keypadDigits || formatTime(callTimer)}</p>
             </div>
             
-            <div style={styles.activeCallIcons}>
-                <div style={styles.activeCallIcon}><i className="fas fa-microphone-slash"></i><span>Mute</span></div>
-                <div style={styles.activeCallIcon}><i className="fas fa-th"></i><span>Keypad</span></div>
-                <div style={styles.activeCallIcon}><i className="fas fa-volume-up"></i><span>Speaker</span></div>
-                <div style={styles.activeCallIcon}><i className="fas fa-user-plus"></i><span>Add Call</span></div>
-                <div style={styles.activeCallIcon}><i className="fas fa-video"></i><span>FaceTime</span></div>
-                <div style={styles.activeCallIcon}><i className="fas fa-address-book"></i><span>Contacts</span></div>
-            </div>
+            {callOptions && (
+                <div style={styles.callOptions}>
+                    {callOptions.map(option => (
+                        <button key={option.text} style={styles.callOptionButton} onClick={() => callScriptRef.current?.choose(option.target)}>
+                            Say: "{option.text}"
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {showKeypad ? (
+                <div style={styles.activeCallIcons}>
+                    {DTMF_KEYS.map(key => (
+                        <button key={key} style={styles.keypadButton} onClick={() => handleKeypadPress(key)}>{key}</button>
+                    ))}
+                    <span></span>
+                    <button style={styles.activeCallIconButton} onClick={() => setShowKeypad(false)}>Hide</button>
+                </div>
+            ) : (
+                <div style={styles.activeCallIcons}>
+                    <button style={{ ...styles.activeCallIconButton, ...(isCallMuted ? styles.activeCallIconOn : {}) }} onClick={() => setIsCallMuted(!isCallMuted)} aria-pressed={isCallMuted}>
+                        <i className="fas fa-microphone-slash"></i><span>Mute</span>
+                    </button>
+                    <button style={styles.activeCallIconButton} onClick={() => setShowKeypad(true)}>
+                        <i className="fas fa-th"></i><span>Keypad</span>
+                    </button>
+                    <button style={{ ...styles.activeCallIconButton, ...(isCallSpeaker ? styles.activeCallIconOn : {}) }} onClick={() => setIsCallSpeaker(!isCallSpeaker)} aria-pressed={isCallSpeaker}>
+                        <i className="fas fa-volume-up"></i><span>Speaker</span>
+                    </button>
+                    <div style={styles.activeCallIcon}><i className="fas fa-user-plus"></i><span>Add Call</span></div>
+                    <div style={styles.activeCallIcon}><i className="fas fa-video"></i><span>FaceTime</span></div>
+                    <div style={styles.activeCallIcon}><i className="fas fa-address-book"></i><span>Contacts</span></div>
+                </div>
+            )}
 
             <div style={{...styles.callActions, justifyContent: 'center' }}>
                 <button style={{...styles.callButton, ...styles.declineCall}} onClick={handleHangUp} aria-label="Hang Up">
@@ -751,29 +3173,122 @@ const App = () => {
             <div style={styles.modalContent}>
                 <h3 style={styles.modalTitle}>Share Live Location</h3>
                 <p style={styles.modalDescription}>Choose how long you want to share your location for.</p>
+                <input
+                    style={{ ...styles.formInput, width: '100%', marginBottom: '10px' }}
+                    type="url"
+                    placeholder="Live relay URL (optional)"
+                    value={liveShareSettings.relayUrl}
+                    onChange={(e) => setLiveShareSettings({ ...liveShareSettings, relayUrl: e.target.value.trim() })}
+                />
+                {liveShareSettings.relayUrl && (
+                    <select
+                        style={{ ...styles.formInput, width: '100%', marginBottom: '15px' }}
+                        value={liveShareSettings.transport}
+                        onChange={(e) => setLiveShareSettings({ ...liveShareSettings, transport: e.target.value as TransportKind })}
+                    >
+                        <option value="websocket">WebSocket</option>
+                        <option value="http">HTTP</option>
+                    </select>
+                )}
                 <div style={styles.shareOptionsGrid}>
                     <button style={styles.shareOptionButton} onClick={() => handleStartSharing(15)}>15 Minutes</button>
                     <button style={styles.shareOptionButton} onClick={() => handleStartSharing(30)}>30 Minutes</button>
                     <button style={styles.shareOptionButton} onClick={() => handleStartSharing(60)}>1 Hour</button>
                     <button style={styles.shareOptionButton} onClick={() => handleStartSharing(null)}>Indefinitely</button>
                 </div>
-                <button style={styles.modalCloseButton} onClick={() => setShowSharingOptions(false)}>Cancel</button>
+                <button style={styles.modalCloseButton} onClick={() => dispatchMode({ type: 'dialogClosed' })}>Cancel</button>
+            </div>
+        </div>
+    );
+
+    const renderCheckInOptions = () => (
+        <div style={styles.modalOverlay}>
+            <div style={styles.modalContent}>
+                <h3 style={styles.modalTitle}>Check In With Me</h3>
+                <p style={styles.modalDescription}>If you don't check in before the timer runs out, emergency mode starts automatically.</p>
+                <input
+                    style={{ ...styles.formInput, width: '100%', marginBottom: '15px' }}
+                    type="password"
+                    inputMode="numeric"
+                    placeholder="Optional PIN to check in"
+                    value={checkInPin}
+                    onChange={(e) => setCheckInPin(e.target.value)}
+                />
+                <div style={styles.shareOptionsGrid}>
+                    <button style={styles.shareOptionButton} onClick={() => handleStartCheckIn(15)}>15 Minutes</button>
+                    <button style={styles.shareOptionButton} onClick={() => handleStartCheckIn(30)}>30 Minutes</button>
+                    <button style={styles.shareOptionButton} onClick={() => handleStartCheckIn(60)}>1 Hour</button>
+                    <button style={styles.shareOptionButton} onClick={() => handleStartCheckIn(120)}>2 Hours</button>
+                </div>
+                <button style={styles.modalCloseButton} onClick={() => { dispatchMode({ type: 'dialogClosed' }); setCheckInPin(''); }}>Cancel</button>
             </div>
         </div>
     );
 
+    const renderCheckInConfirm = () => checkInSession?.pin ? (
+        <div style={styles.checkInConfirm}>
+            <input
+                style={styles.formInput}
+                type="password"
+                inputMode="numeric"
+                placeholder="PIN"
+                value={checkInConfirmPin}
+                onChange={(e) => setCheckInConfirmPin(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleConfirmCheckIn()}
+            />
+            <button style={styles.shareButton} onClick={handleConfirmCheckIn}>I'm OK</button>
+        </div>
+    ) : (
+        <button
+            style={styles.shareButton}
+            onPointerDown={handleCheckInHoldStart}
+            onPointerUp={handleCheckInHoldEnd}
+            onPointerLeave={handleCheckInHoldEnd}
+        >
+            Hold to check in
+        </button>
+    );
+
+    const renderCheckIn = () => {
+        if (!checkInSession) return null;
+        const seconds = Math.ceil(checkInRemaining / 1000);
+
+        if (checkInStage === 'countdown') {
+            return (
+                <div style={styles.checkInOverlay}>
+                    <h2 style={styles.emergencyHeader}>CHECK-IN MISSED</h2>
+                    <p style={styles.checkInCountdown}>{seconds}</p>
+                    <p style={styles.modalDescription}>Emergency mode starts when the countdown ends.</p>
+                    {renderCheckInConfirm()}
+                </div>
+            );
+        }
+
+        return (
+            <div style={checkInStage === 'warning' ? { ...styles.checkInBanner, ...styles.checkInBannerWarning } : styles.checkInBanner}>
+                <span>
+                    <i className="fas fa-user-clock"></i>{' '}
+                    {checkInStage === 'warning' ? `Check in now! ${seconds}s` : `Check-in due in ${formatTime(seconds)}`}
+                </span>
+                {renderCheckInConfirm()}
+            </div>
+        );
+    };
+
     const renderLocationSharing = () => (
         <div style={styles.content}>
             <div style={styles.sharingContainer}>
                 <h2 style={styles.sharingHeader}>SHARING LOCATION</h2>
                 <p style={styles.sharingStatus}>{remainingTime}</p>
+                {liveSession && <p style={styles.recordingNotice}><i className="fas fa-satellite-dish"></i> Live link active</p>}
                 <div ref={mapRef} style={styles.mapContainer}></div>
                 {location && (
                     <div style={styles.sharingActions}>
                         <button
                             style={styles.shareButton}
                             onClick={() => {
-                                const message = `I'm sharing my live location with you. See where I am here: https://www.google.com/maps?q=${location.latitude},${location.longitude}`;
+                                const link = liveSession ? liveSession.viewUrl : `https://www.google.com/maps?q=${location.latitude},${location.longitude}`;
+                                const message = `I'm sharing my live location with you. See where I am here: ${link}`;
                                 if(navigator.share) {
                                     navigator.share({ title: 'My Live Location', text: message });
                                 } else {
@@ -789,39 +3304,75 @@ const App = () => {
                         </button>
                     </div>
                 )}
+                {renderTrackExport()}
                 <p style={styles.recordingNotice}>Your location is being shared. You can stop at any time.</p>
             </div>
         </div>
     );
     
+    const screen = mainScreen(mode);
+
+    // Behind the decoy only what needs the user's answer gets through: a ringing fake call,
+    // a loud SOS countdown and a check-in, each of which looks like an ordinary phone prompt
+    // or would otherwise escalate on its own. Discreet countdowns stay hidden.
+    if (isLocked) {
+        return (
+            <div style={styles.appContainer}>
+                <audio ref={sirenAudioRef} src={getSirenUrl()} loop />
+                {renderCheckIn()}
+                {sosCountdown && !sosCountdown.discreet && renderSosCountdown()}
+                {mode.call === 'active' ? renderActiveCall() : mode.call === 'ringing' && renderFakeCall()}
+                {disguiseSettings.decoy === 'calculator' ? renderCalculator() : renderNotes()}
+            </div>
+        );
+    }
+
     return (
         <div style={styles.appContainer}>
-            <audio ref={sirenAudioRef} src="https://actions.google.com/sounds/v1/alarms/police_siren_close.ogg" loop />
+            <audio ref={sirenAudioRef} src={getSirenUrl()} loop />
+            {renderCheckIn()}
+            {renderZonePrompt()}
+            {renderSosCountdown()}
+            {mode.call === 'active' ? renderActiveCall() : mode.call === 'ringing' && renderFakeCall()}
             <main style={styles.mainContent}>
-                {isCallActive ? renderActiveCall() :
-                 showFakeCall ? renderFakeCall() : 
-                 showContactSelector ? renderFakeCallSelector() :
-                 isSharingLocation ? renderLocationSharing() :
-                 showSharingOptions ? renderShareOptions() : (
+                {screen === 'callerSelector' ? renderFakeCallSelector() :
+                 screen === 'sharing' ? renderLocationSharing() :
+                 screen === 'sharingOptions' ? renderShareOptions() :
+                 screen === 'checkInOptions' ? renderCheckInOptions() : (
                     <>
                         {view === 'home' && renderHome()}
                         {view === 'tools' && renderTools()}
+                        {view === 'nearby' && renderNearbyHelp()}
+                        {view === 'library' && renderLibrary()}
+                        {view === 'pins' && renderPins()}
+                        {view === 'sos' && renderSosSettings()}
+                        {view === 'alerts' && renderAlertChannels()}
+                        {view === 'disguise' && renderDisguise()}
                         {view === 'chat' && renderChat()}
+                        {view === 'contacts' && renderContacts()}
+                        {view === 'vault' && renderVault()}
+                        {view === 'zones' && renderZones()}
+                        {view === 'offline-map' && renderOfflineMap()}
+                        {view === 'gestures' && renderGestures()}
+                        {view === 'fall-detection' && renderFallDetection()}
+                        {view === 'listen' && renderListen()}
+                        {view === 'personas' && renderPersonas()}
+                        {view === 'ai-settings' && renderAiSettings()}
                     </>
                 )}
             </main>
             
-            {!isCallActive && !showFakeCall && !showContactSelector && !isSharingLocation && !showSharingOptions && (
+            {showsNav(mode) && (
                 <nav style={styles.nav}>
                     <button style={view === 'home' ? styles.navButtonActive : styles.navButton} onClick={() => setView('home')}>
                         <i className="fas fa-home"></i>
                         <span>Home</span>
                     </button>
-                    <button style={view === 'tools' ? styles.navButtonActive : styles.navButton} onClick={() => { setView('tools'); setAiResponse(''); }}>
+                    <button style={['tools', 'nearby', 'library', 'sos', 'pins', 'disguise', 'contacts', 'alerts', 'vault', 'zones', 'offline-map', 'gestures', 'fall-detection', 'listen', 'personas'].includes(view) ? styles.navButtonActive : styles.navButton} onClick={() => { setView('tools'); setAiResponse(''); setAiSources([]); setAiFallback(null); }}>
                         <i className="fas fa-toolbox"></i>
                         <span>Tools</span>
                     </button>
-                    <button style={view === 'chat' ? styles.navButtonActive : styles.navButton} onClick={() => setView('chat')}>
+                    <button style={['chat', 'ai-settings'].includes(view) ? styles.navButtonActive : styles.navButton} onClick={() => setView('chat')}>
                         <i className="fas fa-comments"></i>
                         <span>AI Chat</span>
                     </button>
@@ -839,6 +3390,16 @@ const styles: { [key: string]: React.CSSProperties } = {
         width: '100%',
         backgroundColor: 'var(--primary-bg)',
     },
+    // Decoy screens: deliberately plain, and nothing like the app's own look
+    calculator: { display: 'flex', flexDirection: 'column', justifyContent: 'flex-end', height: '100%', backgroundColor: '#000', padding: '20px', boxSizing: 'border-box' },
+    calculatorDisplay: { color: 'white', fontSize: '4rem', fontWeight: 300, textAlign: 'right', padding: '10px', overflowWrap: 'anywhere' },
+    calculatorKeys: { display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '12px' },
+    calculatorKey: { height: '72px', borderRadius: '50%', border: 'none', backgroundColor: '#333', color: 'white', fontSize: '1.8rem', cursor: 'pointer' },
+    calculatorOperator: { backgroundColor: '#ff9f0a' },
+    decoyNotes: { backgroundColor: '#fdfbf3', color: '#222', alignItems: 'stretch', textAlign: 'left', gap: '10px', overflowY: 'auto', paddingBottom: '20px' },
+    decoyInput: { border: '1px solid #ddd', borderRadius: '8px', padding: '10px', fontSize: '1rem', backgroundColor: 'white', color: '#222', fontFamily: 'inherit' },
+    decoyButton: { alignSelf: 'flex-end', border: 'none', background: 'none', color: '#c98a00', fontSize: '1rem', cursor: 'pointer' },
+    decoyNote: { display: 'flex', alignItems: 'flex-start', gap: '8px', backgroundColor: 'white', borderRadius: '8px', padding: '12px', border: '1px solid #eee' },
     mainContent: {
         flex: 1,
         overflowY: 'auto',
@@ -889,6 +3450,11 @@ const styles: { [key: string]: React.CSSProperties } = {
         border: '1px solid var(--tertiary-bg)'
     },
     locationInfo: { margin: '10px 0', fontSize: '1rem' },
+    alertList: { width: '100%', maxWidth: '400px', margin: '10px 0', textAlign: 'left' },
+    alertItem: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', backgroundColor: 'var(--tertiary-bg)', padding: '8px 12px', borderRadius: '8px', marginTop: '8px' },
+    alertLinks: { display: 'flex', gap: '12px' },
+    alertLink: { color: 'var(--accent-blue)', textDecoration: 'none' },
+    channelEvents: { display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '6px' },
     shareButton: { backgroundColor: 'var(--accent-blue)', color: 'white', border: 'none', padding: '12px 20px', borderRadius: '8px', cursor: 'pointer', fontSize: '1rem', marginTop: '10px' },
     stopButton: { backgroundColor: 'var(--accent-blue)', color: 'white', border: 'none', padding: '15px 30px', borderRadius: '8px', cursor: 'pointer', fontSize: '1.2rem', marginTop: '20px' },
     recordingNotice: { fontSize: '0.8rem', color: 'var(--secondary-text)', marginTop: '15px' },
@@ -903,14 +3469,29 @@ const styles: { [key: string]: React.CSSProperties } = {
     aiResponse: { backgroundColor: 'var(--tertiary-bg)', padding: '15px', borderRadius: '8px', textAlign: 'left', width: '100%', overflowWrap: 'break-word', whiteSpace: 'pre-wrap', color: 'var(--secondary-text)' },
     chatContainer: { paddingBottom: '70px', justifyContent: 'flex-end', },
     chatWindow: { width: '100%', flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '10px', padding: '10px 0' },
+    markdownBlock: { margin: '0 0 8px 0' },
+    markdownHeading: { margin: '10px 0 6px 0', color: 'var(--primary-text)' },
+    markdownList: { margin: '0 0 8px 0', paddingLeft: '22px' },
+    markdownQuote: { margin: '0 0 8px 0', paddingLeft: '10px', borderLeft: '3px solid #555' },
+    markdownCode: { backgroundColor: 'rgba(255, 255, 255, 0.08)', padding: '1px 4px', borderRadius: '4px', fontFamily: 'monospace' },
+    markdownPre: { backgroundColor: 'rgba(255, 255, 255, 0.08)', padding: '10px', borderRadius: '6px', overflowX: 'auto', margin: '0 0 8px 0' },
+    markdownRule: { border: 'none', borderTop: '1px solid #444', margin: '10px 0' },
+    markdownLink: { color: 'var(--accent-blue)' },
+    citations: { marginTop: '12px', borderTop: '1px solid #444', paddingTop: '8px' },
+    citationList: { margin: '6px 0 0 0', paddingLeft: '22px' },
+    citationItem: { display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' },
     userMessage: { alignSelf: 'flex-end', backgroundColor: 'var(--accent-blue)', color: 'white', padding: '10px 15px', borderRadius: '15px 15px 0 15px', maxWidth: '80%' },
     botMessage: { alignSelf: 'flex-start', backgroundColor: 'var(--tertiary-bg)', padding: '10px 15px', borderRadius: '15px 15px 15px 0', maxWidth: '80%' },
+    chatToolbar: { display: 'flex', flexWrap: 'wrap', gap: '10px', justifyContent: 'center', marginBottom: '5px' },
+    conversationButton: { background: 'none', border: 'none', color: 'var(--primary-text)', cursor: 'pointer', padding: 0, font: 'inherit', textAlign: 'left' },
     chatInputForm: { display: 'flex', width: '100%', padding: '10px 20px', position: 'absolute', bottom: '60px', left: '0', backgroundColor: 'var(--secondary-bg)' },
     chatInput: { flex: 1, backgroundColor: 'var(--tertiary-bg)', border: 'none', color: 'var(--primary-text)', padding: '12px', borderRadius: '20px 0 0 20px', fontSize: '1rem' },
     sendButton: { backgroundColor: 'var(--tertiary-bg)', border: 'none', color: 'var(--accent-blue)', padding: '12px 15px', borderRadius: '0 20px 20px 0', cursor: 'pointer', fontSize: '1.2rem' },
     // Fake Call Styles
     fakeCallScreen: { position: 'fixed', top: 0, left: 0, width: '100%', height: '100%', backgroundColor: '#000', zIndex: 100, display: 'flex', flexDirection: 'column', justifyContent: 'space-around', alignItems: 'center', color: 'white' },
     callerInfo: { textAlign: 'center' },
+    callerPhoto: { width: '100%', height: '100%', borderRadius: '50%', objectFit: 'cover' },
+    personaThumb: { width: '40px', height: '40px', borderRadius: '50%', objectFit: 'cover' },
     callerAvatar: { fontSize: '5rem', backgroundColor: '#555', width: '120px', height: '120px', borderRadius: '50%', display: 'flex', justifyContent: 'center', alignItems: 'center', margin: '0 auto 20px auto' },
     callerName: { fontSize: '2rem', fontWeight: 'bold' },
     callStatus: { fontSize: '1.2rem', color: '#aaa', animation: 'pulse 1.5s infinite' },
@@ -934,6 +3515,11 @@ const styles: { [key: string]: React.CSSProperties } = {
         gap: '8px',
         fontSize: '0.8rem',
     },
+    activeCallIconButton: { display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '8px', fontSize: '0.8rem', background: 'none', border: 'none', color: '#a0a0a0', cursor: 'pointer', padding: '8px', borderRadius: '12px' },
+    activeCallIconOn: { backgroundColor: '#e0e0e0', color: '#000' },
+    keypadButton: { width: '64px', height: '64px', borderRadius: '50%', border: 'none', backgroundColor: '#333', color: 'white', fontSize: '1.6rem', cursor: 'pointer', justifySelf: 'center' },
+    callOptions: { display: 'flex', flexDirection: 'column', gap: '8px', width: '100%', maxWidth: '300px' },
+    callOptionButton: { backgroundColor: 'rgba(255, 255, 255, 0.12)', color: 'white', border: 'none', borderRadius: '20px', padding: '10px 15px', fontSize: '0.95rem', cursor: 'pointer' },
     // Contact Selector Modal & Location Share Modal
     modalOverlay: {
         position: 'fixed',
@@ -986,6 +3572,9 @@ const styles: { [key: string]: React.CSSProperties } = {
         gridTemplateColumns: '1fr 1fr',
         gap: '15px',
     },
+    scheduleOptions: { display: 'flex', flexWrap: 'wrap', gap: '8px', justifyContent: 'center', marginBottom: '15px' },
+    optionChip: { backgroundColor: 'var(--tertiary-bg)', color: 'var(--primary-text)', border: '1px solid #444', padding: '8px 12px', borderRadius: '16px', cursor: 'pointer' },
+    optionChipActive: { backgroundColor: 'var(--accent-blue)', color: 'white', border: '1px solid var(--accent-blue)', padding: '8px 12px', borderRadius: '16px', cursor: 'pointer' },
     contactButton: {
         backgroundColor: 'var(--tertiary-bg)',
         color: 'var(--primary-text)',
@@ -1007,6 +3596,30 @@ const styles: { [key: string]: React.CSSProperties } = {
         width: '100%',
         fontSize: '1rem',
     },
+    // Emergency Contacts
+    contactList: { width: '100%', display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '20px' },
+    placeIcon: { width: '24px', textAlign: 'center', color: 'var(--accent-blue)' },
+    contactRow: { display: 'flex', alignItems: 'center', gap: '6px', backgroundColor: 'var(--tertiary-bg)', padding: '10px', borderRadius: '8px', textAlign: 'left' },
+    contactDetails: { flex: 1, overflowWrap: 'anywhere' },
+    contactMeta: { fontSize: '0.8rem', color: 'var(--secondary-text)', marginTop: '4px' },
+    iconButton: { background: 'none', border: 'none', color: 'var(--secondary-text)', cursor: 'pointer', fontSize: '1rem', padding: '6px' },
+    contactForm: { width: '100%', display: 'flex', flexDirection: 'column', gap: '10px', marginBottom: '20px' },
+    formInput: { backgroundColor: 'var(--tertiary-bg)', border: 'none', color: 'var(--primary-text)', padding: '12px', borderRadius: '8px', fontSize: '1rem' },
+    formLabel: { width: '100%', display: 'flex', flexDirection: 'column', gap: '8px', textAlign: 'left', color: 'var(--secondary-text)' },
+    formTextarea: { backgroundColor: 'var(--tertiary-bg)', border: 'none', color: 'var(--primary-text)', padding: '12px', borderRadius: '8px', fontSize: '0.9rem', fontFamily: 'inherit', resize: 'vertical' },
+    textButton: { background: 'none', border: 'none', color: 'var(--accent-blue)', cursor: 'pointer', fontSize: '0.9rem', marginTop: '10px' },
+    trackExport: { display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '12px', fontSize: '0.9rem', color: 'var(--secondary-text)' },
+    // Evidence Vault
+    vaultBadge: { marginLeft: '8px', fontSize: '0.7rem', padding: '2px 6px', borderRadius: '4px', backgroundColor: '#444', color: 'var(--secondary-text)', textTransform: 'uppercase' },
+    vaultPlayer: { width: '100%', marginTop: '8px', borderRadius: '8px' },
+    // Check-In Timer
+    checkInBanner: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px', padding: '8px 15px', backgroundColor: 'var(--tertiary-bg)', borderBottom: '1px solid #333', fontSize: '0.9rem' },
+    checkInBannerWarning: { backgroundColor: 'var(--danger-red)', color: 'white', animation: 'pulse 1s infinite' },
+    checkInOverlay: { position: 'fixed', top: 0, left: 0, width: '100%', height: '100%', backgroundColor: 'rgba(0, 0, 0, 0.9)', zIndex: 101, display: 'flex', flexDirection: 'column', justifyContent: 'center', alignItems: 'center', gap: '15px', padding: '20px', textAlign: 'center' },
+    sosCancelButton: { flex: 1, maxWidth: 'none', maxHeight: '45vh', fontSize: '2rem' },
+    checkInCountdown: { fontSize: '5rem', fontWeight: 'bold', color: 'var(--danger-red)' },
+    checkInConfirm: { display: 'flex', gap: '8px', alignItems: 'center' },
+    cancelCountdownButton: { backgroundColor: 'var(--accent-blue)', color: 'white', border: 'none', borderRadius: '16px', width: '100%', maxWidth: '320px', padding: '30px', fontSize: '1.6rem', fontWeight: 'bold', cursor: 'pointer' },
     // Location Sharing Screen
     sharingContainer: { width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center' },
     sharingHeader: { color: 'var(--accent-blue)', textTransform: 'uppercase', letterSpacing: '1.5px', marginBottom: '5px'},
@@ -1055,6 +3668,12 @@ const styles: { [key: string]: React.CSSProperties } = {
     },
 };
 
+if ('serviceWorker' in navigator) {
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js').catch(err => console.error('Service worker registration failed:', err));
+    });
+}
+
 const root = ReactDOM.createRoot(document.getElementById('root') as HTMLElement);
 root.render(
   <React.StrictMode>
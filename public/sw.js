@@ -0,0 +1,126 @@
+// Service worker: keeps the app shell and pre-downloaded map tiles available offline.
+// TILE_CACHE must match services/offlineTiles.ts.
+
+const SHELL_CACHE = 'app-shell-v1';
+const TILE_CACHE = 'map-tiles-v1';
+const VIEWED_TILE_CACHE = 'map-tiles-viewed-v1';
+const TILE_HOST = 'tile.openstreetmap.org';
+// Browsers count each opaque response as several MB of quota, so passively viewed tiles
+// are kept to a small, least-recently-used set.
+const MAX_VIEWED_TILES = 200;
+
+// The built index.html references content-hashed bundles, so the shell is precached
+// by fetching it and following its script and stylesheet links, plus the fonts and
+// images those stylesheets pull in.
+const precacheShell = async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const response = await fetch('/', { cache: 'reload' });
+    const html = await response.clone().text();
+    await cache.put('/', response);
+    const assets = [...html.matchAll(/(?:src|href)="(\/[^"]+)"/g)].map(match => match[1]);
+    for (const stylesheet of assets.filter(asset => asset.endsWith('.css'))) {
+        const css = await (await fetch(stylesheet)).text();
+        const base = new URL(stylesheet, self.location.origin);
+        assets.push(...[...css.matchAll(/url\(["']?([^"')]+)["']?\)/g)]
+            .filter(match => !match[1].startsWith('data:'))
+            .map(match => new URL(match[1], base).pathname));
+    }
+    await cache.addAll([...new Set(['/manifest.webmanifest', '/icon.svg', ...assets])]);
+};
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const keep = [SHELL_CACHE, TILE_CACHE, VIEWED_TILE_CACHE];
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// Pages: network first so updates arrive, falling back to the cached shell.
+const handleNavigation = async (request) => {
+    try {
+        const response = await fetch(request);
+        const cache = await caches.open(SHELL_CACHE);
+        cache.put('/', response.clone());
+        return response;
+    } catch (err) {
+        return (await caches.match('/')) || Response.error();
+    }
+};
+
+// Hashed assets never change, so the cache wins; anything fetched online is kept for
+// next time.
+const handleCacheFirst = async (request, cacheName) => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') {
+        const cache = await caches.open(cacheName);
+        cache.put(request, response.clone());
+    }
+    return response;
+};
+
+// Cache keys come back in insertion order, so the oldest entries are first.
+const trimCache = async (cache, maxEntries) => {
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+// Tiles from saved areas are served as they are and never evicted here. Other tiles
+// go to a separate capped cache, so browsing the map can't grow storage without limit.
+const handleTile = async (request, cacheKey) => {
+    const saved = await (await caches.open(TILE_CACHE)).match(cacheKey);
+    if (saved) return saved;
+    const viewed = await caches.open(VIEWED_TILE_CACHE);
+    const recent = await viewed.match(cacheKey);
+    if (recent) {
+        // Re-adding moves the tile to the end of the key order, away from eviction.
+        const copy = recent.clone();
+        viewed.delete(cacheKey).then(() => viewed.put(cacheKey, copy));
+        return recent;
+    }
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') {
+        viewed.put(cacheKey, response.clone()).then(() => trimCache(viewed, MAX_VIEWED_TILES));
+    }
+    return response;
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate') {
+        event.respondWith(handleNavigation(request));
+    } else if (url.hostname === TILE_HOST) {
+        event.respondWith(handleTile(request, url.href));
+    } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+        event.respondWith(handleCacheFirst(request, SHELL_CACHE));
+    }
+});
+
+// Alerts pushed by another device running the app (see services/webPush.ts). They stay on
+// screen until dismissed, and tapping one opens the sender's location.
+self.addEventListener('push', (event) => {
+    const alert = event.data ? event.data.json() : {};
+    event.waitUntil(self.registration.showNotification(alert.title || 'Emergency alert', {
+        body: alert.body || '',
+        tag: alert.tag,
+        renotify: true,
+        requireInteraction: true,
+        data: { url: alert.url },
+    }));
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = event.notification.data && event.notification.data.url;
+    event.waitUntil(self.clients.openWindow(url || '/'));
+});
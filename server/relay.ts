@@ -0,0 +1,305 @@
+// Reference live-location relay. Self-host it with `npm run relay`; it keeps all
+// state in memory and forgets a session as soon as its token expires.
+//
+//   RELAY_PORT        port to listen on (default 8787)
+//   RELAY_SECRET      HMAC secret for session tokens (random per process if unset)
+//   RELAY_PUBLIC_URL  base URL recipients use to reach the relay (default http://localhost:PORT)
+
+import http from 'http';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+    CreateSessionRequest, LiveSession, PollResponse, PublisherMessage, RelayMessage,
+    SequencedPosition, TokenRole, MAX_SESSION_MS, isPositionUpdate,
+} from '../services/liveShareProtocol';
+
+type RelaySession = {
+    expiresAt: number;
+    ended: boolean;
+    nextSeq: number;
+    positions: SequencedPosition[];
+    viewers: Set<WebSocket>;
+    publishers: Set<WebSocket>;
+};
+
+export type RelayOptions = {
+    secret?: string;
+    publicUrl?: string;
+    maxPositions?: number;
+    sweepIntervalMs?: number;
+};
+
+const MAX_BODY_BYTES = 16 * 1024;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const createRelayServer = (options: RelayOptions = {}) => {
+    const secret = options.secret || crypto.randomBytes(32).toString('hex');
+    const maxPositions = options.maxPositions ?? 500;
+    const sessions = new Map<string, RelaySession>();
+
+    const sign = (payload: string) => crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+    const issueToken = (sessionId: string, role: TokenRole, expiresAt: number) => {
+        const payload = `${sessionId}.${role}.${expiresAt}`;
+        return `${payload}.${sign(payload)}`;
+    };
+
+    // Tokens are self-describing and HMAC-signed, so checking one needs no lookup.
+    const verifyToken = (token: string | null, role: TokenRole) => {
+        const parts = (token || '').split('.');
+        if (parts.length !== 4) return null;
+        const [sessionId, tokenRole, expiresAt, signature] = parts;
+        const expected = sign(`${sessionId}.${tokenRole}.${expiresAt}`);
+        if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) return null;
+        if (tokenRole !== role || Number(expiresAt) <= Date.now()) return null;
+        const session = sessions.get(sessionId);
+        return session && !session.ended ? { sessionId, session } : null;
+    };
+
+    const send = (socket: WebSocket, message: RelayMessage) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const endSession = (sessionId: string) => {
+        const session = sessions.get(sessionId);
+        if (!session) return;
+        session.ended = true;
+        [...session.viewers, ...session.publishers].forEach(socket => {
+            send(socket, { type: 'ended' });
+            socket.close();
+        });
+        sessions.delete(sessionId);
+    };
+
+    const publish = (session: RelaySession, position: unknown) => {
+        if (!isPositionUpdate(position)) return false;
+        const entry: SequencedPosition = { seq: session.nextSeq++, position };
+        session.positions.push(entry);
+        if (session.positions.length > maxPositions) session.positions.shift();
+        session.viewers.forEach(viewer => send(viewer, { type: 'position', ...entry }));
+        return true;
+    };
+
+    const publicUrl = () => options.publicUrl || `http://localhost:${(server.address() as { port: number } | null)?.port}`;
+
+    const readJsonBody = (req: http.IncomingMessage) => new Promise<unknown>((resolve, reject) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', (chunk: string) => {
+            body += chunk;
+            if (body.length > MAX_BODY_BYTES) {
+                reject(new Error('Body too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => {
+            try {
+                resolve(body ? JSON.parse(body) : {});
+            } catch (err) {
+                reject(err);
+            }
+        });
+        req.on('error', reject);
+    });
+
+    const respond = (res: http.ServerResponse, status: number, body?: unknown, contentType = 'application/json') => {
+        res.writeHead(status, {
+            'Content-Type': contentType,
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+            'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+            'Cache-Control': 'no-store',
+        });
+        res.end(body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body));
+    };
+
+    const bearer = (req: http.IncomingMessage) => (req.headers.authorization || '').replace(/^Bearer\s+/i, '') || null;
+
+    const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const url = new URL(req.url || '/', 'http://relay');
+        const [, resource, sessionId, sub] = url.pathname.split('/');
+
+        if (req.method === 'OPTIONS') return respond(res, 204);
+
+        if (req.method === 'POST' && resource === 'sessions' && !sessionId) {
+            const { expiresAt } = await readJsonBody(req) as CreateSessionRequest;
+            const now = Date.now();
+            const cappedExpiry = Math.min(typeof expiresAt === 'number' && expiresAt > now ? expiresAt : now + MAX_SESSION_MS, now + MAX_SESSION_MS);
+            const id = crypto.randomBytes(12).toString('base64url');
+            sessions.set(id, { expiresAt: cappedExpiry, ended: false, nextSeq: 0, positions: [], viewers: new Set(), publishers: new Set() });
+            const viewToken = issueToken(id, 'view', cappedExpiry);
+            const session: LiveSession = {
+                sessionId: id,
+                publishToken: issueToken(id, 'publish', cappedExpiry),
+                viewToken,
+                expiresAt: cappedExpiry,
+                viewUrl: `${publicUrl()}/view/${id}?token=${encodeURIComponent(viewToken)}`,
+            };
+            return respond(res, 201, session);
+        }
+
+        if (resource === 'sessions' && sessionId) {
+            const role: TokenRole = req.method === 'GET' ? 'view' : 'publish';
+            const auth = verifyToken(role === 'view' ? url.searchParams.get('token') : bearer(req), role);
+            if (!auth || auth.sessionId !== sessionId) return respond(res, 401, { error: 'Invalid or expired token' });
+
+            if (req.method === 'POST' && sub === 'positions') {
+                return publish(auth.session, await readJsonBody(req))
+                    ? respond(res, 202, { ok: true })
+                    : respond(res, 400, { error: 'Invalid position' });
+            }
+            if (req.method === 'GET' && sub === 'positions') {
+                const since = Number(url.searchParams.get('since') ?? -1);
+                const poll: PollResponse = {
+                    positions: auth.session.positions.filter(p => p.seq > since),
+                    expiresAt: auth.session.expiresAt,
+                    ended: auth.session.ended,
+                };
+                return respond(res, 200, poll);
+            }
+            if (req.method === 'DELETE' && !sub) {
+                endSession(sessionId);
+                return respond(res, 204);
+            }
+        }
+
+        if (req.method === 'GET' && resource === 'view' && sessionId) {
+            const token = url.searchParams.get('token');
+            const auth = verifyToken(token, 'view');
+            if (!auth || auth.sessionId !== sessionId) {
+                return respond(res, 401, EXPIRED_PAGE, 'text/html; charset=utf-8');
+            }
+            return respond(res, 200, viewerPage(sessionId, token || ''), 'text/html; charset=utf-8');
+        }
+
+        if (req.method === 'GET' && url.pathname === '/health') {
+            return respond(res, 200, { ok: true, sessions: sessions.size });
+        }
+
+        respond(res, 404, { error: 'Not found' });
+    };
+
+    const server = http.createServer((req, res) => {
+        handleRequest(req, res).catch(err => {
+            console.error('Relay request failed:', err);
+            if (!res.headersSent) respond(res, 400, { error: 'Bad request' });
+        });
+    });
+
+    const wss = new WebSocketServer({ server, path: '/ws' });
+    wss.on('connection', (socket, req) => {
+        const token = new URL(req.url || '/', 'http://relay').searchParams.get('token');
+        const publisher = verifyToken(token, 'publish');
+        const viewer = publisher ? null : verifyToken(token, 'view');
+
+        if (publisher) {
+            publisher.session.publishers.add(socket);
+            socket.on('close', () => publisher.session.publishers.delete(socket));
+            socket.on('message', raw => {
+                try {
+                    const message = JSON.parse(raw.toString()) as PublisherMessage;
+                    const current = sessions.get(publisher.sessionId);
+                    if (message.type === 'position' && current && !publish(current, message.position)) {
+                        send(socket, { type: 'error', message: 'Invalid position' });
+                    }
+                } catch {
+                    send(socket, { type: 'error', message: 'Malformed message' });
+                }
+            });
+        } else if (viewer) {
+            viewer.session.viewers.add(socket);
+            viewer.session.positions.forEach(entry => send(socket, { type: 'position', ...entry }));
+            socket.on('close', () => viewer.session.viewers.delete(socket));
+        } else {
+            send(socket, { type: 'error', message: 'Invalid or expired token' });
+            socket.close();
+        }
+    });
+
+    const sweep = setInterval(() => {
+        const now = Date.now();
+        sessions.forEach((session, id) => {
+            if (session.expiresAt <= now) endSession(id);
+        });
+    }, options.sweepIntervalMs ?? SWEEP_INTERVAL_MS);
+
+    // Ends every session (telling viewers so) before shutting the server down.
+    const close = () => new Promise<void>((resolve, reject) => {
+        clearInterval(sweep);
+        Array.from(sessions.keys()).forEach(endSession);
+        wss.close();
+        server.close(err => err ? reject(err) : resolve());
+    });
+
+    return { server, close };
+};
+
+// JSON for an inline <script>: a "</script>" inside a string would otherwise end the block.
+const scriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const EXPIRED_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><title>Guardian Angel - Live Location</title></head>
+<body style="font-family: sans-serif; background: #121212; color: #E0E0E0;">This live location link is invalid or has expired.</body>
+</html>`;
+
+// Minimal recipient page: polls the relay and follows the sharer on a Leaflet map.
+const viewerPage = (sessionId: string, token: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Guardian Angel - Live Location</title>
+<link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css">
+<script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
+<style>
+  html, body { height: 100%; margin: 0; font-family: sans-serif; background: #121212; color: #E0E0E0; }
+  #status { padding: 10px; }
+  #map { height: calc(100% - 40px); }
+</style>
+</head>
+<body>
+<div id="status">Waiting for location...</div>
+<div id="map"></div>
+<script>
+  const sessionId = ${scriptJson(sessionId)};
+  const token = ${scriptJson(token)};
+  const status = document.getElementById('status');
+  const map = L.map('map').setView([0, 0], 2);
+  L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', { attribution: '&copy; OpenStreetMap contributors' }).addTo(map);
+  const trail = L.polyline([], { color: '#4a90e2' }).addTo(map);
+  let marker = null;
+  let since = -1;
+  const poll = async () => {
+    try {
+      const res = await fetch('/sessions/' + sessionId + '/positions?since=' + since + '&token=' + encodeURIComponent(token));
+      if (res.status === 401) { status.textContent = 'This live location link has expired.'; return; }
+      const data = await res.json();
+      data.positions.forEach(({ seq, position }) => {
+        since = seq;
+        const latLng = [position.latitude, position.longitude];
+        trail.addLatLng(latLng);
+        if (!marker) { marker = L.marker(latLng).addTo(map); map.setView(latLng, 16); }
+        marker.setLatLng(latLng);
+        status.textContent = 'Last update: ' + new Date(position.timestamp).toLocaleTimeString();
+      });
+      if (marker) map.panTo(marker.getLatLng());
+    } catch (err) {
+      status.textContent = 'Connection lost, retrying...';
+    }
+    setTimeout(poll, 5000);
+  };
+  poll();
+</script>
+</body>
+</html>`;
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    const port = Number(process.env.RELAY_PORT || 8787);
+    const { server } = createRelayServer({
+        secret: process.env.RELAY_SECRET,
+        publicUrl: process.env.RELAY_PUBLIC_URL,
+    });
+    server.listen(port, () => console.log(`Live location relay listening on http://localhost:${port}`));
+}
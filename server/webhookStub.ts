@@ -0,0 +1,117 @@
+// Local webhook receiver for trying alert dispatch end to end. Start it with
+// `npm run webhook`, then add a webhook channel for http://localhost:PORT/alerts with the
+// same secret under Tools → Alert Channels. It checks signatures, drops repeated event
+// ids and keeps what it received in memory.
+//
+//   WEBHOOK_PORT        port to listen on (default 8788)
+//   WEBHOOK_SECRET      signing secret shared with the app (random per process if unset, and printed)
+//   WEBHOOK_FAIL_FIRST  answer the first N deliveries with 503, to watch the app retry (default 0)
+
+import http from 'http';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import {
+    AlertEvent, MAX_CLOCK_SKEW_MS, SIGNATURE_HEADER, TIMESTAMP_HEADER, isAlertEvent, signedContent,
+} from '../services/alertProtocol';
+
+export type WebhookStubOptions = {
+    secret?: string;
+    failFirst?: number;
+    onAlert?: (event: AlertEvent) => void;
+};
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+export const createWebhookStub = (options: WebhookStubOptions = {}) => {
+    const secret = options.secret || crypto.randomBytes(24).toString('base64url');
+    let failuresLeft = options.failFirst ?? 0;
+    const received: AlertEvent[] = [];
+    const seen = new Set<string>();
+
+    const verifySignature = (timestamp: string, signature: string, body: string) => {
+        const sentAt = Number(timestamp);
+        if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > MAX_CLOCK_SKEW_MS) return false;
+        const expected = `sha256=${crypto.createHmac('sha256', secret).update(signedContent(sentAt, body)).digest('hex')}`;
+        return signature.length === expected.length && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    };
+
+    // The raw text is needed: the signature covers the exact bytes that were sent.
+    const readBody = (req: http.IncomingMessage) => new Promise<string>((resolve, reject) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', (chunk: string) => {
+            body += chunk;
+            if (body.length > MAX_BODY_BYTES) {
+                reject(new Error('Body too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+
+    const respond = (res: http.ServerResponse, status: number, body?: unknown) => {
+        res.writeHead(status, {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Headers': `Content-Type, ${TIMESTAMP_HEADER}, ${SIGNATURE_HEADER}`,
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Cache-Control': 'no-store',
+        });
+        res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const url = new URL(req.url || '/', 'http://webhook');
+
+        if (req.method === 'OPTIONS') return respond(res, 204);
+
+        if (req.method === 'POST' && url.pathname === '/alerts') {
+            const body = await readBody(req);
+            const timestamp = String(req.headers[TIMESTAMP_HEADER.toLowerCase()] || '');
+            const signature = String(req.headers[SIGNATURE_HEADER.toLowerCase()] || '');
+            if (!verifySignature(timestamp, signature, body)) return respond(res, 401, { error: 'Invalid signature' });
+            if (failuresLeft > 0) {
+                failuresLeft--;
+                return respond(res, 503, { error: 'Simulated outage' });
+            }
+            const event: unknown = JSON.parse(body);
+            if (!isAlertEvent(event)) return respond(res, 400, { error: 'Invalid alert' });
+            if (seen.has(event.id)) return respond(res, 200, { ok: true, duplicate: true });
+            seen.add(event.id);
+            received.push(event);
+            options.onAlert?.(event);
+            return respond(res, 200, { ok: true });
+        }
+
+        if (req.method === 'GET' && url.pathname === '/alerts') return respond(res, 200, received);
+
+        if (req.method === 'GET' && url.pathname === '/health') return respond(res, 200, { ok: true, received: received.length });
+
+        respond(res, 404, { error: 'Not found' });
+    };
+
+    const server = http.createServer((req, res) => {
+        handleRequest(req, res).catch(err => {
+            console.error('Webhook request failed:', err);
+            if (!res.headersSent) respond(res, 400, { error: 'Bad request' });
+        });
+    });
+
+    const close = () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()));
+
+    return { server, secret, received, close };
+};
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    const port = Number(process.env.WEBHOOK_PORT || 8788);
+    const { server, secret } = createWebhookStub({
+        secret: process.env.WEBHOOK_SECRET,
+        failFirst: Number(process.env.WEBHOOK_FAIL_FIRST || 0),
+        onAlert: event => console.log(`[${new Date(event.timestamp).toLocaleTimeString()}] ${event.type} (${event.emergencyId ?? 'no emergency'}): ${event.message}`),
+    });
+    server.listen(port, () => {
+        console.log(`Alert webhook stub listening on http://localhost:${port}/alerts`);
+        if (!process.env.WEBHOOK_SECRET) console.log(`Signing secret: ${secret}`);
+    });
+}
@@ -0,0 +1,58 @@
+import { GoogleGenAI, GenerateContentResponse } from '@google/genai';
+import type { AiProvider, AiReply, AiSource } from './aiProvider';
+import { AiError, AiRequestOptions } from './aiRequest';
+
+// Finish reasons meaning the model declined rather than failed.
+const REFUSAL_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const collect = async (responses: AsyncGenerator<GenerateContentResponse>, options: AiRequestOptions): Promise<AiReply> => {
+    let text = '';
+    const sources = new Map<string, AiSource>();
+    for await (const chunk of responses) {
+        const candidate = chunk.candidates?.[0];
+        if (chunk.promptFeedback?.blockReason || REFUSAL_REASONS.includes(String(candidate?.finishReason))) {
+            throw new AiError('refused', chunk.promptFeedback?.blockReasonMessage || 'Blocked by safety filters');
+        }
+        text += chunk.text || '';
+        options.onText?.(text);
+        // Grounding metadata usually arrives with the last chunk; keep the first title per URL.
+        candidate?.groundingMetadata?.groundingChunks?.forEach(g => {
+            if (g.web?.uri && !sources.has(g.web.uri)) sources.set(g.web.uri, { title: g.web.title || g.web.uri, uri: g.web.uri });
+        });
+    }
+    return { text, sources: Array.from(sources.values()) };
+};
+
+export const createGeminiProvider = (apiKey: string, model: string): AiProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        chat(systemInstruction, history = []) {
+            const chat = ai.chats.create({
+                model,
+                config: { systemInstruction },
+                history: history.map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] })),
+            });
+            return {
+                send: async (message, options = {}) =>
+                    collect(await chat.sendMessageStream({ message, config: { abortSignal: options.signal } }), options),
+            };
+        },
+        generate: async (prompt, options = {}) => collect(await ai.models.generateContentStream({
+            model,
+            contents: prompt,
+            config: { abortSignal: options.signal },
+        }), options),
+        search: async (prompt, options = {}) => collect(await ai.models.generateContentStream({
+            model,
+            contents: prompt,
+            config: { tools: [{ googleSearch: {} }], abortSignal: options.signal },
+        }), options),
+        // Search grounding can't be combined with a response schema, so this is ungrounded.
+        generateJson: async (prompt, schema, options = {}) => collect(await ai.models.generateContentStream({
+            model,
+            contents: prompt,
+            config: { responseMimeType: 'application/json', responseJsonSchema: schema, abortSignal: options.signal },
+        }), options),
+    };
+};
@@ -0,0 +1,72 @@
+import type { AiProvider, AiReply } from './aiProvider';
+import { AiError, AiRequestOptions } from './aiRequest';
+
+// Deterministic stand-in for a real model: the same prompt always gets the same answer,
+// with no network, which makes the assistant usable in demos and tests. Answers are
+// streamed word by word so the UI behaves as it does with a real backend.
+
+const CANNED_ANSWERS: { keywords: string[]; text: string }[] = [
+    {
+        keywords: ['self-defense', 'self defense'],
+        text: '**Stay aware.** Keep your head up and your phone away when walking alone.\n' +
+            '**Create distance.** If someone grabs your wrist, rotate it toward their thumb and pull away sharply.\n' +
+            '**Be loud.** Shout "Back off!" to draw attention, then move toward people and light.',
+    },
+    {
+        keywords: ['police', 'help offices', 'nearest'],
+        text: 'This is the offline demo assistant, so it cannot look up real places. ' +
+            'In an emergency call your local emergency number. Otherwise head for a busy, well-lit public place.',
+    },
+    {
+        keywords: ['followed', 'following'],
+        text: 'Go somewhere public and busy, such as a shop or cafe, and stay there. ' +
+            'Call someone you trust and tell them where you are. If you feel in danger, call emergency services.',
+    },
+];
+
+// Structured answers are placed around the first coordinates in the prompt, so the
+// nearby-help list and map have something to show offline.
+const DEMO_PLACES = [
+    { name: 'Demo Police Station', type: 'police', address: '1 Example Street', dLat: 0.004, dLon: 0.002, phone: '+1 555 0100', hours: 'Open 24 hours' },
+    { name: 'Demo General Hospital', type: 'hospital', address: '20 Sample Avenue', dLat: -0.006, dLon: 0.005, phone: '+1 555 0199', hours: 'Open 24 hours' },
+    { name: 'Demo Central Station', type: 'transport', address: 'Station Square', dLat: 0.001, dLon: -0.007, phone: '', hours: '05:00-01:00' },
+];
+
+const WORD_DELAY_MS = 15;
+
+const answerText = (prompt: string) => {
+    const lower = prompt.toLowerCase();
+    const match = CANNED_ANSWERS.find(a => a.keywords.some(k => lower.includes(k)));
+    return match ? match.text : `(Offline demo) I can't answer that without a real assistant. You asked: "${prompt.trim()}"`;
+};
+
+const answerJson = (prompt: string) => {
+    const coordinates = /(-?\d+(?:\.\d+)?)\D+?(-?\d+(?:\.\d+)?)/.exec(prompt.slice(prompt.search(/latitude/i)));
+    if (!coordinates) return JSON.stringify({ places: [] });
+    const [latitude, longitude] = [Number(coordinates[1]), Number(coordinates[2])];
+    return JSON.stringify({
+        places: DEMO_PLACES.map(({ dLat, dLon, ...place }) => ({ ...place, latitude: latitude + dLat, longitude: longitude + dLon })),
+    });
+};
+
+const stream = async (text: string, options: AiRequestOptions = {}): Promise<AiReply> => {
+    const words = text.split(/(?<=\s)/);
+    let sent = '';
+    for (const word of words) {
+        await new Promise(resolve => setTimeout(resolve, WORD_DELAY_MS));
+        if (options.signal?.aborted) throw new AiError('cancelled');
+        sent += word;
+        options.onText?.(sent);
+    }
+    return { text, sources: [] };
+};
+
+export const createMockProvider = (): AiProvider => ({
+    chat: () => ({ send: (message, options) => stream(answerText(message), options) }),
+    generate: (prompt, options) => stream(answerText(prompt), options),
+    search: async (prompt, options) => ({
+        ...await stream(answerText(prompt), options),
+        sources: [{ title: 'Offline demo source', uri: 'https://example.com/guardian-angel-demo' }],
+    }),
+    generateJson: (prompt, _schema, options) => stream(answerJson(prompt), options),
+});
@@ -0,0 +1,73 @@
+import type { AiChatMessage, AiProvider } from './aiProvider';
+import { AiError, AiRequestOptions, httpStatusError } from './aiRequest';
+
+// Adapter for any server speaking the OpenAI chat completions API: llama.cpp, Ollama,
+// vLLM, LocalAI, or a proxy that adds a key server-side so none ships in the app.
+
+type CompletionMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+type CompletionChunk = { choices?: { delta?: { content?: string }; finish_reason?: string | null }[] };
+
+export const createOpenAiCompatibleProvider = (baseUrl: string, model: string, apiKey: string): AiProvider => {
+    const complete = async (messages: CompletionMessage[], options: AiRequestOptions = {}, schema?: object) => {
+        const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages,
+                stream: true,
+                ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'reply', schema, strict: true } } } : {}),
+            }),
+            signal: options.signal,
+        });
+        if (!res.ok || !res.body) throw httpStatusError(res.status);
+
+        // The response is a server-sent event stream of "data: {json}" lines ending with "data: [DONE]".
+        const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        let text = '';
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += value;
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const data = line.replace(/^data:\s*/, '').trim();
+                if (!line.startsWith('data:') || data === '[DONE]') continue;
+                const choice = (JSON.parse(data) as CompletionChunk).choices?.[0];
+                if (choice?.finish_reason === 'content_filter') throw new AiError('refused', 'Blocked by content filter');
+                if (choice?.delta?.content) {
+                    text += choice.delta.content;
+                    options.onText?.(text);
+                }
+            }
+        }
+        // These servers have no search grounding, so answers never carry sources.
+        return { text, sources: [] };
+    };
+
+    return {
+        chat(systemInstruction, history: AiChatMessage[] = []) {
+            const messages: CompletionMessage[] = [
+                { role: 'system', content: systemInstruction },
+                ...history.map(m => ({ role: m.role, content: m.text })),
+            ];
+            return {
+                async send(message, options) {
+                    const reply = await complete([...messages, { role: 'user', content: message }], options);
+                    // Only keep the exchange once it succeeded, so a retry doesn't duplicate the question.
+                    messages.push({ role: 'user', content: message }, { role: 'assistant', content: reply.text });
+                    return reply;
+                },
+            };
+        },
+        generate: (prompt, options) => complete([{ role: 'user', content: prompt }], options),
+        search: (prompt, options) => complete([{ role: 'user', content: prompt }], options),
+        generateJson: (prompt, schema, options) => complete([{ role: 'user', content: prompt }], options, schema),
+    };
+};
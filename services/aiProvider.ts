@@ -0,0 +1,78 @@
+import { readJson, writeJson } from './storage';
+import { createGeminiProvider } from './aiGemini';
+import { createOpenAiCompatibleProvider } from './aiOpenAi';
+import { createMockProvider } from './aiMock';
+import type { AiRequestOptions } from './aiRequest';
+
+// The assistant talks to a provider through this interface only, so the backend can be
+// Gemini, a self-hosted OpenAI-compatible server (keeping keys and data on-prem), or a
+// deterministic mock for working without a network.
+
+export type AiSource = { title: string; uri: string };
+
+export type AiReply = {
+    text: string;
+    sources: AiSource[]; // empty when the provider can't ground its answers
+};
+
+export type AiChatMessage = { role: 'user' | 'assistant'; text: string };
+
+// Requests stream their text through `options.onText`; callers wrap them in
+// requestWithRetry for timeouts, retries and error classification.
+export type AiChat = {
+    send: (message: string, options?: AiRequestOptions) => Promise<AiReply>;
+};
+
+export type AiProvider = {
+    chat: (systemInstruction: string, history?: AiChatMessage[]) => AiChat;
+    generate: (prompt: string, options?: AiRequestOptions) => Promise<AiReply>;
+    // Answers using live web results where the backend supports it, plain generation otherwise.
+    search: (prompt: string, options?: AiRequestOptions) => Promise<AiReply>;
+    // Replies with JSON matching `schema` (plain JSON Schema); callers still validate it.
+    generateJson: (prompt: string, schema: object, options?: AiRequestOptions) => Promise<AiReply>;
+};
+
+export type AiProviderKind = 'gemini' | 'openai' | 'mock';
+
+export type AiSettings = {
+    provider: AiProviderKind;
+    geminiApiKey: string;
+    geminiModel: string;
+    baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+    model: string;
+    apiKey: string;
+};
+
+export const AI_PROVIDER_LABELS: { [key in AiProviderKind]: string } = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible server',
+    mock: 'Offline demo (canned answers)',
+};
+
+export const SAFETY_SYSTEM_INSTRUCTION =
+    'You are a calming and helpful safety assistant. Provide clear, concise, and supportive advice. ' +
+    'If the user seems to be in immediate danger, strongly advise them to contact emergency services immediately.';
+
+const SETTINGS_KEY = 'ai-settings';
+
+const envProvider = process.env.AI_PROVIDER as AiProviderKind | undefined;
+
+export const loadAiSettings = () => readJson<AiSettings>(SETTINGS_KEY, {
+    provider: envProvider && envProvider in AI_PROVIDER_LABELS ? envProvider : 'gemini',
+    // A key compiled into the bundle is readable by anyone who loads the app; prefer
+    // entering it on the device or running an OpenAI-compatible proxy that holds it.
+    geminiApiKey: process.env.API_KEY || '',
+    geminiModel: 'gemini-2.5-flash',
+    baseUrl: process.env.AI_BASE_URL || 'http://localhost:11434/v1',
+    model: process.env.AI_MODEL || 'llama3.1',
+    apiKey: '',
+});
+export const saveAiSettings = (settings: AiSettings) => writeJson(SETTINGS_KEY, settings);
+
+export const createAiProvider = (settings: AiSettings): AiProvider => {
+    switch (settings.provider) {
+        case 'gemini': return createGeminiProvider(settings.geminiApiKey, settings.geminiModel);
+        case 'openai': return createOpenAiCompatibleProvider(settings.baseUrl, settings.model, settings.apiKey);
+        case 'mock': return createMockProvider();
+    }
+};
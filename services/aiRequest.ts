@@ -0,0 +1,110 @@
+// Error classification, timeouts and retries shared by every AI provider. A request
+// streams its text through `onText` (always the full text so far, so a retried
+// attempt simply replaces what was shown) and can be stopped through `signal`.
+
+export type AiRequestOptions = {
+    signal?: AbortSignal;
+    onText?: (text: string) => void;
+};
+
+export type AiErrorKind = 'offline' | 'rateLimited' | 'refused' | 'timeout' | 'cancelled' | 'failed';
+
+export class AiError extends Error {
+    constructor(public kind: AiErrorKind, message: string = kind) {
+        super(message);
+        this.name = 'AiError';
+    }
+}
+
+export const AI_ERROR_MESSAGES: { [key in AiErrorKind]: string } = {
+    offline: "You seem to be offline, so the assistant can't be reached. If you are in danger, call emergency services.",
+    rateLimited: 'The assistant is getting too many requests right now. Please wait a minute and try again.',
+    refused: "The assistant wouldn't answer that. If you are in danger, call emergency services.",
+    timeout: 'The assistant took too long to respond. Please try again.',
+    cancelled: 'Stopped.',
+    failed: 'Sorry, I am having trouble connecting. Please try again.',
+};
+
+// Gives up on an attempt when no text has arrived for this long.
+export const AI_IDLE_TIMEOUT_MS = 20 * 1000;
+export const AI_MAX_ATTEMPTS = 3;
+export const AI_RETRY_BASE_MS = 1000;
+
+const RETRYABLE: AiErrorKind[] = ['timeout', 'rateLimited', 'failed'];
+
+export const toAiError = (err: unknown): AiError => {
+    if (err instanceof AiError) return err;
+    const status = (err as { status?: unknown } | null)?.status;
+    if (status === 429) return new AiError('rateLimited', String(err));
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return new AiError('offline', String(err));
+    // fetch() rejects with a TypeError when the network is unreachable.
+    if (err instanceof TypeError) return new AiError('offline', err.message);
+    return new AiError('failed', err instanceof Error ? err.message : String(err));
+};
+
+export const httpStatusError = (status: number) =>
+    new AiError(status === 429 ? 'rateLimited' : 'failed', `AI server responded ${status}`);
+
+const rejectOnAbort = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+    if (signal.aborted) reject(new AiError('cancelled'));
+    signal.addEventListener('abort', () => reject(new AiError('cancelled')), { once: true });
+});
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        reject(new AiError('cancelled'));
+    }, { once: true });
+});
+
+export type RetryOptions = AiRequestOptions & {
+    onRetry?: (nextAttempt: number, error: AiError) => void;
+    idleTimeoutMs?: number;
+    maxAttempts?: number;
+    retryBaseMs?: number;
+};
+
+// Runs a request with an idle timeout, retrying transient failures with exponential
+// backoff. Always rejects with an AiError.
+export const requestWithRetry = async <T>(run: (options: AiRequestOptions) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { signal, onText, onRetry, idleTimeoutMs = AI_IDLE_TIMEOUT_MS, maxAttempts = AI_MAX_ATTEMPTS, retryBaseMs = AI_RETRY_BASE_MS } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) throw new AiError('cancelled');
+        const controller = new AbortController();
+        let timedOut = false;
+        let idleTimer: ReturnType<typeof setTimeout> | undefined;
+        const touch = () => {
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, idleTimeoutMs);
+        };
+        const stop = () => controller.abort();
+        signal?.addEventListener('abort', stop);
+        touch();
+
+        try {
+            const request = run({
+                signal: controller.signal,
+                onText: text => {
+                    touch();
+                    onText?.(text);
+                },
+            });
+            // Not every backend stops promptly on abort, so don't wait for it to notice.
+            return await Promise.race([request, rejectOnAbort(controller.signal)]);
+        } catch (err) {
+            const error = signal?.aborted ? new AiError('cancelled') : timedOut ? new AiError('timeout') : toAiError(err);
+            if (!RETRYABLE.includes(error.kind) || attempt >= maxAttempts) throw error;
+            onRetry?.(attempt + 1, error);
+            // Rate limits need noticeably longer to clear than a dropped connection.
+            await wait(retryBaseMs * 2 ** (attempt - 1) * (error.kind === 'rateLimited' ? 3 : 1), signal);
+        } finally {
+            clearTimeout(idleTimer);
+            signal?.removeEventListener('abort', stop);
+        }
+    }
+};
@@ -0,0 +1,345 @@
+import { readJson, writeJson, createId } from './storage';
+import { mapsLink } from './contacts';
+import { hmacSha256Hex } from './evidenceChain';
+import {
+    AlertEvent, AlertEventType, AlertLocation, SIGNATURE_HEADER, TIMESTAMP_HEADER, signedContent,
+} from './alertProtocol';
+import { PushMessage, PushSubscriptionData, isPushSubscription, pushSubject, sendWebPush, toBase64Url } from './webPush';
+
+// Tells the user's alert channels when an emergency starts, where it goes and when it
+// ends, without the user having to do anything.
+//
+// SMS and email can't be sent silently from a browser, so those channels compose a
+// ready-to-send `sms:`/`mailto:` link for the user to tap. Webhooks and Web Push are
+// delivered in the background through a persistent outbox: failed deliveries are retried
+// with exponential backoff, and while the device is offline they wait for a connection.
+
+export type AlertChannelKind = 'sms' | 'email' | 'webhook' | 'push';
+
+export type SubscribableEvent = Exclude<AlertEventType, 'test'>;
+
+export type AlertChannel = {
+    id: string;
+    kind: AlertChannelKind;
+    label: string;
+    target: string; // phone number, email address, webhook URL, or the push service's host
+    secret: string; // webhook signing secret
+    subscription: PushSubscriptionData | null;
+    events: SubscribableEvent[];
+};
+
+export type AlertChannelFields = Pick<AlertChannel, 'kind' | 'label' | 'target' | 'secret'>;
+
+export type ComposedAlert = {
+    channelId: string;
+    label: string;
+    kind: 'sms' | 'email';
+    uri: string;
+};
+
+export type OutboxEntry = {
+    id: string;
+    channel: AlertChannel;
+    event: AlertEvent;
+    attempts: number;
+    nextAttemptAt: number;
+    failed: boolean; // gave up; stays listed until retried or discarded
+    lastError: string | null;
+};
+
+export type AlertEventContext = {
+    emergencyId: string | null;
+    discreet: boolean;
+    location: AlertLocation | null;
+    batteryLevel: number | null;
+};
+
+export const ALERT_CHANNEL_KINDS: { [key in AlertChannelKind]: { label: string; icon: string; placeholder: string } } = {
+    sms: { label: 'SMS', icon: 'fas fa-sms', placeholder: 'Phone number' },
+    email: { label: 'Email', icon: 'fas fa-envelope', placeholder: 'Email address' },
+    webhook: { label: 'Webhook', icon: 'fas fa-plug', placeholder: 'https://example.org/alerts' },
+    push: { label: 'Push', icon: 'fas fa-bell', placeholder: "Subscription from the recipient's device" },
+};
+
+export const ALERT_EVENT_LABELS: { [key in SubscribableEvent]: string } = {
+    emergencyStarted: 'Emergency starts',
+    locationUpdated: 'Location updates',
+    emergencyEnded: 'Emergency ends',
+};
+
+// A text every minute is noise, so composed links only cover the start and the end.
+const DEFAULT_EVENTS: { [key in AlertChannelKind]: SubscribableEvent[] } = {
+    sms: ['emergencyStarted', 'emergencyEnded'],
+    email: ['emergencyStarted', 'emergencyEnded'],
+    webhook: ['emergencyStarted', 'locationUpdated', 'emergencyEnded'],
+    push: ['emergencyStarted', 'locationUpdated', 'emergencyEnded'],
+};
+
+const PUSH_TITLES: { [key in AlertEventType]: string } = {
+    emergencyStarted: 'Emergency alert',
+    locationUpdated: 'Emergency location update',
+    emergencyEnded: 'Emergency over',
+    test: 'Test alert',
+};
+
+const CHANNELS_KEY = 'alert-channels';
+const OUTBOX_KEY = 'alert-outbox';
+
+export const LOCATION_INTERVAL_MS = 60 * 1000;
+export const MAX_DELIVERY_ATTEMPTS = 8;
+// An endpoint that never answers is a failed attempt, not a stuck outbox.
+export const DELIVERY_TIMEOUT_MS = 15 * 1000;
+const RETRY_BASE_MS = 2 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export const loadAlertChannels = () => readJson<AlertChannel[]>(CHANNELS_KEY, []);
+export const saveAlertChannels = (channels: AlertChannel[]) => writeJson(CHANNELS_KEY, channels);
+
+export const loadAlertOutbox = () => readJson<OutboxEntry[]>(OUTBOX_KEY, []);
+export const saveAlertOutbox = (outbox: OutboxEntry[]) => writeJson(OUTBOX_KEY, outbox);
+
+export const createWebhookSecret = () => toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const parseSubscription = (text: string) => {
+    try {
+        const value = JSON.parse(text);
+        return isPushSubscription(value) ? value : null;
+    } catch {
+        return null;
+    }
+};
+
+export const channelFieldsError = ({ kind, target, secret }: AlertChannelFields): string | null => {
+    const value = target.trim();
+    switch (kind) {
+        case 'sms': return /\d{3,}/.test(value) ? null : 'Enter the phone number to text.';
+        case 'email': return /^[^\s@]+@[^\s@]+$/.test(value) ? null : 'Enter the email address to write to.';
+        case 'webhook':
+            if (!/^https?:\/\/\S+$/.test(value)) return 'Enter the webhook URL, starting with https://.';
+            return secret.trim() ? null : 'A webhook needs a signing secret.';
+        case 'push': return parseSubscription(value) ? null : "Paste the subscription shown on the recipient's device.";
+    }
+};
+
+// Assumes the fields passed `channelFieldsError`.
+export const createAlertChannel = (fields: AlertChannelFields): AlertChannel => {
+    const subscription = fields.kind === 'push' ? parseSubscription(fields.target.trim()) : null;
+    const target = subscription ? new URL(subscription.endpoint).host : fields.target.trim();
+    return {
+        id: createId(),
+        kind: fields.kind,
+        label: fields.label.trim() || target,
+        target,
+        secret: fields.kind === 'webhook' ? fields.secret.trim() : '',
+        subscription,
+        events: DEFAULT_EVENTS[fields.kind],
+    };
+};
+
+export const toggleChannelEvent = (channel: AlertChannel, event: SubscribableEvent): AlertChannel => ({
+    ...channel,
+    events: channel.events.includes(event) ? channel.events.filter(e => e !== event) : [...channel.events, event],
+});
+
+const describeAlert = (type: AlertEventType, { discreet, location, batteryLevel }: AlertEventContext) => {
+    const where = location ? mapsLink(location) : 'unknown';
+    switch (type) {
+        case 'emergencyStarted':
+            return `Emergency alert: I need help${discreet ? " and may not be able to talk, so please don't call" : ''}. ` +
+                `My location: ${where}. Phone battery: ${batteryLevel === null ? 'unknown' : `${Math.round(batteryLevel * 100)}%`}.`;
+        case 'locationUpdated': return `Emergency alert update. My location: ${where}.`;
+        case 'emergencyEnded': return 'Emergency alert over: emergency mode has been stopped.';
+        case 'test': return 'Test alert from Guardian Angel. No action is needed.';
+    }
+};
+
+export const createAlertEvent = (type: AlertEventType, context: AlertEventContext, now = Date.now()): AlertEvent => ({
+    id: createId(),
+    type,
+    emergencyId: context.emergencyId,
+    timestamp: now,
+    discreet: context.discreet,
+    location: context.location,
+    batteryLevel: context.batteryLevel,
+    message: describeAlert(type, context),
+});
+
+// A test goes to whichever channels it is given.
+export const subscribedChannels = (channels: AlertChannel[], type: AlertEventType) =>
+    type === 'test' ? channels : channels.filter(channel => channel.events.includes(type));
+
+export const composeAlert = (channel: AlertChannel, event: AlertEvent): ComposedAlert | null => {
+    if (channel.kind === 'sms') {
+        const phone = channel.target.replace(/[^\d+]/g, '');
+        return { channelId: channel.id, label: channel.label, kind: 'sms', uri: `sms:${phone}?body=${encodeURIComponent(event.message)}` };
+    }
+    if (channel.kind === 'email') {
+        const subject = encodeURIComponent(PUSH_TITLES[event.type]);
+        return { channelId: channel.id, label: channel.label, kind: 'email', uri: `mailto:${channel.target}?subject=${subject}&body=${encodeURIComponent(event.message)}` };
+    }
+    return null;
+};
+
+// Only the latest location is worth delivering, so a new one replaces any still waiting
+// for the same channel.
+export const queueAlert = (outbox: OutboxEntry[], channels: AlertChannel[], event: AlertEvent, now = Date.now()): OutboxEntry[] => {
+    const queued = channels.filter(channel => channel.kind === 'webhook' || channel.kind === 'push');
+    const kept = event.type === 'locationUpdated'
+        ? outbox.filter(entry => entry.event.type !== 'locationUpdated' || !queued.some(channel => channel.id === entry.channel.id))
+        : outbox;
+    return [...kept, ...queued.map(channel => ({
+        id: createId(), channel, event, attempts: 0, nextAttemptAt: now, failed: false, lastError: null,
+    }))];
+};
+
+export class AlertDeliveryError extends Error {
+    constructor(message: string, public permanent: boolean) {
+        super(message);
+        this.name = 'AlertDeliveryError';
+    }
+}
+
+// Client errors won't go away by retrying, except timeouts and rate limits.
+const isPermanentStatus = (status: number) => status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+export const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+// fetch() rejects with a TypeError when the device is offline, but also for a CORS
+// rejection or a bad URL, which never heal. So only failures while offline are free:
+// they don't use up an attempt, and the entry waits for the dispatcher's 'online' flush.
+export const recordFailure = (entry: OutboxEntry, err: unknown, now = Date.now(), online = navigator.onLine): OutboxEntry => {
+    const offline = !online && err instanceof TypeError;
+    const attempts = offline ? entry.attempts : entry.attempts + 1;
+    const permanent = err instanceof AlertDeliveryError && err.permanent;
+    const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+    return {
+        ...entry,
+        attempts,
+        nextAttemptAt: offline ? now : now + retryDelay(attempts),
+        failed: permanent || exhausted,
+        lastError: err instanceof Error ? err.message : String(err),
+    };
+};
+
+const toPushMessage = (event: AlertEvent): PushMessage => ({
+    title: PUSH_TITLES[event.type],
+    body: event.message,
+    url: event.location ? mapsLink(event.location) : null,
+    tag: event.emergencyId || event.id,
+});
+
+// Each attempt is signed afresh, so retries carry a current timestamp.
+export const deliverAlert = async (channel: AlertChannel, event: AlertEvent) => {
+    if (channel.kind === 'webhook') {
+        const body = JSON.stringify(event);
+        const timestamp = Date.now();
+        const signature = await hmacSha256Hex(channel.secret, signedContent(timestamp, body));
+        const res = await fetch(channel.target, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', [TIMESTAMP_HEADER]: String(timestamp), [SIGNATURE_HEADER]: `sha256=${signature}` },
+            body,
+            signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+        if (!res.ok) throw new AlertDeliveryError(`Webhook responded ${res.status}`, isPermanentStatus(res.status));
+    } else if (channel.kind === 'push') {
+        if (!channel.subscription) throw new AlertDeliveryError('Missing push subscription', true);
+        const res = await sendWebPush(channel.subscription, toPushMessage(event), AbortSignal.timeout(DELIVERY_TIMEOUT_MS), pushSubject());
+        // 404 and 410 mean the recipient unsubscribed or the subscription expired.
+        if (!res.ok) throw new AlertDeliveryError(`Push service responded ${res.status}`, isPermanentStatus(res.status));
+    } else {
+        throw new AlertDeliveryError(`${ALERT_CHANNEL_KINDS[channel.kind].label} alerts are sent by the user`, true);
+    }
+};
+
+export type AlertDispatcher = {
+    notify(event: AlertEvent, channels: AlertChannel[]): void;
+    retry(entryId: string): void;
+    discard(entryId: string): void;
+    close(): void;
+};
+
+type AlertDispatcherOptions = {
+    onChange: (outbox: OutboxEntry[]) => void;
+    onCompose: (alerts: ComposedAlert[]) => void;
+    deliver?: (channel: AlertChannel, event: AlertEvent) => Promise<void>;
+};
+
+// Owns the outbox: anything left over from a previous run is delivered on start, and
+// due entries are sent whenever the device is online. Each entry is sent on its own, so
+// a slow endpoint never holds up the others or a newer alert.
+export const createAlertDispatcher = ({ onChange, onCompose, deliver = deliverAlert }: AlertDispatcherOptions): AlertDispatcher => {
+    let outbox = loadAlertOutbox();
+    let flushTimeout: ReturnType<typeof setTimeout> | null = null;
+    const inFlight = new Set<string>();
+    let closed = false;
+    let lastLocationAt = 0;
+
+    const update = (next: OutboxEntry[]) => {
+        outbox = next;
+        saveAlertOutbox(next);
+        onChange(next);
+    };
+
+    const schedule = () => {
+        if (flushTimeout) clearTimeout(flushTimeout);
+        flushTimeout = null;
+        const waiting = outbox.filter(entry => !entry.failed && !inFlight.has(entry.id));
+        if (closed || waiting.length === 0) return;
+        const next = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+        flushTimeout = setTimeout(flush, Math.max(0, next - Date.now()));
+    };
+
+    const send = async (entry: OutboxEntry) => {
+        inFlight.add(entry.id);
+        try {
+            await deliver(entry.channel, entry.event);
+            update(outbox.filter(e => e.id !== entry.id));
+        } catch (err) {
+            console.error('Alert delivery failed:', err);
+            update(outbox.map(e => e.id === entry.id ? recordFailure(e, err) : e));
+        } finally {
+            inFlight.delete(entry.id);
+            schedule();
+        }
+    };
+
+    const flush = () => {
+        // The 'online' listener picks things up again once a connection is back.
+        if (closed || !navigator.onLine) return;
+        const now = Date.now();
+        outbox.filter(entry => !entry.failed && entry.nextAttemptAt <= now && !inFlight.has(entry.id)).forEach(send);
+        schedule();
+    };
+
+    window.addEventListener('online', flush);
+    flush();
+
+    return {
+        notify(event, channels) {
+            if (event.type === 'locationUpdated') {
+                if (event.timestamp - lastLocationAt < LOCATION_INTERVAL_MS) return;
+                lastLocationAt = event.timestamp;
+            } else if (event.type === 'emergencyStarted') {
+                lastLocationAt = event.timestamp; // the start alert already carries the location
+            }
+            const targets = subscribedChannels(channels, event.type);
+            const composed = targets.map(channel => composeAlert(channel, event)).filter((alert): alert is ComposedAlert => !!alert);
+            if (composed.length > 0) onCompose(composed);
+            update(queueAlert(outbox, targets, event));
+            flush();
+        },
+        retry(entryId) {
+            update(outbox.map(entry => entry.id === entryId ? { ...entry, attempts: 0, nextAttemptAt: Date.now(), failed: false } : entry));
+            flush();
+        },
+        discard(entryId) {
+            update(outbox.filter(entry => entry.id !== entryId));
+            schedule();
+        },
+        close() {
+            closed = true;
+            if (flushTimeout) clearTimeout(flushTimeout);
+            window.removeEventListener('online', flush);
+        },
+    };
+};
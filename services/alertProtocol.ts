@@ -0,0 +1,41 @@
+// Webhook payload shared by the app and the local stub in server/webhookStub.ts.
+//
+//   POST <webhook url>   body: AlertEvent as JSON
+//     X-Alert-Timestamp  milliseconds since the epoch, set per attempt
+//     X-Alert-Signature  "sha256=" + hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the channel secret
+//
+// Receivers should reject stale timestamps and treat a repeated event id as already
+// handled: a delivery that timed out may have arrived and will be sent again.
+
+export type AlertEventType = 'emergencyStarted' | 'locationUpdated' | 'emergencyEnded' | 'test';
+
+export type AlertLocation = {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+};
+
+export type AlertEvent = {
+    id: string;
+    type: AlertEventType;
+    emergencyId: string | null; // shared by every event of one emergency
+    timestamp: number;
+    discreet: boolean; // the user may not be able to talk, so recipients shouldn't call
+    location: AlertLocation | null;
+    batteryLevel: number | null; // 0..1
+    message: string; // ready to show to a person
+};
+
+export const TIMESTAMP_HEADER = 'X-Alert-Timestamp';
+export const SIGNATURE_HEADER = 'X-Alert-Signature';
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export const signedContent = (timestamp: number, body: string) => `${timestamp}.${body}`;
+
+const EVENT_TYPES: AlertEventType[] = ['emergencyStarted', 'locationUpdated', 'emergencyEnded', 'test'];
+
+export const isAlertEvent = (value: unknown): value is AlertEvent => {
+    const e = value as AlertEvent;
+    return !!e && typeof e.id === 'string' && EVENT_TYPES.includes(e.type) &&
+        typeof e.timestamp === 'number' && typeof e.message === 'string';
+};
@@ -0,0 +1,73 @@
+// The app's safety modes as one value, changed only through `modeReducer`. The modes
+// are separate tracks rather than one screen, so a location share keeps running while
+// a fake call rings or is answered, and an emergency can start from any of them.
+//
+// Rules:
+// - An emergency pre-empts everything else: it ends a fake call and closes any dialog.
+//   A location share keeps running alongside it.
+// - Fake calls can't ring during a visible emergency, and only one call exists at a time.
+// - Dialogs only open when no call is on screen, and opening one replaces another.
+// - A disguised emergency (stopped with the duress PIN) keeps running but looks like no
+//   emergency at all, so fake calls ring as usual. A new SOS makes it visible again.
+
+export type CallState = 'idle' | 'ringing' | 'active';
+
+export type ModeDialog = 'callerSelector' | 'sharingOptions' | 'checkInOptions';
+
+export type AppMode = {
+    emergency: boolean;
+    disguised: boolean;
+    call: CallState;
+    sharing: boolean;
+    dialog: ModeDialog | null;
+};
+
+export type ModeEvent =
+    | { type: 'emergencyStarted' }
+    | { type: 'emergencyStopped' }
+    | { type: 'emergencyDisguised' }
+    | { type: 'callRang' }
+    | { type: 'callAnswered' }
+    | { type: 'callEnded' } // declined or hung up
+    | { type: 'sharingStarted' }
+    | { type: 'sharingStopped' }
+    | { type: 'dialogOpened'; dialog: ModeDialog }
+    | { type: 'dialogClosed' };
+
+// What fills the main area; calls are drawn over it as an overlay.
+export type MainScreen = ModeDialog | 'sharing' | 'views';
+
+export const INITIAL_MODE: AppMode = { emergency: false, disguised: false, call: 'idle', sharing: false, dialog: null };
+
+export const isEmergencyVisible = (mode: AppMode) => mode.emergency && !mode.disguised;
+
+export const modeReducer = (mode: AppMode, event: ModeEvent): AppMode => {
+    switch (event.type) {
+        case 'emergencyStarted':
+            return { ...mode, emergency: true, disguised: false, call: 'idle', dialog: null };
+        case 'emergencyStopped':
+            return { ...mode, emergency: false, disguised: false };
+        case 'emergencyDisguised':
+            return mode.emergency ? { ...mode, disguised: true } : mode;
+        case 'callRang':
+            return isEmergencyVisible(mode) || mode.call !== 'idle' ? mode : { ...mode, call: 'ringing', dialog: null };
+        case 'callAnswered':
+            return mode.call === 'ringing' ? { ...mode, call: 'active' } : mode;
+        case 'callEnded':
+            return { ...mode, call: 'idle' };
+        case 'sharingStarted':
+            return { ...mode, sharing: true, dialog: mode.dialog === 'sharingOptions' ? null : mode.dialog };
+        case 'sharingStopped':
+            return { ...mode, sharing: false };
+        case 'dialogOpened':
+            return mode.call === 'idle' ? { ...mode, dialog: event.dialog } : mode;
+        case 'dialogClosed':
+            return { ...mode, dialog: null };
+    }
+};
+
+// During an emergency its own screen (with the map) stays in front of the sharing screen.
+export const mainScreen = (mode: AppMode): MainScreen =>
+    mode.dialog || (mode.sharing && !isEmergencyVisible(mode) ? 'sharing' : 'views');
+
+export const showsNav = (mode: AppMode) => mode.call === 'idle' && mainScreen(mode) === 'views';
@@ -0,0 +1,182 @@
+import { AudioFrame } from './distressAudio';
+
+// Interactive fake-call scripts. A script is plain text, one instruction per line:
+//
+//   # label                 starts a section that can be jumped to
+//   Any other text          the caller says it, then waits for the user to reply
+//   ? Option text -> label  a reply the user can pick; consecutive options form one choice
+//   -> label                jumps to a section
+//   [pause 3]               silence for a number of seconds
+//   [hangup]                the caller hangs up
+//
+// A section ends the conversation unless it jumps elsewhere, so a plain list of
+// lines (no markup at all) is still a valid script that is read top to bottom.
+
+export type ScriptOption = { text: string; target: string };
+
+export type ScriptStep =
+    | { kind: 'say'; text: string }
+    | { kind: 'options'; options: ScriptOption[] }
+    | { kind: 'goto'; target: string }
+    | { kind: 'pause'; ms: number }
+    | { kind: 'hangup' }
+    | { kind: 'end' };
+
+export type CallScript = {
+    steps: ScriptStep[];
+    labels: { [label: string]: number };
+};
+
+// The side effects a running script needs; the call screen supplies real speech and
+// microphone implementations, a test can supply instant ones.
+export type CallScriptIO = {
+    say: (text: string) => Promise<void>;
+    waitForReply: () => Promise<void>;
+    pause: (ms: number) => Promise<void>;
+    showOptions: (options: ScriptOption[] | null) => void;
+    hangUp: () => void;
+};
+
+// The user counts as finished once they have been quiet this long after speaking.
+export const REPLY_SILENCE_MS = 700;
+// If the user says nothing at all, the caller carries on after this long.
+export const REPLY_START_TIMEOUT_MS = 6000;
+// Long replies are cut off so the call never stalls.
+export const REPLY_MAX_MS = 20000;
+
+const isTerminal = (step: ScriptStep | undefined) => !step || step.kind === 'goto' || step.kind === 'hangup' || step.kind === 'end';
+
+export const parseCallScript = (text: string): CallScript => {
+    const steps: ScriptStep[] = [];
+    const labels: { [label: string]: number } = {};
+
+    text.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+        const option = /^\?\s*(.+?)\s*->\s*(\S+)$/.exec(line);
+        const pause = /^\[pause\s+(\d+(?:\.\d+)?)\]$/i.exec(line);
+        if (line.startsWith('#')) {
+            if (steps.length > 0 && !isTerminal(steps[steps.length - 1])) steps.push({ kind: 'end' });
+            labels[line.slice(1).trim()] = steps.length;
+        } else if (option) {
+            const last = steps[steps.length - 1];
+            const entry = { text: option[1], target: option[2] };
+            if (last?.kind === 'options') last.options.push(entry);
+            else steps.push({ kind: 'options', options: [entry] });
+        } else if (line.startsWith('->')) {
+            steps.push({ kind: 'goto', target: line.slice(2).trim() });
+        } else if (pause) {
+            steps.push({ kind: 'pause', ms: Number(pause[1]) * 1000 });
+        } else if (/^\[hangup\]$/i.test(line)) {
+            steps.push({ kind: 'hangup' });
+        } else {
+            steps.push({ kind: 'say', text: line });
+        }
+    });
+    steps.push({ kind: 'end' });
+    return { steps, labels };
+};
+
+// Returns human-readable problems; an empty list means the script can run.
+export const validateCallScript = (script: CallScript) => {
+    const issues: string[] = [];
+    if (!script.steps.some(s => s.kind === 'say')) issues.push('The script has nothing for the caller to say.');
+    script.steps.forEach(step => {
+        const targets = step.kind === 'goto' ? [step.target] : step.kind === 'options' ? step.options.map(o => o.target) : [];
+        targets.filter(t => !(t in script.labels)).forEach(t => issues.push(`There is no section called "${t}".`));
+    });
+    return issues;
+};
+
+export const firstLine = (script: CallScript) => {
+    const step = script.steps.find(s => s.kind === 'say');
+    return step?.kind === 'say' ? step.text : '';
+};
+
+export const runCallScript = (script: CallScript, io: CallScriptIO) => {
+    let stopped = false;
+    let pick: ((target: string) => void) | null = null;
+
+    const run = async () => {
+        let index = 0;
+        // Guards against sections that jump to each other without ever speaking.
+        let silentSteps = 0;
+        while (!stopped && index < script.steps.length && silentSteps <= script.steps.length) {
+            const step = script.steps[index];
+            silentSteps++;
+            switch (step.kind) {
+                case 'say':
+                    silentSteps = 0;
+                    await io.say(step.text);
+                    if (stopped) return;
+                    // A following choice does its own listening.
+                    if (script.steps[index + 1]?.kind !== 'options' && !isTerminal(script.steps[index + 1])) await io.waitForReply();
+                    index++;
+                    break;
+                case 'options': {
+                    io.showOptions(step.options);
+                    const reply = io.waitForReply();
+                    const chosen = await Promise.race([
+                        new Promise<string>(resolve => { pick = resolve; }),
+                        reply.then(() => null),
+                    ]);
+                    pick = null;
+                    io.showOptions(null);
+                    // Picking an option is a cue; the user still says it out loud before the caller answers.
+                    if (chosen !== null) await reply;
+                    index = script.labels[chosen ?? step.options[0].target] ?? script.steps.length;
+                    break;
+                }
+                case 'goto':
+                    index = script.labels[step.target] ?? script.steps.length;
+                    break;
+                case 'pause':
+                    await io.pause(step.ms);
+                    index++;
+                    break;
+                case 'hangup':
+                    io.hangUp();
+                    return;
+                case 'end':
+                    return;
+            }
+        }
+    };
+
+    const done = run();
+    return {
+        done,
+        choose(target: string) {
+            pick?.(target);
+        },
+        stop() {
+            stopped = true;
+        },
+    };
+};
+
+// Follows microphone frames until the user has said something and gone quiet again,
+// or has stayed silent too long. Returns true from push() once the reply is over.
+export const createReplyTracker = () => {
+    let startT: number | null = null;
+    let noiseDb = 0;
+    let speechStart: number | null = null;
+    let lastVoiceAt = 0;
+
+    return {
+        push(frame: AudioFrame) {
+            if (startT === null) {
+                startT = frame.t;
+                noiseDb = frame.rmsDb;
+            }
+            const voiced = frame.rmsDb > -50 && frame.rmsDb > noiseDb + 10;
+            if (voiced) {
+                speechStart ??= frame.t;
+                lastVoiceAt = frame.t;
+            } else {
+                noiseDb = Math.min(noiseDb, frame.rmsDb) * 0.1 + noiseDb * 0.9;
+            }
+            if (frame.t - startT >= REPLY_MAX_MS) return true;
+            if (speechStart === null) return frame.t - startT >= REPLY_START_TIMEOUT_MS;
+            return frame.t - lastVoiceAt >= REPLY_SILENCE_MS;
+        },
+    };
+};
@@ -0,0 +1,52 @@
+import { readJson, writeJson } from './storage';
+import { PinHash, hashPin, matchesPin } from './emergencyPins';
+
+// A check-in session is a dead-man's switch: once the deadline passes without the
+// user confirming, it moves through a vibrating warning stage and a visible
+// countdown before escalating to emergency mode. Like the emergency PINs, the optional
+// PIN is persisted only as a salted hash.
+export type CheckInSession = {
+    deadline: number;
+    warningMs: number;
+    countdownMs: number;
+    pin: PinHash | null;
+};
+
+export type CheckInStage = 'waiting' | 'warning' | 'countdown' | 'expired';
+
+const SESSION_KEY = 'check-in';
+
+export const WARNING_MS = 30 * 1000;
+export const COUNTDOWN_MS = 30 * 1000;
+
+export const createCheckInSession = async (minutes: number, pin: string | null, now = Date.now()): Promise<CheckInSession> => ({
+    deadline: now + minutes * 60 * 1000,
+    warningMs: WARNING_MS,
+    countdownMs: COUNTDOWN_MS,
+    pin: pin && pin.trim() ? await hashPin(pin.trim()) : null,
+});
+
+export const getCheckInStage = (session: CheckInSession, now: number): CheckInStage => {
+    const overdue = now - session.deadline;
+    if (overdue < 0) return 'waiting';
+    if (overdue < session.warningMs) return 'warning';
+    if (overdue < session.warningMs + session.countdownMs) return 'countdown';
+    return 'expired';
+};
+
+// Milliseconds until the next stage change (or until escalation during the countdown).
+export const getCheckInRemaining = (session: CheckInSession, now: number) => {
+    switch (getCheckInStage(session, now)) {
+        case 'waiting': return session.deadline - now;
+        case 'warning': return session.deadline + session.warningMs - now;
+        case 'countdown': return session.deadline + session.warningMs + session.countdownMs - now;
+        default: return 0;
+    }
+};
+
+export const verifyCheckInPin = async (session: CheckInSession, pin: string) =>
+    session.pin === null || matchesPin(session.pin, pin.trim());
+
+// Sessions survive reloads so a closed tab doesn't silently disarm the switch.
+export const loadCheckInSession = () => readJson<CheckInSession | null>(SESSION_KEY, null);
+export const saveCheckInSession = (session: CheckInSession | null) => writeJson(SESSION_KEY, session);
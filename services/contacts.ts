@@ -0,0 +1,92 @@
+import { readJson, writeJson, createId } from './storage';
+
+export type EmergencyContact = {
+    id: string;
+    name: string;
+    phone: string;
+    email: string;
+    relationship: string;
+};
+
+export type AlertContext = {
+    emergencyType: string;
+    location: { latitude: number; longitude: number } | null;
+    time: Date;
+    batteryLevel: number | null; // 0..1, null when the Battery API is unavailable
+};
+
+export type ContactAlert = {
+    contact: EmergencyContact;
+    message: string;
+    smsUri: string | null;
+    mailtoUri: string | null;
+};
+
+const CONTACTS_KEY = 'contacts';
+const TEMPLATE_KEY = 'alert-template';
+
+export const DEFAULT_ALERT_TEMPLATE =
+    'Hi {name}, this is an automated alert: I need help ({type}). ' +
+    'My location: {location}. Sent at {time}. Phone battery: {battery}.';
+
+// Contacts are stored in priority order: index 0 is alerted first.
+export const loadContacts = () => readJson<EmergencyContact[]>(CONTACTS_KEY, []);
+export const saveContacts = (contacts: EmergencyContact[]) => writeJson(CONTACTS_KEY, contacts);
+
+export const loadAlertTemplate = () => readJson<string>(TEMPLATE_KEY, DEFAULT_ALERT_TEMPLATE);
+export const saveAlertTemplate = (template: string) => writeJson(TEMPLATE_KEY, template);
+
+export const createContact = (fields: Omit<EmergencyContact, 'id'>): EmergencyContact => ({
+    id: createId(),
+    ...fields,
+});
+
+export const moveContact = (contacts: EmergencyContact[], id: string, offset: -1 | 1) => {
+    const index = contacts.findIndex(c => c.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= contacts.length) return contacts;
+    const next = [...contacts];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+};
+
+export const mapsLink = (location: { latitude: number; longitude: number }) =>
+    `https://www.google.com/maps?q=${location.latitude},${location.longitude}`;
+
+export const buildAlertMessage = (template: string, contact: EmergencyContact, context: AlertContext) => {
+    const values: { [key: string]: string } = {
+        name: contact.name,
+        relationship: contact.relationship,
+        type: context.emergencyType,
+        location: context.location ? mapsLink(context.location) : 'unknown',
+        time: context.time.toLocaleString(),
+        battery: context.batteryLevel === null ? 'unknown' : `${Math.round(context.batteryLevel * 100)}%`,
+    };
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+};
+
+export const buildContactAlerts = (contacts: EmergencyContact[], template: string, context: AlertContext): ContactAlert[] =>
+    contacts.map(contact => {
+        const message = buildAlertMessage(template, contact, context);
+        const phone = contact.phone.replace(/[^\d+]/g, '');
+        return {
+            contact,
+            message,
+            smsUri: phone ? `sms:${phone}?body=${encodeURIComponent(message)}` : null,
+            mailtoUri: contact.email
+                ? `mailto:${contact.email}?subject=${encodeURIComponent(`Emergency alert: ${context.emergencyType}`)}&body=${encodeURIComponent(message)}`
+                : null,
+        };
+    });
+
+type BatteryManager = { level: number };
+
+export const getBatteryLevel = async (): Promise<number | null> => {
+    const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+    if (!nav.getBattery) return null;
+    try {
+        return (await nav.getBattery()).level;
+    } catch {
+        return null;
+    }
+};
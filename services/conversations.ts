@@ -0,0 +1,103 @@
+import { readJson, writeJson, createId } from './storage';
+import { isNight } from './safeZones';
+import type { AiChatMessage, AiSource } from './aiProvider';
+
+// Saved safety-chat conversations, and the optional live context that is attached to
+// each question so the assistant's advice fits the user's actual situation.
+
+export type ChatMessage = {
+    role: 'user' | 'bot';
+    text: string;
+    failed?: boolean; // a local error notice rather than an assistant reply
+    sources?: AiSource[];
+};
+
+export type Conversation = {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messages: ChatMessage[];
+};
+
+// Nothing is shared unless `enabled` is on; the other switches narrow what is included.
+export type ChatContextSettings = {
+    enabled: boolean;
+    location: boolean;
+    status: boolean;
+    time: boolean;
+    medical: boolean;
+    medicalNotes: string;
+};
+
+export type ChatSituation = {
+    location: { latitude: number; longitude: number } | null;
+    isEmergency: boolean;
+    isSharingLocation: boolean;
+    now: Date;
+};
+
+const CONVERSATIONS_KEY = 'conversations';
+const CONTEXT_KEY = 'chat-context';
+const TITLE_LENGTH = 40;
+export const MAX_CONVERSATIONS = 50;
+
+export const loadConversations = () => readJson<Conversation[]>(CONVERSATIONS_KEY, []);
+export const saveConversations = (conversations: Conversation[]) => writeJson(CONVERSATIONS_KEY, conversations);
+
+export const loadChatContextSettings = () => readJson<ChatContextSettings>(CONTEXT_KEY, {
+    enabled: false,
+    location: true,
+    status: true,
+    time: true,
+    medical: true,
+    medicalNotes: '',
+});
+export const saveChatContextSettings = (settings: ChatContextSettings) => writeJson(CONTEXT_KEY, settings);
+
+export const createConversation = (now = Date.now()): Conversation =>
+    ({ id: createId(), title: 'New conversation', createdAt: now, updatedAt: now, messages: [] });
+
+// Appends a message, naming the conversation after its first question and moving it
+// to the top of the history list. The oldest conversations beyond the cap are dropped.
+export const addMessage = (conversations: Conversation[], id: string, message: ChatMessage, now = Date.now()) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation) return conversations;
+    const isFirstQuestion = message.role === 'user' && !conversation.messages.some(m => m.role === 'user');
+    const title = message.text.length > TITLE_LENGTH ? `${message.text.slice(0, TITLE_LENGTH).trim()}…` : message.text;
+    const updated: Conversation = {
+        ...conversation,
+        title: isFirstQuestion ? title : conversation.title,
+        updatedAt: now,
+        messages: [...conversation.messages, message],
+    };
+    return [updated, ...conversations.filter(c => c.id !== id)].slice(0, MAX_CONVERSATIONS);
+};
+
+// History handed to a provider when a conversation is resumed; local error notices are left out.
+export const toAiHistory = (messages: ChatMessage[]): AiChatMessage[] =>
+    messages.filter(m => !m.failed).map(m => ({ role: m.role === 'user' ? 'user' : 'assistant', text: m.text }));
+
+export const describeSituation = (situation: ChatSituation, settings: ChatContextSettings) => {
+    if (!settings.enabled) return null;
+    const facts: string[] = [];
+    if (settings.location && situation.location) {
+        facts.push(`Current location: ${situation.location.latitude.toFixed(5)}, ${situation.location.longitude.toFixed(5)}`);
+    }
+    if (settings.status) {
+        facts.push(`Emergency mode: ${situation.isEmergency ? 'ACTIVE' : 'off'}`);
+        facts.push(`Sharing live location: ${situation.isSharingLocation ? 'yes' : 'no'}`);
+    }
+    if (settings.time) {
+        const time = situation.now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        facts.push(`Local time: ${time}${isNight(situation.now) ? ' (night)' : ''}`);
+    }
+    if (settings.medical && settings.medicalNotes.trim()) {
+        facts.push(`Medical notes: ${settings.medicalNotes.trim()}`);
+    }
+    return facts.length ? facts.join('\n') : null;
+};
+
+// The context travels with the question but is never shown or saved as part of the conversation.
+export const withSituation = (message: string, situation: string | null) =>
+    situation ? `[Context shared by the app with the user's consent]\n${situation}\n\n[User's message]\n${message}` : message;
@@ -0,0 +1,108 @@
+import { readJson, writeJson, createId } from './storage';
+import type { PinHash } from './emergencyPins';
+
+// Disguise mode: the app opens as a working calculator or notes app. The real UI is
+// unlocked with a secret input: a code typed on the calculator followed by "=", or a
+// passphrase searched for in the notes. Like the emergency PINs, the secret is only
+// stored as a salted hash.
+
+export type DecoyKind = 'calculator' | 'notes';
+
+export type DisguiseSettings = {
+    enabled: boolean;
+    decoy: DecoyKind;
+    unlock: PinHash | null;
+};
+
+export type DecoyNote = { id: string; text: string; updatedAt: number };
+
+export const DECOY_TITLES: { [key in DecoyKind]: string } = {
+    calculator: 'Calculator',
+    notes: 'Notes',
+};
+
+export const MIN_PASSPHRASE_LENGTH = 4;
+
+const SETTINGS_KEY = 'disguise';
+const NOTES_KEY = 'decoy-notes';
+
+export const loadDisguiseSettings = () => readJson<DisguiseSettings>(SETTINGS_KEY, { enabled: false, decoy: 'calculator', unlock: null });
+export const saveDisguiseSettings = (settings: DisguiseSettings) => writeJson(SETTINGS_KEY, settings);
+
+// A few ordinary notes so a fresh decoy doesn't look empty.
+export const loadDecoyNotes = () => readJson<DecoyNote[]>(NOTES_KEY, [
+    { id: 'groceries', text: 'Groceries\nmilk, eggs, bread, apples, coffee', updatedAt: 0 },
+    { id: 'ideas', text: 'Birthday ideas\nbook, plant, concert tickets', updatedAt: 0 },
+]);
+export const saveDecoyNotes = (notes: DecoyNote[]) => writeJson(NOTES_KEY, notes);
+
+export const createDecoyNote = (text: string, now = Date.now()): DecoyNote => ({ id: createId(), text, updatedAt: now });
+
+// Calculator codes are digits; passphrases ignore case and surrounding spaces.
+export const normalizeUnlock = (decoy: DecoyKind, secret: string) =>
+    decoy === 'calculator' ? secret.trim() : secret.trim().toLowerCase();
+
+export const isValidUnlock = (decoy: DecoyKind, secret: string) => {
+    const value = normalizeUnlock(decoy, secret);
+    return decoy === 'calculator' ? /^\d{4,}$/.test(value) : value.length >= MIN_PASSPHRASE_LENGTH;
+};
+
+// --- Calculator ---
+
+export type CalculatorOperator = '+' | '−' | '×' | '÷';
+
+export type CalculatorState = {
+    display: string;
+    stored: number | null;
+    operator: CalculatorOperator | null;
+    fresh: boolean; // the next digit starts a new number
+    typed: string; // digits keyed since the last operator, checked against the unlock code
+};
+
+export const CALCULATOR_KEYS = [
+    ['C', '±', '%', '÷'],
+    ['7', '8', '9', '×'],
+    ['4', '5', '6', '−'],
+    ['1', '2', '3', '+'],
+    ['0', '.', '='],
+];
+
+export const INITIAL_CALCULATOR: CalculatorState = { display: '0', stored: null, operator: null, fresh: true, typed: '' };
+
+const OPERATORS: CalculatorOperator[] = ['+', '−', '×', '÷'];
+
+const apply = (a: number, b: number, operator: CalculatorOperator) => {
+    switch (operator) {
+        case '+': return a + b;
+        case '−': return a - b;
+        case '×': return a * b;
+        case '÷': return a / b;
+    }
+};
+
+const format = (value: number) =>
+    Number.isFinite(value) ? String(parseFloat(value.toPrecision(12))) : 'Error';
+
+export const pressCalculatorKey = (state: CalculatorState, key: string): CalculatorState => {
+    if (key === 'C' || (state.display === 'Error' && !/^\d$/.test(key))) return INITIAL_CALCULATOR;
+    if (/^\d$/.test(key)) {
+        const display = state.fresh || state.display === '0' || state.display === 'Error' ? key : state.display + key;
+        return { ...state, display, fresh: false, typed: (state.fresh ? '' : state.typed) + key };
+    }
+    if (key === '.') {
+        if (state.fresh) return { ...state, display: '0.', fresh: false, typed: '.' };
+        return state.display.includes('.') ? state : { ...state, display: state.display + '.', typed: state.typed + '.' };
+    }
+    const value = parseFloat(state.display);
+    if (key === '±') return { ...state, display: format(-value) };
+    if (key === '%') return { ...state, display: format(value / 100), fresh: true };
+
+    const result = state.operator && state.stored !== null && !state.fresh ? apply(state.stored, value, state.operator) : value;
+    if (key === '=') {
+        return { display: format(state.operator && state.stored !== null ? apply(state.stored, value, state.operator) : value), stored: null, operator: null, fresh: true, typed: '' };
+    }
+    if (OPERATORS.includes(key as CalculatorOperator)) {
+        return { display: format(result), stored: result, operator: key as CalculatorOperator, fresh: true, typed: '' };
+    }
+    return state;
+};
@@ -0,0 +1,303 @@
+import { readJson, writeJson } from './storage';
+
+// On-device distress sound detection. Audio never leaves the phone: frames from the
+// microphone are reduced to a handful of energy and spectral features, and those are
+// matched against simple models of a scream, breaking glass and the user's own
+// recorded safe word.
+//
+// Feature extraction and detection are pure functions over sample buffers, so the
+// same code runs on live microphone input and on audio fixtures.
+
+export type DistressSound = 'scream' | 'glass' | 'safeWord';
+
+export type AudioFrame = {
+    t: number; // ms
+    rmsDb: number; // dBFS
+    centroid: number; // Hz
+    flatness: number; // 0 (tonal) .. 1 (noise)
+    highRatio: number; // share of energy above HIGH_BAND_HZ
+    bands: number[]; // log band energies, mean-removed; used for safe word matching
+};
+
+export type SafeWordTemplate = {
+    samples: number[][][]; // band sequences of each enrolment recording
+    threshold: number;
+};
+
+export type ListenSettings = {
+    enabled: boolean;
+    scream: boolean;
+    glass: boolean;
+    safeWord: SafeWordTemplate | null;
+    countdownSeconds: number;
+};
+
+export type Detection = { sound: DistressSound; t: number };
+
+export const FRAME_SIZE = 1024;
+const HIGH_BAND_HZ = 4000;
+const BAND_COUNT = 16;
+const BAND_MIN_HZ = 200;
+const BAND_MAX_HZ = 8000;
+
+const SCREAM_MIN_DB = -25;
+const SCREAM_MIN_MS = 700;
+const SCREAM_MAX_GAP_MS = 150;
+const GLASS_ONSET_DB = 18;
+const GLASS_CONFIRM_MS = 300;
+const GLASS_CONFIRM_FRAMES = 3;
+const SPEECH_ABOVE_NOISE_DB = 10;
+const SPEECH_MIN_DB = -45;
+const SPEECH_END_SILENCE_MS = 250;
+const WORD_MIN_MS = 250;
+const WORD_MAX_MS = 2500;
+// Enrolment recordings of the same word vary; live matches may vary a bit more.
+const SAFE_WORD_THRESHOLD_MARGIN = 1.3;
+const DETECTION_COOLDOWN_MS = 5000;
+
+export const SAFE_WORD_ENROLMENTS = 3;
+
+const SETTINGS_KEY = 'distress-listening';
+
+export const loadListenSettings = () => readJson<ListenSettings>(SETTINGS_KEY, {
+    enabled: false,
+    scream: true,
+    glass: true,
+    safeWord: null,
+    countdownSeconds: 15,
+});
+export const saveListenSettings = (settings: ListenSettings) => writeJson(SETTINGS_KEY, settings);
+
+// In-place iterative radix-2 FFT; `re.length` must be a power of two.
+const fft = (re: Float32Array, im: Float32Array) => {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let len = 2; len <= n; len <<= 1) {
+        const angle = -2 * Math.PI / len;
+        for (let i = 0; i < n; i += len) {
+            for (let k = 0; k < len / 2; k++) {
+                const wr = Math.cos(angle * k);
+                const wi = Math.sin(angle * k);
+                const a = i + k;
+                const b = a + len / 2;
+                const tr = re[b] * wr - im[b] * wi;
+                const ti = re[b] * wi + im[b] * wr;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+            }
+        }
+    }
+};
+
+export const extractFeatures = (samples: Float32Array, sampleRate: number, t: number): AudioFrame => {
+    const n = samples.length;
+    const re = new Float32Array(n);
+    const im = new Float32Array(n);
+    let sumSquares = 0;
+    for (let i = 0; i < n; i++) {
+        sumSquares += samples[i] * samples[i];
+        re[i] = samples[i] * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (n - 1))); // Hann window
+    }
+    fft(re, im);
+
+    const binHz = sampleRate / n;
+    let total = 0;
+    let weighted = 0;
+    let high = 0;
+    let logSum = 0;
+    let linSum = 0;
+    let flatCount = 0;
+    const bandEnergy = new Array(BAND_COUNT).fill(1e-12);
+    const bandEdge = (b: number) => BAND_MIN_HZ * (BAND_MAX_HZ / BAND_MIN_HZ) ** (b / BAND_COUNT);
+
+    for (let k = 1; k < n / 2; k++) {
+        const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+        const hz = k * binHz;
+        total += power;
+        weighted += power * hz;
+        if (hz >= HIGH_BAND_HZ) high += power;
+        if (hz >= 300 && hz <= 8000) {
+            logSum += Math.log(power);
+            linSum += power;
+            flatCount++;
+        }
+        if (hz >= BAND_MIN_HZ && hz < BAND_MAX_HZ) {
+            const band = Math.min(BAND_COUNT - 1, Math.floor(BAND_COUNT * Math.log(hz / BAND_MIN_HZ) / Math.log(BAND_MAX_HZ / BAND_MIN_HZ)));
+            if (hz >= bandEdge(band)) bandEnergy[band] += power;
+        }
+    }
+
+    const logBands = bandEnergy.map(e => Math.log10(e));
+    const meanBand = logBands.reduce((a, b) => a + b, 0) / BAND_COUNT;
+    return {
+        t,
+        rmsDb: 20 * Math.log10(Math.sqrt(sumSquares / n) + 1e-10),
+        centroid: weighted / total,
+        flatness: flatCount ? Math.exp(logSum / flatCount) / (linSum / flatCount) : 0,
+        highRatio: high / total,
+        bands: logBands.map(b => b - meanBand),
+    };
+};
+
+// Splits a whole recording into consecutive frames, e.g. for fixtures or enrolment.
+export const framesFromBuffer = (samples: Float32Array, sampleRate: number, startT = 0) => {
+    const frames: AudioFrame[] = [];
+    for (let offset = 0; offset + FRAME_SIZE <= samples.length; offset += FRAME_SIZE) {
+        frames.push(extractFeatures(samples.subarray(offset, offset + FRAME_SIZE), sampleRate, startT + offset / sampleRate * 1000));
+    }
+    return frames;
+};
+
+const bandDistance = (a: number[], b: number[]) => Math.sqrt(a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0));
+
+// Dynamic time warping distance, normalised by path length so words spoken at
+// different speeds compare fairly.
+export const dtwDistance = (a: number[][], b: number[][]) => {
+    const cost = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(Infinity));
+    const steps = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    cost[0][0] = 0;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const options: [number, number][] = [[i - 1, j - 1], [i - 1, j], [i, j - 1]];
+            const [pi, pj] = options.reduce((best, o) => cost[o[0]][o[1]] < cost[best[0]][best[1]] ? o : best);
+            cost[i][j] = cost[pi][pj] + bandDistance(a[i - 1], b[j - 1]);
+            steps[i][j] = steps[pi][pj] + 1;
+        }
+    }
+    return cost[a.length][b.length] / Math.max(1, steps[a.length][b.length]);
+};
+
+// Groups frames into utterances separated by silence. Tracks background noise so
+// speech is judged relative to the room rather than in absolute terms.
+export const createSpeechSegmenter = (onSegment: (frames: AudioFrame[]) => void) => {
+    let noiseDb = -60;
+    let segment: AudioFrame[] = [];
+    let lastVoicedAt = 0;
+
+    return (frame: AudioFrame) => {
+        const voiced = frame.rmsDb > SPEECH_MIN_DB && frame.rmsDb > noiseDb + SPEECH_ABOVE_NOISE_DB;
+        if (!voiced && segment.length === 0) {
+            noiseDb = 0.95 * noiseDb + 0.05 * frame.rmsDb;
+        }
+        if (voiced) {
+            segment.push(frame);
+            lastVoicedAt = frame.t;
+        } else if (segment.length > 0 && frame.t - lastVoicedAt >= SPEECH_END_SILENCE_MS) {
+            const duration = lastVoicedAt - segment[0].t;
+            if (duration >= WORD_MIN_MS && duration <= WORD_MAX_MS) onSegment(segment);
+            segment = [];
+        } else if (segment.length > 0) {
+            segment.push(frame);
+        }
+    };
+};
+
+// Builds a safe word model from several recordings of the user saying it.
+export const createSafeWordTemplate = (recordings: AudioFrame[][]): SafeWordTemplate => {
+    const samples = recordings.map(frames => frames.map(f => f.bands));
+    let maxDistance = 0;
+    for (let i = 0; i < samples.length; i++) {
+        for (let j = i + 1; j < samples.length; j++) {
+            maxDistance = Math.max(maxDistance, dtwDistance(samples[i], samples[j]));
+        }
+    }
+    return { samples, threshold: maxDistance * SAFE_WORD_THRESHOLD_MARGIN };
+};
+
+export const createDistressDetector = (settings: Pick<ListenSettings, 'scream' | 'glass' | 'safeWord'>, onDetect: (detection: Detection) => void) => {
+    let lastDetectionAt = -Infinity;
+    let screamStart: number | null = null;
+    let screamLast = 0;
+    let averageDb = -60;
+    let glassOnset: number | null = null;
+    let glassFrames = 0;
+
+    const detect = (sound: DistressSound, t: number) => {
+        if (t - lastDetectionAt < DETECTION_COOLDOWN_MS) return;
+        lastDetectionAt = t;
+        onDetect({ sound, t });
+    };
+
+    const segmenter = createSpeechSegmenter(frames => {
+        const template = settings.safeWord;
+        if (!template) return;
+        const bands = frames.map(f => f.bands);
+        const best = Math.min(...template.samples.map(sample => dtwDistance(bands, sample)));
+        if (best <= template.threshold) detect('safeWord', frames[frames.length - 1].t);
+    });
+
+    return (frame: AudioFrame) => {
+        // Scream: loud, high-pitched and harmonic, sustained for most of a second.
+        if (settings.scream) {
+            const screamy = frame.rmsDb > SCREAM_MIN_DB && frame.centroid >= 800 && frame.centroid <= 4000 && frame.flatness < 0.3;
+            if (screamy) {
+                if (screamStart === null || frame.t - screamLast > SCREAM_MAX_GAP_MS) screamStart = frame.t;
+                screamLast = frame.t;
+                if (frame.t - screamStart >= SCREAM_MIN_MS) {
+                    screamStart = null;
+                    detect('scream', frame.t);
+                }
+            }
+        }
+
+        // Breaking glass: a sudden, noisy, treble-heavy burst followed by ringing shards.
+        if (settings.glass) {
+            const bright = frame.highRatio > 0.35 && frame.flatness > 0.25;
+            if (glassOnset === null && bright && frame.rmsDb - averageDb > GLASS_ONSET_DB && frame.highRatio > 0.4) {
+                glassOnset = frame.t;
+                glassFrames = 0;
+            } else if (glassOnset !== null) {
+                if (bright) glassFrames++;
+                if (glassFrames >= GLASS_CONFIRM_FRAMES) {
+                    glassOnset = null;
+                    detect('glass', frame.t);
+                } else if (frame.t - glassOnset > GLASS_CONFIRM_MS) {
+                    glassOnset = null;
+                }
+            }
+        }
+        averageDb = 0.98 * averageDb + 0.02 * frame.rmsDb;
+
+        if (settings.safeWord) segmenter(frame);
+    };
+};
+
+// Runs detection over a complete recording, e.g. an audio fixture.
+export const detectInBuffer = (samples: Float32Array, sampleRate: number, settings: Pick<ListenSettings, 'scream' | 'glass' | 'safeWord'>) => {
+    const detections: Detection[] = [];
+    const push = createDistressDetector(settings, d => detections.push(d));
+    framesFromBuffer(samples, sampleRate).forEach(push);
+    return detections;
+};
+
+// Streams feature frames from the microphone until the returned stop function is called.
+export const startMicrophoneFrames = async (onFrame: (frame: AudioFrame) => void) => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false } });
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = FRAME_SIZE;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const buffer = new Float32Array(FRAME_SIZE);
+    const frameMs = FRAME_SIZE / context.sampleRate * 1000;
+
+    const interval = setInterval(() => {
+        analyser.getFloatTimeDomainData(buffer);
+        onFrame(extractFeatures(buffer, context.sampleRate, performance.now()));
+    }, frameMs);
+
+    return () => {
+        clearInterval(interval);
+        stream.getTracks().forEach(track => track.stop());
+        context.close();
+    };
+};
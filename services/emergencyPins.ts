@@ -0,0 +1,39 @@
+import { readJson, writeJson, createId } from './storage';
+import { sha256Hex } from './evidenceChain';
+
+// PINs for ending emergency mode. The cancel PIN really stops it. The duress PIN is for
+// when someone forces the user to stop: the screen goes back to normal while recording,
+// tracking and alerts carry on in the background.
+//
+// Only salted hashes are stored, so the PINs can't be read out of storage at a glance.
+// A short PIN can still be brute-forced by someone holding the device's storage.
+
+export type PinHash = { salt: string; hash: string };
+
+export type EmergencyPins = {
+    cancel: PinHash | null;
+    duress: PinHash | null;
+};
+
+export type PinCheck = 'cancel' | 'duress' | 'wrong';
+
+export const MIN_PIN_LENGTH = 4;
+
+const PINS_KEY = 'emergency-pins';
+
+export const loadEmergencyPins = () => readJson<EmergencyPins>(PINS_KEY, { cancel: null, duress: null });
+export const saveEmergencyPins = (pins: EmergencyPins) => writeJson(PINS_KEY, pins);
+
+export const isValidPin = (pin: string) => new RegExp(`^\\d{${MIN_PIN_LENGTH},}$`).test(pin);
+
+export const hashPin = async (pin: string, salt = createId()): Promise<PinHash> =>
+    ({ salt, hash: await sha256Hex(`${salt}:${pin}`) });
+
+export const matchesPin = async (stored: PinHash | null, pin: string) =>
+    !!stored && (await hashPin(pin, stored.salt)).hash === stored.hash;
+
+export const checkPin = async (pins: EmergencyPins, pin: string): Promise<PinCheck> => {
+    if (await matchesPin(pins.cancel, pin)) return 'cancel';
+    if (await matchesPin(pins.duress, pin)) return 'duress';
+    return 'wrong';
+};
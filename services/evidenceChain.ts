@@ -0,0 +1,245 @@
+import type { VaultSession } from './evidenceVault';
+import { getEvidence, getKeyPair, putKeyPair } from './evidenceVault';
+
+// Tamper-evident SHA-256 hash chain over recording chunks and location fixes.
+// Every entry commits to the previous entry's hash, so removing, reordering or
+// altering any segment breaks every hash after it. Exported manifests are signed
+// with a per-device ECDSA key. The public key travels inside the manifest, so anyone
+// can re-sign an altered copy with a key of their own: the signature only ties the
+// evidence to a device when that key's fingerprint is known in advance. The vault shows
+// this device's fingerprint, and verification reports which key signed a manifest.
+
+export type ChunkEvidence = { chunkSeq: number; size: number };
+
+export type LocationEvidence = {
+    latitude: number;
+    longitude: number;
+    accuracy: number;
+    altitude: number | null;
+    speed: number | null;
+    heading: number | null;
+    fixTime: number;
+};
+
+export type EvidenceEntry = {
+    sessionId: string;
+    seq: number;
+    timestamp: number;
+    prevHash: string;
+    payloadHash: string;
+    hash: string;
+} & (
+    | { kind: 'chunk'; data: ChunkEvidence }
+    | { kind: 'location'; data: LocationEvidence }
+);
+
+export type ChainHead = { sessionId: string; seq: number; hash: string };
+
+export type EvidenceManifest = {
+    format: typeof MANIFEST_FORMAT;
+    sessionId: string;
+    mimeType: string;
+    startedAt: number;
+    endedAt: number | null;
+    createdAt: number;
+    headHash: string;
+    entries: EvidenceEntry[];
+    publicKey: JsonWebKey;
+    signature: string;
+};
+
+export type VerificationResult = {
+    signatureValid: boolean | null; // null when there is no signature to check
+    signer: { fingerprint: string; thisDevice: boolean } | null;
+    issues: string[];
+};
+
+const MANIFEST_FORMAT = 'guardian-angel-evidence/1';
+const SIGNING_KEY_ID = 'evidence-signing';
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export const sha256Hex = async (data: ArrayBuffer | string) => {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+export const hmacSha256Hex = async (secret: string, data: string) => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)));
+};
+
+// JSON with sorted keys, so hashes don't depend on property insertion order.
+const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const record = value as { [key: string]: unknown };
+        return `{${Object.keys(record).sort().map(k => `${JSON.stringify(k)}:${canonicalJson(record[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const entryHash = (entry: Omit<EvidenceEntry, 'hash'>) =>
+    sha256Hex([entry.prevHash, entry.sessionId, entry.seq, entry.kind, entry.timestamp, entry.payloadHash, canonicalJson(entry.data)].join('|'));
+
+export const startChain = (sessionId: string): ChainHead => ({ sessionId, seq: 0, hash: GENESIS_HASH });
+
+export const advanceChain = (entry: EvidenceEntry): ChainHead =>
+    ({ sessionId: entry.sessionId, seq: entry.seq + 1, hash: entry.hash });
+
+const createEntry = async (head: ChainHead, fields: Pick<EvidenceEntry, 'kind' | 'data' | 'payloadHash'>): Promise<EvidenceEntry> => {
+    const unsigned = {
+        ...fields,
+        sessionId: head.sessionId,
+        seq: head.seq,
+        timestamp: Date.now(),
+        prevHash: head.hash,
+    } as Omit<EvidenceEntry, 'hash'>;
+    return { ...unsigned, hash: await entryHash(unsigned) } as EvidenceEntry;
+};
+
+export const createChunkEntry = async (head: ChainHead, chunkSeq: number, blob: Blob) =>
+    createEntry(head, {
+        kind: 'chunk',
+        data: { chunkSeq, size: blob.size },
+        payloadHash: await sha256Hex(await blob.arrayBuffer()),
+    });
+
+export const createLocationEntry = async (head: ChainHead, position: GeolocationPosition) => {
+    const data: LocationEvidence = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        altitude: position.coords.altitude,
+        speed: position.coords.speed,
+        heading: position.coords.heading,
+        fixTime: position.timestamp,
+    };
+    return createEntry(head, { kind: 'location', data, payloadHash: await sha256Hex(canonicalJson(data)) });
+};
+
+// Checks chain linkage and every entry hash. When the recording's chunk blobs are
+// supplied, each one is re-hashed against the chain as well.
+export const verifyEntries = async (entries: EvidenceEntry[], chunkBlobs?: Blob[]) => {
+    const issues: string[] = [];
+    let prevHash = GENESIS_HASH;
+    let expectedChunkSeq = 0;
+
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (entry.seq !== i) {
+            issues.push(`Entry ${i} is missing (found #${entry.seq} in its place).`);
+        }
+        if (entry.prevHash !== prevHash) {
+            issues.push(`Entry #${entry.seq} does not link to the previous entry.`);
+        }
+        const { hash, ...unsigned } = entry;
+        if (await entryHash(unsigned) !== hash) {
+            issues.push(`Entry #${entry.seq} (${entry.kind}) has been modified.`);
+        }
+        if (entry.kind === 'location' && await sha256Hex(canonicalJson(entry.data)) !== entry.payloadHash) {
+            issues.push(`Location fix #${entry.seq} does not match its recorded hash.`);
+        }
+        if (entry.kind === 'chunk') {
+            if (entry.data.chunkSeq !== expectedChunkSeq) {
+                issues.push(`Recording segment ${expectedChunkSeq} is missing from the chain.`);
+            }
+            expectedChunkSeq = entry.data.chunkSeq + 1;
+            if (chunkBlobs) {
+                const blob = chunkBlobs[entry.data.chunkSeq];
+                if (!blob) {
+                    issues.push(`Recording segment ${entry.data.chunkSeq} is missing from the media.`);
+                } else if (await sha256Hex(await blob.arrayBuffer()) !== entry.payloadHash) {
+                    issues.push(`Recording segment ${entry.data.chunkSeq} has been changed.`);
+                }
+            }
+        }
+        prevHash = entry.hash;
+    }
+    if (chunkBlobs && chunkBlobs.length > expectedChunkSeq) {
+        issues.push(`The media contains ${chunkBlobs.length - expectedChunkSeq} segment(s) not covered by the chain.`);
+    }
+    return issues;
+};
+
+// An exported recording is a single file, so it is cut back into segments using
+// the chunk sizes committed to in the chain.
+const splitMedia = (media: Blob, entries: EvidenceEntry[]) => {
+    const blobs: Blob[] = [];
+    let offset = 0;
+    for (const entry of entries) {
+        if (entry.kind !== 'chunk') continue;
+        blobs[entry.data.chunkSeq] = media.slice(offset, offset + entry.data.size);
+        offset += entry.data.size;
+    }
+    if (offset < media.size) blobs.push(media.slice(offset));
+    return blobs;
+};
+
+const getSigningKeyPair = async () => {
+    const existing = await getKeyPair(SIGNING_KEY_ID);
+    if (existing) return existing;
+    const keyPair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']);
+    await putKeyPair(SIGNING_KEY_ID, keyPair);
+    return keyPair;
+};
+
+// RFC 7638 thumbprint (the key's required members, sorted) as grouped hex, short enough
+// to read out or write down.
+export const keyFingerprint = async ({ crv, kty, x, y }: JsonWebKey) =>
+    (await sha256Hex(canonicalJson({ crv, kty, x, y }))).match(/.{4}/g)!.join(' ');
+
+export const getDeviceKeyFingerprint = async () =>
+    keyFingerprint(await crypto.subtle.exportKey('jwk', (await getSigningKeyPair()).publicKey));
+
+export const buildManifest = async (session: VaultSession): Promise<EvidenceManifest> => {
+    const entries = await getEvidence(session.id);
+    const keyPair = await getSigningKeyPair();
+    const unsigned: Omit<EvidenceManifest, 'signature'> = {
+        format: MANIFEST_FORMAT,
+        sessionId: session.id,
+        mimeType: session.mimeType,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt,
+        createdAt: Date.now(),
+        headHash: entries.length ? entries[entries.length - 1].hash : GENESIS_HASH,
+        entries,
+        publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+    };
+    const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, keyPair.privateKey, new TextEncoder().encode(canonicalJson(unsigned)));
+    return { ...unsigned, signature: toBase64(signature) };
+};
+
+export const verifyManifest = async (manifest: EvidenceManifest, media?: Blob): Promise<VerificationResult> => {
+    if (manifest.format !== MANIFEST_FORMAT) {
+        return { signatureValid: null, signer: null, issues: ['This file is not a Guardian Angel evidence manifest.'] };
+    }
+    const { signature, ...unsigned } = manifest;
+    let signatureValid = false;
+    try {
+        const publicKey = await crypto.subtle.importKey('jwk', manifest.publicKey, SIGNING_ALGORITHM, false, ['verify']);
+        signatureValid = await crypto.subtle.verify(SIGNATURE_PARAMS, publicKey, fromBase64(signature), new TextEncoder().encode(canonicalJson(unsigned)));
+    } catch (err) {
+        console.error('Manifest signature check failed:', err);
+    }
+
+    const issues = await verifyEntries(manifest.entries, media && splitMedia(media, manifest.entries));
+    const lastHash = manifest.entries.length ? manifest.entries[manifest.entries.length - 1].hash : GENESIS_HASH;
+    if (lastHash !== manifest.headHash) {
+        issues.push('Entries are missing from the end of the chain.');
+    }
+    if (!signatureValid) {
+        issues.unshift('The manifest signature is invalid.');
+    }
+    const fingerprint = await keyFingerprint(manifest.publicKey);
+    return { signatureValid, signer: { fingerprint, thisDevice: fingerprint === await getDeviceKeyFingerprint() }, issues };
+};
@@ -0,0 +1,223 @@
+import type { EvidenceEntry } from './evidenceChain';
+import type { TrackPoint } from './locationTrack';
+
+// On-device evidence vault. Recordings are written to IndexedDB chunk by chunk as the
+// MediaRecorder produces them, so a crash or a killed tab loses at most one timeslice.
+// Routes from earlier emergencies and shares are kept here too, until the user deletes them.
+
+export type VaultSession = {
+    id: string;
+    startedAt: number;
+    endedAt: number | null; // null while recording, or if the app died mid-recording
+    mimeType: string;
+    chunkCount: number;
+    size: number;
+    recovered: boolean;
+};
+
+export type VaultRoute = {
+    id: string;
+    startedAt: number;
+    endedAt: number;
+    points: TrackPoint[];
+};
+
+type VaultChunk = {
+    sessionId: string;
+    seq: number;
+    recordedAt: number;
+    blob: Blob;
+};
+
+const DB_NAME = 'guardian-angel-vault';
+const DB_VERSION = 3;
+const SESSIONS = 'sessions';
+const CHUNKS = 'chunks';
+const EVIDENCE = 'evidence';
+const KEYS = 'keys';
+const ROUTES = 'routes';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openVault = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    db.createObjectStore(SESSIONS, { keyPath: 'id' });
+                    const chunks = db.createObjectStore(CHUNKS, { autoIncrement: true });
+                    chunks.createIndex('sessionId', 'sessionId');
+                }
+                if (event.oldVersion < 2) {
+                    const evidence = db.createObjectStore(EVIDENCE, { keyPath: ['sessionId', 'seq'] });
+                    evidence.createIndex('sessionId', 'sessionId');
+                    db.createObjectStore(KEYS, { keyPath: 'id' });
+                }
+                if (event.oldVersion < 3) {
+                    db.createObjectStore(ROUTES, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+export const createSession = async (id: string, mimeType: string): Promise<VaultSession> => {
+    const session: VaultSession = {
+        id,
+        startedAt: Date.now(),
+        endedAt: null,
+        mimeType,
+        chunkCount: 0,
+        size: 0,
+        recovered: false,
+    };
+    const db = await openVault();
+    const tx = db.transaction(SESSIONS, 'readwrite');
+    tx.objectStore(SESSIONS).put(session);
+    await completion(tx);
+    return session;
+};
+
+export const appendChunk = async (sessionId: string, seq: number, blob: Blob) => {
+    const db = await openVault();
+    const tx = db.transaction([SESSIONS, CHUNKS], 'readwrite');
+    const chunk: VaultChunk = { sessionId, seq, recordedAt: Date.now(), blob };
+    tx.objectStore(CHUNKS).add(chunk);
+    const sessions = tx.objectStore(SESSIONS);
+    const session = await promisify<VaultSession | undefined>(sessions.get(sessionId));
+    if (session) {
+        sessions.put({ ...session, chunkCount: session.chunkCount + 1, size: session.size + blob.size });
+    }
+    await completion(tx);
+};
+
+export const finishSession = async (sessionId: string) => {
+    const db = await openVault();
+    const tx = db.transaction(SESSIONS, 'readwrite');
+    const sessions = tx.objectStore(SESSIONS);
+    const session = await promisify<VaultSession | undefined>(sessions.get(sessionId));
+    if (session) {
+        sessions.put({ ...session, endedAt: Date.now() });
+    }
+    await completion(tx);
+};
+
+const getChunks = async (sessionId: string) => {
+    const db = await openVault();
+    const tx = db.transaction(CHUNKS, 'readonly');
+    const chunks = await promisify<VaultChunk[]>(tx.objectStore(CHUNKS).index('sessionId').getAll(sessionId));
+    return chunks.sort((a, b) => a.seq - b.seq);
+};
+
+export const listSessions = async () => {
+    const db = await openVault();
+    const tx = db.transaction(SESSIONS, 'readonly');
+    const sessions = await promisify<VaultSession[]>(tx.objectStore(SESSIONS).getAll());
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const getSessionChunkBlobs = async (session: VaultSession) =>
+    (await getChunks(session.id)).map(c => c.blob);
+
+export const getSessionBlob = async (session: VaultSession) =>
+    new Blob(await getSessionChunkBlobs(session), { type: session.mimeType });
+
+export const deleteSession = async (sessionId: string) => {
+    const db = await openVault();
+    const tx = db.transaction([SESSIONS, CHUNKS, EVIDENCE], 'readwrite');
+    tx.objectStore(SESSIONS).delete(sessionId);
+    for (const storeName of [CHUNKS, EVIDENCE]) {
+        const store = tx.objectStore(storeName);
+        const keys = await promisify(store.index('sessionId').getAllKeys(sessionId));
+        keys.forEach(key => store.delete(key));
+    }
+    await completion(tx);
+};
+
+export const appendEvidence = async (entry: EvidenceEntry) => {
+    const db = await openVault();
+    const tx = db.transaction(EVIDENCE, 'readwrite');
+    tx.objectStore(EVIDENCE).add(entry);
+    await completion(tx);
+};
+
+export const getEvidence = async (sessionId: string) => {
+    const db = await openVault();
+    const tx = db.transaction(EVIDENCE, 'readonly');
+    const entries = await promisify<EvidenceEntry[]>(tx.objectStore(EVIDENCE).index('sessionId').getAll(sessionId));
+    return entries.sort((a, b) => a.seq - b.seq);
+};
+
+export const saveRoute = async (route: VaultRoute) => {
+    const db = await openVault();
+    const tx = db.transaction(ROUTES, 'readwrite');
+    tx.objectStore(ROUTES).put(route);
+    await completion(tx);
+};
+
+export const listRoutes = async () => {
+    const db = await openVault();
+    const tx = db.transaction(ROUTES, 'readonly');
+    const routes = await promisify<VaultRoute[]>(tx.objectStore(ROUTES).getAll());
+    return routes.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteRoute = async (routeId: string) => {
+    const db = await openVault();
+    const tx = db.transaction(ROUTES, 'readwrite');
+    tx.objectStore(ROUTES).delete(routeId);
+    await completion(tx);
+};
+
+// CryptoKeyPair objects are structured-cloneable, so non-extractable private keys can
+// live in IndexedDB without ever being exposed to script as raw bytes.
+export const getKeyPair = async (id: string) => {
+    const db = await openVault();
+    const tx = db.transaction(KEYS, 'readonly');
+    const record = await promisify<{ id: string; keyPair: CryptoKeyPair } | undefined>(tx.objectStore(KEYS).get(id));
+    return record?.keyPair ?? null;
+};
+
+export const putKeyPair = async (id: string, keyPair: CryptoKeyPair) => {
+    const db = await openVault();
+    const tx = db.transaction(KEYS, 'readwrite');
+    tx.objectStore(KEYS).put({ id, keyPair });
+    await completion(tx);
+};
+
+// Sessions still marked as recording belong to a previous run that never reached
+// stopRecording. Close them at their last saved chunk so they show up in the vault.
+export const recoverUnfinishedSessions = async (activeSessionId: string | null = null) => {
+    const unfinished = (await listSessions()).filter(s => s.endedAt === null && s.id !== activeSessionId);
+    for (const session of unfinished) {
+        const chunks = await getChunks(session.id);
+        const db = await openVault();
+        const tx = db.transaction(SESSIONS, 'readwrite');
+        tx.objectStore(SESSIONS).put({
+            ...session,
+            endedAt: chunks.length ? chunks[chunks.length - 1].recordedAt : session.startedAt,
+            recovered: true,
+        });
+        await completion(tx);
+    }
+    return unfinished.length;
+};
@@ -0,0 +1,44 @@
+import { readJson, writeJson } from './storage';
+
+// Fake calls set up ahead of time, so the phone rings on its own once a situation
+// gets awkward. The schedule is persisted so a reload doesn't silently drop it.
+
+export type ScheduledCall = {
+    personaId: string;
+    at: number; // epoch ms
+};
+
+export const FAKE_CALL_DELAYS: { label: string; seconds: number }[] = [
+    { label: 'Now', seconds: 0 },
+    { label: 'In 30s', seconds: 30 },
+    { label: 'In 2 min', seconds: 120 },
+    { label: 'In 5 min', seconds: 300 },
+];
+
+// A call that was due while the app was closed still rings if it is at most this late.
+export const MISSED_CALL_GRACE_MS = 60 * 1000;
+
+const SCHEDULE_KEY = 'scheduled-call';
+const GESTURE_CALLER_KEY = 'gesture-caller';
+
+export const loadScheduledCall = () => readJson<ScheduledCall | null>(SCHEDULE_KEY, null);
+export const saveScheduledCall = (call: ScheduledCall | null) => writeJson(SCHEDULE_KEY, call);
+
+// The persona used when a button gesture triggers a fake call; null means the first one.
+export const loadGestureCallerId = () => readJson<string | null>(GESTURE_CALLER_KEY, null);
+export const saveGestureCallerId = (id: string | null) => writeJson(GESTURE_CALLER_KEY, id);
+
+export const scheduleCallIn = (personaId: string, seconds: number, now = Date.now()): ScheduledCall =>
+    ({ personaId, at: now + seconds * 1000 });
+
+// Schedules for the next occurrence of a wall-clock time ("HH:MM"), i.e. tomorrow if it has passed today.
+export const scheduleCallAt = (personaId: string, time: string, now = new Date()): ScheduledCall | null => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+    if (!match) return null;
+    const at = new Date(now);
+    at.setHours(Number(match[1]), Number(match[2]), 0, 0);
+    if (at.getTime() <= now.getTime()) at.setDate(at.getDate() + 1);
+    return { personaId, at: at.getTime() };
+};
+
+export const isMissed = (call: ScheduledCall, now = Date.now()) => now - call.at > MISSED_CALL_GRACE_MS;
@@ -0,0 +1,124 @@
+import { readJson, writeJson } from './storage';
+
+// Fall / impact detection from DeviceMotionEvent samples. A fall is a hard impact
+// followed by the phone lying still: someone who trips and gets up again, or drops
+// the phone and picks it up, doesn't trigger it.
+//
+// The detector only looks at the timestamps inside the samples it is given, so a
+// recorded sensor trace can be replayed through it exactly as it happened live.
+
+export type MotionSample = {
+    t: number; // ms
+    ax: number; // m/s², including gravity
+    ay: number;
+    az: number;
+    rotation: number | null; // rotation rate magnitude in deg/s, when a gyroscope is present
+};
+
+export type FallSensitivity = 'low' | 'medium' | 'high';
+
+export type FallDetectionSettings = {
+    enabled: boolean;
+    sensitivity: FallSensitivity;
+    countdownSeconds: number;
+};
+
+type Thresholds = {
+    impact: number; // acceleration magnitude (m/s²) counted as an impact
+    stillTolerance: number; // max deviation from 1 g while lying still
+    stillRotation: number; // max rotation rate (deg/s) while lying still
+};
+
+export const GRAVITY = 9.81;
+// After the impact the phone may bounce or slide for a moment before settling.
+export const SETTLE_MS = 1500;
+// How long the phone must then stay still for the impact to count as a fall.
+export const STILL_MS = 4000;
+
+export const FALL_THRESHOLDS: { [key in FallSensitivity]: Thresholds } = {
+    low: { impact: 3.5 * GRAVITY, stillTolerance: 1.0, stillRotation: 15 },
+    medium: { impact: 2.7 * GRAVITY, stillTolerance: 1.5, stillRotation: 25 },
+    high: { impact: 2.0 * GRAVITY, stillTolerance: 2.0, stillRotation: 40 },
+};
+
+const SETTINGS_KEY = 'fall-detection';
+
+export const loadFallSettings = () => readJson<FallDetectionSettings>(SETTINGS_KEY, {
+    enabled: false,
+    sensitivity: 'medium',
+    countdownSeconds: 30,
+});
+export const saveFallSettings = (settings: FallDetectionSettings) => writeJson(SETTINGS_KEY, settings);
+
+export const magnitude = (s: MotionSample) => Math.sqrt(s.ax * s.ax + s.ay * s.ay + s.az * s.az);
+
+export const toMotionSample = (event: DeviceMotionEvent): MotionSample | null => {
+    const a = event.accelerationIncludingGravity;
+    if (!a || a.x === null || a.y === null || a.z === null) return null;
+    const r = event.rotationRate;
+    const rotation = r && r.alpha !== null && r.beta !== null && r.gamma !== null
+        ? Math.sqrt(r.alpha ** 2 + r.beta ** 2 + r.gamma ** 2)
+        : null;
+    return { t: event.timeStamp, ax: a.x, ay: a.y, az: a.z, rotation };
+};
+
+export const createFallDetector = (sensitivity: FallSensitivity, onFall: (impactAt: number) => void) => {
+    const thresholds = FALL_THRESHOLDS[sensitivity];
+    let impactAt: number | null = null;
+    let stillSince: number | null = null;
+
+    const isStill = (s: MotionSample) =>
+        Math.abs(magnitude(s) - GRAVITY) <= thresholds.stillTolerance &&
+        (s.rotation === null || s.rotation <= thresholds.stillRotation);
+
+    return {
+        push(sample: MotionSample) {
+            if (magnitude(sample) >= thresholds.impact) {
+                // A fresh impact restarts the watch; a second hit is still one fall.
+                impactAt = sample.t;
+                stillSince = null;
+                return;
+            }
+            if (impactAt === null || sample.t - impactAt < SETTLE_MS) return;
+
+            if (!isStill(sample)) {
+                // Movement well after the impact means the person (or whoever picked the phone up) is fine.
+                if (stillSince !== null || sample.t - impactAt > SETTLE_MS + STILL_MS) {
+                    impactAt = null;
+                }
+                stillSince = null;
+                return;
+            }
+            stillSince ??= sample.t;
+            if (sample.t - stillSince >= STILL_MS) {
+                const detectedImpact = impactAt;
+                impactAt = null;
+                stillSince = null;
+                onFall(detectedImpact);
+            }
+        },
+        reset() {
+            impactAt = null;
+            stillSince = null;
+        },
+    };
+};
+
+// Replays a recorded trace and returns the impact time of every detected fall.
+export const detectFallsInTrace = (samples: MotionSample[], sensitivity: FallSensitivity) => {
+    const falls: number[] = [];
+    const detector = createFallDetector(sensitivity, impactAt => falls.push(impactAt));
+    samples.forEach(detector.push);
+    return falls;
+};
+
+// iOS only delivers motion events after an explicit permission prompt triggered by a tap.
+export const requestMotionPermission = async () => {
+    const motion = DeviceMotionEvent as unknown as { requestPermission?: () => Promise<'granted' | 'denied'> };
+    if (typeof motion.requestPermission !== 'function') return true;
+    try {
+        return (await motion.requestPermission()) === 'granted';
+    } catch {
+        return false;
+    }
+};
@@ -0,0 +1,30 @@
+export type LatLng = { latitude: number; longitude: number };
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+// Great-circle distance in metres (haversine).
+export const distanceMeters = (a: LatLng, b: LatLng) => {
+    const dLat = toRad(b.latitude - a.latitude);
+    const dLon = toRad(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+};
+
+// Initial compass bearing from a to b, 0-360 degrees clockwise from north.
+export const bearingDegrees = (a: LatLng, b: LatLng) => {
+    const dLon = toRad(b.longitude - a.longitude);
+    const y = Math.sin(dLon) * Math.cos(toRad(b.latitude));
+    const x = Math.cos(toRad(a.latitude)) * Math.sin(toRad(b.latitude)) -
+        Math.sin(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.cos(dLon);
+    return (toDeg(Math.atan2(y, x)) + 360) % 360;
+};
+
+export const formatDistance = (meters: number) =>
+    meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const compassPoint = (bearing: number) => COMPASS_POINTS[Math.round(bearing / 45) % 8];
@@ -0,0 +1,230 @@
+import { readJson, writeJson, createId } from './storage';
+
+// Hardware-button gesture recognition. Keys are KeyboardEvent.key values; phones and
+// headsets only expose some of them to the browser, so a binding on an unexposed key
+// simply never fires.
+//
+// The recognizer is independent of React and of real time: callers feed it key events
+// with timestamps and may inject the timer functions, so recorded traces can be
+// replayed deterministically.
+
+export type GestureAction = 'loudSos' | 'discreetSos' | 'fakeCall' | 'startSharing';
+
+export type GesturePattern =
+    | { kind: 'presses'; key: string; count: number; windowMs: number } // windowMs: from the first press to the last
+    | { kind: 'longPress'; key: string; durationMs: number }
+    | { kind: 'sequence'; key: string; sequence: string } // '.' short press, '-' long press
+    | { kind: 'shortcut'; key: string; ctrl: boolean; alt: boolean; shift: boolean; meta: boolean };
+
+export type GestureBinding = {
+    id: string;
+    pattern: GesturePattern;
+    action: GestureAction;
+    enabled: boolean;
+};
+
+export type KeyModifiers = { ctrl: boolean; alt: boolean; shift: boolean; meta: boolean };
+
+export type Scheduler = {
+    setTimeout: (callback: () => void, ms: number) => unknown;
+    clearTimeout: (handle: unknown) => void;
+};
+
+export const GESTURE_ACTION_LABELS: { [key in GestureAction]: string } = {
+    loudSos: 'Loud SOS',
+    discreetSos: 'Discreet SOS',
+    fakeCall: 'Fake call',
+    startSharing: 'Start sharing location',
+};
+
+export const HARDWARE_KEYS: { [key: string]: string } = {
+    AudioVolumeUp: 'Volume Up',
+    AudioVolumeDown: 'Volume Down',
+    Power: 'Power',
+    MediaPlayPause: 'Headset button',
+};
+
+// Presses shorter than this are dots in a sequence, longer ones dashes.
+export const DASH_THRESHOLD_MS = 400;
+// A sequence is complete once the key has been idle this long.
+export const SEQUENCE_GAP_MS = 1000;
+
+const GESTURES_KEY = 'gestures';
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBinding[] = [
+    { id: 'default-long-press', pattern: { kind: 'longPress', key: 'AudioVolumeUp', durationMs: 1000 }, action: 'loudSos', enabled: true },
+    { id: 'default-four-presses', pattern: { kind: 'presses', key: 'AudioVolumeUp', count: 4, windowMs: 1500 }, action: 'discreetSos', enabled: true },
+];
+
+export const loadGestureBindings = () => readJson<GestureBinding[]>(GESTURES_KEY, DEFAULT_GESTURE_BINDINGS);
+export const saveGestureBindings = (bindings: GestureBinding[]) => writeJson(GESTURES_KEY, bindings);
+
+export const createGestureBinding = (pattern: GesturePattern, action: GestureAction): GestureBinding =>
+    ({ id: createId(), pattern, action, enabled: true });
+
+export const describeGesture = (pattern: GesturePattern) => {
+    const key = HARDWARE_KEYS[pattern.key] || pattern.key.toUpperCase();
+    switch (pattern.kind) {
+        case 'presses': return `${key} × ${pattern.count} (within ${pattern.windowMs / 1000}s)`;
+        case 'longPress': return `Hold ${key} for ${pattern.durationMs / 1000}s`;
+        case 'sequence': return `${key} sequence ${pattern.sequence}`;
+        case 'shortcut': return [pattern.ctrl && 'Ctrl', pattern.alt && 'Alt', pattern.shift && 'Shift', pattern.meta && 'Meta', key].filter(Boolean).join('+');
+    }
+};
+
+const sameKey = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+type KeyState = {
+    downAt: number | null;
+    durations: number[]; // completed presses in the current burst
+    burstStartedAt: number | null; // when the first press of the burst went down
+    lastPressAt: number;
+    longPressFired: boolean;
+    longPressTimers: unknown[];
+    gapTimer: unknown;
+};
+
+export const createGestureRecognizer = (
+    bindings: GestureBinding[],
+    onMatch: (binding: GestureBinding) => void,
+    scheduler: Scheduler = { setTimeout: (cb, ms) => setTimeout(cb, ms), clearTimeout: h => clearTimeout(h as ReturnType<typeof setTimeout>) },
+) => {
+    const active = bindings.filter(b => b.enabled);
+    const states = new Map<string, KeyState>();
+
+    const forKey = <K extends GesturePattern['kind']>(key: string, kind: K) =>
+        active.filter(b => b.pattern.kind === kind && sameKey(b.pattern.key, key)) as (GestureBinding & { pattern: Extract<GesturePattern, { kind: K }> })[];
+
+    const stateFor = (key: string) => {
+        const id = key.toLowerCase();
+        let state = states.get(id);
+        if (!state) {
+            state = { downAt: null, durations: [], burstStartedAt: null, lastPressAt: 0, longPressFired: false, longPressTimers: [], gapTimer: null };
+            states.set(id, state);
+        }
+        return state;
+    };
+
+    const clearTimers = (state: KeyState) => {
+        state.longPressTimers.forEach(scheduler.clearTimeout);
+        state.longPressTimers = [];
+        if (state.gapTimer !== null) scheduler.clearTimeout(state.gapTimer);
+        state.gapTimer = null;
+    };
+
+    const resetKey = (state: KeyState) => {
+        clearTimers(state);
+        state.durations = [];
+        state.burstStartedAt = null;
+    };
+
+    const withinWindow = (state: KeyState, pattern: { windowMs: number }) =>
+        state.burstStartedAt !== null && state.lastPressAt - state.burstStartedAt <= pattern.windowMs;
+
+    const fire = (state: KeyState, binding: GestureBinding) => {
+        resetKey(state);
+        onMatch(binding);
+    };
+
+    // Called once the key has been idle long enough that the burst is over.
+    const settleBurst = (key: string, state: KeyState) => {
+        state.gapTimer = null;
+        const count = state.durations.length;
+        const code = state.durations.map(d => d < DASH_THRESHOLD_MS ? '.' : '-').join('');
+        const match = forKey(key, 'sequence').find(b => b.pattern.sequence === code)
+            || forKey(key, 'presses').find(b => b.pattern.count === count && withinWindow(state, b.pattern));
+        if (match) {
+            fire(state, match);
+        } else {
+            resetKey(state);
+        }
+    };
+
+    // The burst is over once every press-count window has closed and, if the key has
+    // sequences, it has been idle for the sequence gap.
+    const scheduleSettle = (key: string, state: KeyState, time: number) => {
+        if (state.gapTimer !== null) scheduler.clearTimeout(state.gapTimer);
+        state.gapTimer = null;
+        const windowsLeft = forKey(key, 'presses').map(b => state.burstStartedAt! + b.pattern.windowMs - time);
+        const wait = Math.max(forKey(key, 'sequence').length ? SEQUENCE_GAP_MS : 0, ...windowsLeft, 0);
+        if (wait > 0) {
+            state.gapTimer = scheduler.setTimeout(() => settleBurst(key, state), wait);
+        } else {
+            settleBurst(key, state);
+        }
+    };
+
+    // A press-count pattern fires on the press that completes it, unless a longer
+    // count whose window is still open or a sequence on the same key could still
+    // match, in which case the burst is settled later.
+    const tryImmediatePressMatch = (key: string, state: KeyState) => {
+        const count = state.durations.length + 1;
+        const match = forKey(key, 'presses').find(b => b.pattern.count === count && withinWindow(state, b.pattern));
+        if (!match) return false;
+        const couldGrow = forKey(key, 'presses').some(b => b.pattern.count > count && withinWindow(state, b.pattern)) ||
+            forKey(key, 'sequence').length > 0;
+        if (couldGrow) return false;
+        fire(state, match);
+        return true;
+    };
+
+    return {
+        // Returns true when the key takes part in a gesture, so the caller can
+        // suppress its default behaviour (e.g. changing the volume).
+        keyDown(key: string, modifiers: KeyModifiers, repeat: boolean, time: number) {
+            const shortcut = forKey(key, 'shortcut').find(b =>
+                b.pattern.ctrl === modifiers.ctrl && b.pattern.alt === modifiers.alt &&
+                b.pattern.shift === modifiers.shift && b.pattern.meta === modifiers.meta);
+            if (shortcut) {
+                if (!repeat) onMatch(shortcut);
+                return true;
+            }
+
+            const watched = active.some(b => b.pattern.kind !== 'shortcut' && sameKey(b.pattern.key, key));
+            if (!watched) return false;
+            if (repeat) return true;
+
+            const state = stateFor(key);
+            if (state.gapTimer !== null) scheduler.clearTimeout(state.gapTimer);
+            state.gapTimer = null;
+            state.downAt = time;
+            state.longPressFired = false;
+            if (state.durations.length === 0) state.burstStartedAt = time;
+            state.lastPressAt = time;
+
+            if (tryImmediatePressMatch(key, state)) {
+                state.downAt = null;
+                return true;
+            }
+
+            state.longPressTimers = forKey(key, 'longPress').map(binding =>
+                scheduler.setTimeout(() => {
+                    state.longPressFired = true;
+                    fire(state, binding);
+                }, binding.pattern.durationMs));
+            return true;
+        },
+
+        keyUp(key: string, time: number) {
+            const state = states.get(key.toLowerCase());
+            if (!state || state.downAt === null) return;
+
+            state.longPressTimers.forEach(scheduler.clearTimeout);
+            state.longPressTimers = [];
+            const duration = time - state.downAt;
+            state.downAt = null;
+
+            // A press that already triggered a long-press gesture doesn't also count as a press.
+            if (state.longPressFired) return;
+            state.durations.push(duration);
+            scheduleSettle(key, state, time);
+        },
+
+        reset() {
+            states.forEach(resetKey);
+            states.clear();
+        },
+    };
+};
+
+export type GestureRecognizer = ReturnType<typeof createGestureRecognizer>;
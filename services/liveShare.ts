@@ -0,0 +1,168 @@
+import { readJson, writeJson } from './storage';
+import { CreateSessionRequest, LiveSession, PositionUpdate, PublisherMessage, RelayMessage } from './liveShareProtocol';
+
+// Client side of the live location relay. A transport publishes position updates
+// for one relay session; callers pick the channel that works on their network.
+
+export type TransportKind = 'websocket' | 'http';
+
+export interface LiveShareTransport {
+    publish(position: PositionUpdate): void;
+    close(): void;
+}
+
+export type LiveShareSettings = {
+    relayUrl: string;
+    transport: TransportKind;
+};
+
+const SETTINGS_KEY = 'live-share';
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+const HTTP_RETRY_DELAY_MS = 5 * 1000;
+
+export const loadLiveShareSettings = () => readJson<LiveShareSettings>(SETTINGS_KEY, {
+    relayUrl: process.env.LIVE_RELAY_URL || '',
+    transport: 'websocket',
+});
+export const saveLiveShareSettings = (settings: LiveShareSettings) => writeJson(SETTINGS_KEY, settings);
+
+const relayEndpoint = (relayUrl: string, path: string) => `${relayUrl.replace(/\/+$/, '')}${path}`;
+
+const isSessionGone = (status: number) => status === 401 || status === 404;
+
+export const createLiveSession = async (relayUrl: string, expiresAt: number | null): Promise<LiveSession> => {
+    const body: CreateSessionRequest = { expiresAt };
+    const res = await fetch(relayEndpoint(relayUrl, '/sessions'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error(`Relay refused the session (${res.status})`);
+    return res.json();
+};
+
+// The relay answers 401 (or 404) once the session has expired or ended, which is the
+// outcome wanted here; anything else that isn't a success leaves the viewer link live.
+export const endLiveSession = async (relayUrl: string, session: LiveSession) => {
+    const res = await fetch(relayEndpoint(relayUrl, `/sessions/${session.sessionId}`), {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${session.publishToken}` },
+    });
+    if (!res.ok && !isSessionGone(res.status)) throw new Error(`Relay did not end the session (${res.status})`);
+};
+
+export const toPositionUpdate = (position: GeolocationPosition): PositionUpdate => ({
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: position.coords.accuracy,
+    speed: position.coords.speed,
+    heading: position.coords.heading,
+    timestamp: position.timestamp,
+});
+
+// Keeps one socket open and reconnects with exponential backoff. Only the latest
+// fix is kept while disconnected; stale positions are not worth replaying.
+const createWebSocketTransport = (relayUrl: string, session: LiveSession): LiveShareTransport => {
+    const wsUrl = relayEndpoint(relayUrl.replace(/^http/, 'ws'), `/ws?token=${encodeURIComponent(session.publishToken)}`);
+    let socket: WebSocket | null = null;
+    let pending: PositionUpdate | null = null;
+    let closed = false;
+    let attempt = 0;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+        if (pending && socket?.readyState === WebSocket.OPEN) {
+            const message: PublisherMessage = { type: 'position', position: pending };
+            socket.send(JSON.stringify(message));
+            pending = null;
+        }
+    };
+
+    const connect = () => {
+        socket = new WebSocket(wsUrl);
+        socket.onopen = () => {
+            attempt = 0;
+            flush();
+        };
+        // Once the relay has ended the session there is nothing left to reconnect to.
+        socket.onmessage = (event: MessageEvent) => {
+            try {
+                if ((JSON.parse(event.data) as RelayMessage).type === 'ended') closed = true;
+            } catch {
+                // Not a relay message; ignore it.
+            }
+        };
+        socket.onclose = () => {
+            if (closed || Date.now() >= session.expiresAt) return;
+            const delay = Math.min(1000 * 2 ** attempt++, MAX_RECONNECT_DELAY_MS);
+            reconnectTimeout = setTimeout(connect, delay);
+        };
+    };
+    connect();
+
+    return {
+        publish(position) {
+            pending = position;
+            flush();
+        },
+        close() {
+            closed = true;
+            if (reconnectTimeout) clearTimeout(reconnectTimeout);
+            socket?.close();
+        },
+    };
+};
+
+// Plain HTTP POST per fix, for networks that block WebSockets. Recipients poll the
+// relay for updates. Requests never overlap; a fix arriving mid-request replaces
+// the one waiting to be sent. Once the relay no longer knows the session (it expired
+// or was ended), the transport stops, as the WebSocket one does on 'ended'.
+const createHttpTransport = (relayUrl: string, session: LiveSession): LiveShareTransport => {
+    const endpoint = relayEndpoint(relayUrl, `/sessions/${session.sessionId}/positions`);
+    let pending: PositionUpdate | null = null;
+    let inFlight = false;
+    let closed = false;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = async () => {
+        if (inFlight || closed || !pending) return;
+        const position = pending;
+        pending = null;
+        inFlight = true;
+        try {
+            const res = await fetch(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.publishToken}` },
+                body: JSON.stringify(position),
+            });
+            inFlight = false;
+            if (isSessionGone(res.status)) {
+                closed = true;
+                return;
+            }
+            if (res.status >= 500) throw new Error(`Relay responded ${res.status}`);
+            // Any other refusal is about this fix, so it is dropped rather than retried.
+            if (!res.ok) console.error(`Live share relay rejected a position (${res.status})`);
+            flush();
+        } catch (err) {
+            console.error('Live share publish failed:', err);
+            pending = pending || position;
+            inFlight = false;
+            retryTimeout = setTimeout(flush, HTTP_RETRY_DELAY_MS);
+        }
+    };
+
+    return {
+        publish(position) {
+            pending = position;
+            flush();
+        },
+        close() {
+            closed = true;
+            if (retryTimeout) clearTimeout(retryTimeout);
+        },
+    };
+};
+
+export const createTransport = (kind: TransportKind, relayUrl: string, session: LiveSession): LiveShareTransport =>
+    kind === 'http' ? createHttpTransport(relayUrl, session) : createWebSocketTransport(relayUrl, session);
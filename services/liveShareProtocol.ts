@@ -0,0 +1,56 @@
+// Wire protocol shared by the app and the reference relay in server/relay.ts.
+//
+//   POST   /sessions                        create a session  -> LiveSession
+//   POST   /sessions/:id/positions          publish a fix     (Bearer publish token)
+//   GET    /sessions/:id/positions?since=N  poll for fixes    (?token= view token) -> PollResponse
+//   DELETE /sessions/:id                    end the session   (Bearer publish token)
+//   WS     /ws?token=...                    publish (publish token) or subscribe (view token)
+//   GET    /view/:id?token=...              browser page for recipients
+
+export type PositionUpdate = {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    speed: number | null;
+    heading: number | null;
+    timestamp: number;
+};
+
+export type CreateSessionRequest = {
+    expiresAt: number | null; // null means "until stopped", capped at MAX_SESSION_MS
+};
+
+export type LiveSession = {
+    sessionId: string;
+    publishToken: string;
+    viewToken: string;
+    expiresAt: number;
+    viewUrl: string;
+};
+
+export type SequencedPosition = { seq: number; position: PositionUpdate };
+
+export type PollResponse = {
+    positions: SequencedPosition[];
+    expiresAt: number;
+    ended: boolean;
+};
+
+// Messages sent by the publishing app over the WebSocket.
+export type PublisherMessage = { type: 'position'; position: PositionUpdate };
+
+// Messages pushed by the relay to WebSocket clients.
+export type RelayMessage =
+    | ({ type: 'position' } & SequencedPosition)
+    | { type: 'ended' }
+    | { type: 'error'; message: string };
+
+export type TokenRole = 'publish' | 'view';
+
+export const MAX_SESSION_MS = 24 * 60 * 60 * 1000;
+
+export const isPositionUpdate = (value: unknown): value is PositionUpdate => {
+    const p = value as PositionUpdate;
+    return !!p && typeof p.latitude === 'number' && typeof p.longitude === 'number' &&
+        Math.abs(p.latitude) <= 90 && Math.abs(p.longitude) <= 180 && typeof p.timestamp === 'number';
+};
@@ -0,0 +1,108 @@
+import { readJson, writeJson } from './storage';
+import { distanceMeters } from './geo';
+
+export type TrackPoint = {
+    latitude: number;
+    longitude: number;
+    accuracy: number;
+    altitude: number | null;
+    speed: number | null; // m/s
+    heading: number | null; // degrees clockwise from north
+    timestamp: number;
+};
+
+const TRACK_KEY = 'location-track';
+const MAX_TRACK_POINTS = 5000;
+// A fix that hasn't moved beyond the GPS error of the previous one is jitter, unless
+// enough time has passed that "still here" is itself worth recording.
+const MIN_MOVEMENT_M = 3;
+const MAX_JITTER_M = 25;
+const HEARTBEAT_MS = 60 * 1000;
+
+export const loadTrack = () => readJson<TrackPoint[]>(TRACK_KEY, []);
+export const saveTrack = (track: TrackPoint[]) => writeJson(TRACK_KEY, track);
+
+export const toTrackPoint = (position: GeolocationPosition): TrackPoint => ({
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: position.coords.accuracy,
+    altitude: position.coords.altitude,
+    speed: position.coords.speed,
+    heading: position.coords.heading,
+    timestamp: position.timestamp,
+});
+
+export const appendTrackPoint = (track: TrackPoint[], point: TrackPoint) => {
+    const last = track[track.length - 1];
+    if (last && point.timestamp - last.timestamp < HEARTBEAT_MS) {
+        const jitter = Math.max(MIN_MOVEMENT_M, Math.min(last.accuracy, point.accuracy, MAX_JITTER_M));
+        if (distanceMeters(last, point) < jitter) return track;
+    }
+    const next = [...track, point];
+    return next.length > MAX_TRACK_POINTS ? next.slice(next.length - MAX_TRACK_POINTS) : next;
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// GPX 1.1 only allows foreign elements in <extensions>. Speed and course use Garmin's
+// TrackPointExtension, which most tools read; accuracy has no common home, so it goes in
+// our own namespace.
+const GARMIN_TPX_NS = 'http://www.garmin.com/xmlschemas/TrackPointExtension/v2';
+const GUARDIAN_NS = 'urn:guardian-angel:gpx:1';
+
+export const trackToGpx = (track: TrackPoint[], name: string) => {
+    const points = track.map(p => [
+        `      <trkpt lat="${p.latitude}" lon="${p.longitude}">`,
+        p.altitude !== null ? `        <ele>${p.altitude}</ele>` : null,
+        `        <time>${new Date(p.timestamp).toISOString()}</time>`,
+        '        <extensions>',
+        p.speed !== null || p.heading !== null ? '          <gpxtpx:TrackPointExtension>' : null,
+        p.speed !== null ? `            <gpxtpx:speed>${p.speed}</gpxtpx:speed>` : null,
+        p.heading !== null ? `            <gpxtpx:course>${p.heading}</gpxtpx:course>` : null,
+        p.speed !== null || p.heading !== null ? '          </gpxtpx:TrackPointExtension>' : null,
+        `          <ga:accuracy>${p.accuracy}</ga:accuracy>`,
+        '        </extensions>',
+        '      </trkpt>',
+    ].filter(Boolean).join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<gpx version="1.1" creator="Guardian Angel" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="${GARMIN_TPX_NS}" xmlns:ga="${GUARDIAN_NS}">`,
+        '  <trk>',
+        `    <name>${escapeXml(name)}</name>`,
+        '    <trkseg>',
+        ...points,
+        '    </trkseg>',
+        '  </trk>',
+        '</gpx>',
+    ].join('\n');
+};
+
+export const trackToGeoJson = (track: TrackPoint[], name: string) => JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+        {
+            type: 'Feature',
+            properties: {
+                name,
+                startTime: track.length ? new Date(track[0].timestamp).toISOString() : null,
+                endTime: track.length ? new Date(track[track.length - 1].timestamp).toISOString() : null,
+            },
+            geometry: {
+                type: 'LineString',
+                coordinates: track.map(p => p.altitude !== null ? [p.longitude, p.latitude, p.altitude] : [p.longitude, p.latitude]),
+            },
+        },
+        ...track.map(p => ({
+            type: 'Feature',
+            properties: {
+                time: new Date(p.timestamp).toISOString(),
+                accuracy: p.accuracy,
+                speed: p.speed,
+                heading: p.heading,
+            },
+            geometry: { type: 'Point', coordinates: [p.longitude, p.latitude] },
+        })),
+    ],
+}, null, 2);
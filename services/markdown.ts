@@ -0,0 +1,130 @@
+// A small markdown parser for assistant output. It produces a tree of plain data that
+// the UI turns into React elements, so model output never reaches the DOM as HTML:
+// raw tags show up as literal text and only http(s), mailto and tel links survive.
+//
+// Supported: ATX headings, paragraphs, bullet and numbered lists, block quotes, fenced
+// code, horizontal rules, **bold**, *italic*, `code` and [links](url).
+
+export type MarkdownInline =
+    | { kind: 'text'; text: string }
+    | { kind: 'strong'; children: MarkdownInline[] }
+    | { kind: 'em'; children: MarkdownInline[] }
+    | { kind: 'code'; text: string }
+    | { kind: 'link'; href: string; children: MarkdownInline[] }
+    | { kind: 'break' };
+
+export type MarkdownBlock =
+    | { kind: 'heading'; level: number; children: MarkdownInline[] }
+    | { kind: 'paragraph'; children: MarkdownInline[] }
+    | { kind: 'list'; ordered: boolean; items: MarkdownInline[][] }
+    | { kind: 'quote'; children: MarkdownInline[] }
+    | { kind: 'code'; text: string }
+    | { kind: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// Returns the URL if it is safe to open, null otherwise (javascript:, data:, relative paths...).
+export const safeHref = (href: string) => {
+    try {
+        const url = new URL(href.trim());
+        return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+    } catch {
+        return null;
+    }
+};
+
+// Underscores only mark bold (__x__), so snake_case words and file names stay intact.
+const INLINE_PATTERN = /(?<strongMark>\*\*|__)(?<strong>.+?)\k<strongMark>|\*(?!\s)(?<em>.+?)(?<!\s)\*|`(?<code>[^`]+)`|\[(?<linkText>[^\]]+)\]\((?<linkHref>[^)\s]+)\)|(?<bareUrl>https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+    const result: MarkdownInline[] = [];
+    let rest = text;
+    while (rest) {
+        const match = INLINE_PATTERN.exec(rest);
+        if (!match) {
+            result.push({ kind: 'text', text: rest });
+            break;
+        }
+        if (match.index > 0) result.push({ kind: 'text', text: rest.slice(0, match.index) });
+        const whole = match[0];
+        const { strong, em, code, linkText, linkHref, bareUrl } = match.groups!;
+        if (strong !== undefined) {
+            result.push({ kind: 'strong', children: parseInline(strong) });
+        } else if (em !== undefined) {
+            result.push({ kind: 'em', children: parseInline(em) });
+        } else if (code !== undefined) {
+            result.push({ kind: 'code', text: code });
+        } else if (linkText !== undefined) {
+            const href = safeHref(linkHref);
+            const children = parseInline(linkText);
+            result.push(...(href ? [{ kind: 'link' as const, href, children }] : children));
+        } else if (bareUrl !== undefined) {
+            const href = safeHref(bareUrl);
+            result.push(href ? { kind: 'link', href, children: [{ kind: 'text', text: bareUrl }] } : { kind: 'text', text: bareUrl });
+        }
+        rest = rest.slice(match.index + whole.length);
+    }
+    return result;
+};
+
+// Joins wrapped lines of one paragraph, keeping explicit line breaks.
+const parseLines = (lines: string[]) =>
+    lines.flatMap((line, i): MarkdownInline[] => i === 0 ? parseInline(line) : [{ kind: 'break' }, ...parseInline(line)]);
+
+const BULLET = /^\s*[-*+•]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const heading = /^(#{1,6})\s+(.*?)\s*#*$/.exec(line);
+
+        if (!line.trim()) {
+            i++;
+        } else if (/^\s*```/.test(line)) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i++]);
+            i++; // closing fence; an unclosed block (e.g. mid-stream) runs to the end
+            blocks.push({ kind: 'code', text: code.join('\n') });
+        } else if (heading) {
+            blocks.push({ kind: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+        } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            blocks.push({ kind: 'rule' });
+            i++;
+        } else if (BULLET.test(line) || NUMBERED.test(line)) {
+            const ordered = !BULLET.test(line);
+            const pattern = ordered ? NUMBERED : BULLET;
+            const items: MarkdownInline[][] = [];
+            while (i < lines.length && lines[i].trim()) {
+                const item = pattern.exec(lines[i]);
+                if (item) {
+                    items.push(parseInline(item[1]));
+                } else if (items.length > 0 && /^\s+/.test(lines[i])) {
+                    // An indented continuation line belongs to the previous item.
+                    items[items.length - 1].push({ kind: 'text', text: ' ' }, ...parseInline(lines[i].trim()));
+                } else {
+                    break;
+                }
+                i++;
+            }
+            blocks.push({ kind: 'list', ordered, items });
+        } else if (/^\s*>/.test(line)) {
+            const quote: string[] = [];
+            while (i < lines.length && /^\s*>/.test(lines[i])) quote.push(lines[i++].replace(/^\s*>\s?/, ''));
+            blocks.push({ kind: 'quote', children: parseLines(quote) });
+        } else {
+            const paragraph: string[] = [];
+            while (i < lines.length && lines[i].trim() && !/^(#{1,6}\s|\s*```|\s*>)/.test(lines[i]) && !BULLET.test(lines[i]) && !NUMBERED.test(lines[i])) {
+                paragraph.push(lines[i++]);
+            }
+            blocks.push({ kind: 'paragraph', children: parseLines(paragraph) });
+        }
+    }
+    return blocks;
+};
@@ -0,0 +1,104 @@
+import { LatLng, bearingDegrees, distanceMeters } from './geo';
+
+// "Find Help Nearby" asks the assistant for places as JSON constrained by a schema, then
+// checks every entry itself: a place without usable coordinates can't be shown or navigated to.
+
+export type HelpPlaceType = 'police' | 'hospital' | 'government' | 'transport' | 'shelter' | 'other';
+
+export type HelpPlace = {
+    name: string;
+    type: HelpPlaceType;
+    address: string;
+    latitude: number;
+    longitude: number;
+    phone: string; // empty when unknown
+    hours: string; // empty when unknown
+};
+
+export type NearbyPlace = HelpPlace & { distance: number; bearing: number };
+
+export type NearbySort = 'distance' | 'name' | 'type';
+
+export const HELP_PLACE_TYPES: { [key in HelpPlaceType]: { label: string; icon: string } } = {
+    police: { label: 'Police', icon: 'fa-building-shield' },
+    hospital: { label: 'Hospital', icon: 'fa-hospital' },
+    government: { label: 'Help office', icon: 'fa-landmark' },
+    transport: { label: 'Transport', icon: 'fa-bus' },
+    shelter: { label: 'Shelter', icon: 'fa-house-chimney' },
+    other: { label: 'Other', icon: 'fa-location-dot' },
+};
+
+// Plain JSON Schema, understood by Gemini and by OpenAI-compatible servers alike. Every
+// field is required (strict mode demands it); unknown phone numbers and hours come back empty.
+export const HELP_PLACES_SCHEMA = {
+    type: 'object',
+    properties: {
+        places: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    type: { type: 'string', enum: Object.keys(HELP_PLACE_TYPES) },
+                    address: { type: 'string' },
+                    latitude: { type: 'number' },
+                    longitude: { type: 'number' },
+                    phone: { type: 'string' },
+                    hours: { type: 'string' },
+                },
+                required: ['name', 'type', 'address', 'latitude', 'longitude', 'phone', 'hours'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['places'],
+    additionalProperties: false,
+};
+
+export const helpPlacesPrompt = (origin: LatLng) =>
+    `List up to 10 real police stations, hospitals, government help offices, shelters and public transport stops ` +
+    `nearest to latitude ${origin.latitude} and longitude ${origin.longitude}. Give each one's name, type, street ` +
+    `address, coordinates, phone number and opening hours. Use an empty string for a phone number or opening hours ` +
+    `you are not sure of, and leave out any place whose location you don't know.`;
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+// Throws on a reply that isn't JSON at all, so the request is retried like any other failure.
+export const parseHelpPlaces = (reply: string): HelpPlace[] => {
+    const json = JSON.parse(reply.replace(/^\s*```(?:json)?|```\s*$/g, ''));
+    const entries: unknown[] = Array.isArray(json) ? json : Array.isArray(json?.places) ? json.places : [];
+    return entries.flatMap((entry): HelpPlace[] => {
+        const place = entry as { [key: string]: unknown } | null;
+        if (!place || !text(place.name) || !isCoordinate(place.latitude, 90) || !isCoordinate(place.longitude, 180)) return [];
+        return [{
+            name: text(place.name),
+            type: typeof place.type === 'string' && place.type in HELP_PLACE_TYPES ? place.type as HelpPlaceType : 'other',
+            address: text(place.address),
+            latitude: place.latitude,
+            longitude: place.longitude,
+            phone: text(place.phone),
+            hours: text(place.hours),
+        }];
+    });
+};
+
+export const measurePlaces = (places: HelpPlace[], origin: LatLng): NearbyPlace[] =>
+    places.map(place => ({ ...place, distance: distanceMeters(origin, place), bearing: bearingDegrees(origin, place) }));
+
+export const sortPlaces = (places: NearbyPlace[], sort: NearbySort) => [...places].sort((a, b) => {
+    if (sort === 'name') return a.name.localeCompare(b.name);
+    if (sort === 'type' && a.type !== b.type) return HELP_PLACE_TYPES[a.type].label.localeCompare(HELP_PLACE_TYPES[b.type].label);
+    return a.distance - b.distance;
+});
+
+// Keeps the digits and a leading plus, so "+1 (555) 010-0199" still dials.
+export const phoneHref = (phone: string) => {
+    const number = phone.replace(/(?!^\+)[^\d]/g, '');
+    return number.replace('+', '').length >= 3 ? `tel:${number}` : null;
+};
+
+export const directionsUrl = (place: LatLng) =>
+    `https://www.google.com/maps/dir/?api=1&destination=${place.latitude},${place.longitude}&travelmode=walking`;
@@ -0,0 +1,85 @@
+import { LatLng } from './geo';
+
+// Map tiles for offline use live in a Cache Storage bucket that the service worker
+// (public/sw.js) serves from before going to the network. Keep the names in sync.
+export const TILE_URL_TEMPLATE = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+export const TILE_CACHE = 'map-tiles-v1';
+
+// The OpenStreetMap tile policy forbids bulk downloading, so an area is capped at a
+// few hundred tiles; zoom levels are dropped from the top until it fits.
+export const MAX_OFFLINE_TILES = 500;
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 17;
+
+type Tile = { z: number; x: number; y: number };
+
+const tileUrl = ({ z, x, y }: Tile) =>
+    TILE_URL_TEMPLATE.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+const lonToTileX = (lon: number, z: number) => Math.floor((lon + 180) / 360 * 2 ** z);
+const latToTileY = (lat: number, z: number) => {
+    const rad = lat * Math.PI / 180;
+    return Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * 2 ** z);
+};
+
+const tilesAtZoom = (center: LatLng, radiusMeters: number, z: number): Tile[] => {
+    const dLat = radiusMeters / 111320;
+    const dLon = radiusMeters / (111320 * Math.cos(center.latitude * Math.PI / 180));
+    const minX = lonToTileX(center.longitude - dLon, z);
+    const maxX = lonToTileX(center.longitude + dLon, z);
+    const minY = latToTileY(center.latitude + dLat, z);
+    const maxY = latToTileY(center.latitude - dLat, z);
+    const tiles: Tile[] = [];
+    for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+            tiles.push({ z, x, y });
+        }
+    }
+    return tiles;
+};
+
+export const tilesForArea = (center: LatLng, radiusMeters: number) => {
+    for (let maxZoom = MAX_ZOOM; maxZoom >= MIN_ZOOM; maxZoom--) {
+        const tiles: Tile[] = [];
+        for (let z = MIN_ZOOM; z <= maxZoom; z++) {
+            tiles.push(...tilesAtZoom(center, radiusMeters, z));
+        }
+        if (tiles.length <= MAX_OFFLINE_TILES) return { tiles, maxZoom };
+    }
+    return { tiles: tilesAtZoom(center, radiusMeters, MIN_ZOOM).slice(0, MAX_OFFLINE_TILES), maxZoom: MIN_ZOOM };
+};
+
+// Downloads tiles one at a time (to stay polite to the tile server), skipping any
+// already cached. Resolves with the number of tiles now available offline.
+export const downloadTiles = async (center: LatLng, radiusMeters: number, onProgress: (done: number, total: number) => void) => {
+    const { tiles } = tilesForArea(center, radiusMeters);
+    const cache = await caches.open(TILE_CACHE);
+    let available = 0;
+    for (let i = 0; i < tiles.length; i++) {
+        const url = tileUrl(tiles[i]);
+        if (await cache.match(url)) {
+            available++;
+        } else {
+            try {
+                const response = await fetch(url, { mode: 'cors' });
+                if (response.ok) {
+                    await cache.put(url, response);
+                    available++;
+                }
+            } catch (err) {
+                console.error('Tile download failed:', url, err);
+            }
+        }
+        onProgress(i + 1, tiles.length);
+    }
+    return available;
+};
+
+export const countCachedTiles = async () => {
+    if (!('caches' in window)) return 0;
+    const cache = await caches.open(TILE_CACHE);
+    return (await cache.keys()).length;
+};
+
+export const clearCachedTiles = () => caches.delete(TILE_CACHE);
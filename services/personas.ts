@@ -0,0 +1,105 @@
+import { readJson, writeJson, createId } from './storage';
+
+// Fake call personas: who appears to be calling and what they say once answered.
+
+export type CallerPersona = {
+    id: string;
+    name: string;
+    photo: string | null; // small JPEG data URL
+    voiceURI: string | null; // SpeechSynthesisVoice.voiceURI; null uses the first English voice
+    rate: number; // 0.5 .. 2
+    pitch: number; // 0 .. 2
+    script: string; // call script source, see callScript.ts
+};
+
+export type PersonaFields = Omit<CallerPersona, 'id'>;
+
+const PERSONAS_KEY = 'caller-personas';
+const PHOTO_SIZE = 240;
+
+export const DEFAULT_PERSONAS: CallerPersona[] = [
+    {
+        id: 'default-mom', name: 'Mom', photo: null, voiceURI: null, rate: 1, pitch: 1.1,
+        script: [
+            "Hi, where are you right now?",
+            "? I'm five minutes away -> close",
+            "? Can you come and get me? -> pickup",
+            '# close',
+            "Okay, I'll wait up for you. Stay on the phone until you're in.",
+            "Are you nearly there?",
+            "Good. See you in a minute.",
+            '# pickup',
+            "Of course. I'm leaving right now, stay where you are.",
+            "Keep talking to me until I get there.",
+            "I'm just turning onto your street.",
+        ].join('\n'),
+    },
+    {
+        id: 'default-dad', name: 'Dad', photo: null, voiceURI: null, rate: 0.95, pitch: 0.85,
+        script: "Hey, I'm outside, which entrance are you at?\nRight, I'll pull round to that side.\nI can see the sign now.\nCome out when you're ready.",
+    },
+    {
+        id: 'default-friend', name: 'Sam', photo: null, voiceURI: null, rate: 1.1, pitch: 1,
+        script: "Hey! Are you still coming over?\nWe're all waiting for you.\nI'll come down and meet you at the corner.\nText me when you're two minutes away.",
+    },
+    {
+        id: 'default-work', name: 'Work', photo: null, voiceURI: null, rate: 1, pitch: 0.95,
+        script: "Hi, sorry to call so late.\nSomething's come up and I need you on a call in ten minutes.\nCan you get somewhere quiet?\nGreat, I'll send the details now.",
+    },
+];
+
+export const loadPersonas = () => readJson<CallerPersona[]>(PERSONAS_KEY, DEFAULT_PERSONAS);
+export const savePersonas = (personas: CallerPersona[]) => writeJson(PERSONAS_KEY, personas);
+
+export const createPersona = (fields: PersonaFields): CallerPersona => ({ id: createId(), ...fields });
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Accepts an exported file (or a single persona) and returns valid personas with fresh ids,
+// so importing the same file twice never overwrites or duplicates ids.
+export const parsePersonas = (json: string): CallerPersona[] => {
+    const data = JSON.parse(json) as unknown;
+    const items = Array.isArray(data) ? data : [data];
+    const personas = items.flatMap((item): CallerPersona[] => {
+        if (!item || typeof item !== 'object') return [];
+        const p = item as { [key: string]: unknown };
+        if (typeof p.name !== 'string' || !p.name.trim() || typeof p.script !== 'string') return [];
+        return [createPersona({
+            name: p.name.trim(),
+            photo: typeof p.photo === 'string' && p.photo.startsWith('data:image/') ? p.photo : null,
+            voiceURI: typeof p.voiceURI === 'string' ? p.voiceURI : null,
+            rate: clamp(p.rate, 0.5, 2, 1),
+            pitch: clamp(p.pitch, 0, 2, 1),
+            script: p.script,
+        })];
+    });
+    if (personas.length === 0) throw new Error('No valid personas found in file');
+    return personas;
+};
+
+export const exportPersonas = (personas: CallerPersona[]) =>
+    new Blob([JSON.stringify(personas.map(({ id, ...fields }) => fields), null, 2)], { type: 'application/json' });
+
+// Shrinks a chosen photo to a square thumbnail so personas stay small enough for localStorage.
+export const readPersonaPhoto = (file: File) => new Promise<string>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = PHOTO_SIZE;
+        canvas.height = PHOTO_SIZE;
+        const side = Math.min(image.width, image.height);
+        canvas.getContext('2d')!.drawImage(image, (image.width - side) / 2, (image.height - side) / 2, side, side, 0, 0, PHOTO_SIZE, PHOTO_SIZE);
+        URL.revokeObjectURL(url);
+        resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('Could not read image'));
+    };
+    image.src = url;
+});
+
+export const findVoice = (voices: SpeechSynthesisVoice[], voiceURI: string | null) =>
+    voices.find(v => v.voiceURI === voiceURI) || voices.find(v => v.lang.startsWith('en')) || null;
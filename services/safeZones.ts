@@ -0,0 +1,87 @@
+import { readJson, writeJson, createId } from './storage';
+import { LatLng, distanceMeters } from './geo';
+
+export type ZoneShape =
+    | { type: 'circle'; center: LatLng; radius: number }
+    | { type: 'polygon'; points: LatLng[] };
+
+export type SafeZone = {
+    id: string;
+    name: string;
+    shape: ZoneShape;
+    alertOnNightExit: boolean;
+};
+
+export type ZoneEvent = {
+    zoneId: string;
+    zoneName: string;
+    type: 'enter' | 'exit';
+    timestamp: number;
+    location: LatLng;
+};
+
+const ZONES_KEY = 'safe-zones';
+const EVENTS_KEY = 'safe-zone-events';
+const MAX_EVENTS = 200;
+
+export const NIGHT_START_HOUR = 21;
+export const NIGHT_END_HOUR = 6;
+
+export const loadSafeZones = () => readJson<SafeZone[]>(ZONES_KEY, []);
+export const saveSafeZones = (zones: SafeZone[]) => writeJson(ZONES_KEY, zones);
+
+export const loadZoneEvents = () => readJson<ZoneEvent[]>(EVENTS_KEY, []);
+export const saveZoneEvents = (events: ZoneEvent[]) => writeJson(EVENTS_KEY, events.slice(-MAX_EVENTS));
+
+export const createSafeZone = (name: string, shape: ZoneShape): SafeZone => ({
+    id: createId(),
+    name,
+    shape,
+    alertOnNightExit: true,
+});
+
+// Ray casting; zones are small enough that treating lat/lng as planar is fine.
+const polygonContains = (points: LatLng[], p: LatLng) => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i];
+        const b = points[j];
+        if ((a.latitude > p.latitude) !== (b.latitude > p.latitude) &&
+            p.longitude < (b.longitude - a.longitude) * (p.latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+export const zoneContains = (zone: SafeZone, point: LatLng) =>
+    zone.shape.type === 'circle'
+        ? distanceMeters(zone.shape.center, point) <= zone.shape.radius
+        : zone.shape.points.length >= 3 && polygonContains(zone.shape.points, point);
+
+// Compares the zones containing `point` with the previously known set. Pass
+// `previous = null` for the first fix, which establishes state without events.
+export const detectZoneTransitions = (zones: SafeZone[], previous: string[] | null, point: LatLng, timestamp: number) => {
+    const inside = zones.filter(z => zoneContains(z, point)).map(z => z.id);
+    if (previous === null) return { inside, events: [] as ZoneEvent[] };
+
+    const events: ZoneEvent[] = [];
+    zones.forEach(zone => {
+        const wasInside = previous.includes(zone.id);
+        const isInside = inside.includes(zone.id);
+        if (wasInside !== isInside) {
+            events.push({ zoneId: zone.id, zoneName: zone.name, type: isInside ? 'enter' : 'exit', timestamp, location: point });
+        }
+    });
+    return { inside, events };
+};
+
+export const isNight = (date: Date) => {
+    const hour = date.getHours();
+    return hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR;
+};
+
+// Leaving a zone at night is the case worth interrupting the user about.
+export const isUnexpectedExit = (event: ZoneEvent, zones: SafeZone[]) =>
+    event.type === 'exit' && isNight(new Date(event.timestamp)) &&
+    !!zones.find(z => z.id === event.zoneId)?.alertOnNightExit;
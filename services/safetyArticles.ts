@@ -0,0 +1,210 @@
+// The offline safety library: short, practical guidance bundled with the app so it is
+// there without a signal. Bodies are markdown and go through the same safe renderer as
+// assistant answers. Phone numbers change, so articles that list them say to check locally.
+
+export type SafetyArticle = {
+    id: string;
+    title: string;
+    tags: string[];
+    summary: string;
+    body: string;
+};
+
+export const SAFETY_ARTICLES: SafetyArticle[] = [
+    {
+        id: 'awareness',
+        title: 'Staying aware when you are out alone',
+        tags: ['self-defense', 'prevention'],
+        summary: 'Habits that make you a harder target and give you time to react.',
+        body: `- Keep your head up and scan around you. Take earphones out or keep the volume low in quiet places.
+- Walk with purpose on busy, well-lit routes, even if they are longer.
+- Have your keys or phone ready before you reach your door or car.
+- Trust the feeling that something is wrong. Cross the street, turn around or walk into a shop. You don't owe anyone politeness.
+- Tell someone your route and when you expect to arrive, or start a **Check-In Timer** in this app.`,
+    },
+    {
+        id: 'voice-and-distance',
+        title: 'Using your voice and creating distance',
+        tags: ['self-defense'],
+        summary: 'Setting a loud, clear boundary is often enough to end a confrontation.',
+        body: `- Stand side-on with your hands up and open in front of you. This protects your face and looks calm to witnesses.
+- Shout short commands: **"Back off!"**, **"Stay away from me!"**. Loud words get attention and show you won't be an easy target.
+- Name what is happening so bystanders understand: "I don't know this man!"
+- Keep an arm's length or more between you. Every step back gives you time.
+- Your goal is to get away, not to win. Move toward people, light and open doors.`,
+    },
+    {
+        id: 'wrist-grab',
+        title: 'Escaping a wrist grab',
+        tags: ['self-defense'],
+        summary: 'Break the grip at its weakest point, the thumb, and get away.',
+        body: `1. Don't pull straight back against the strongest part of the grip.
+2. Make a fist and turn your wrist toward the attacker's **thumb**, where their fingers and thumb meet.
+3. Pull sharply out through that gap, bending your elbow toward their forearm for leverage.
+4. If they use both hands, reach between their arms with your free hand, grab your own fist and pull up and out through the thumbs.
+5. As soon as you are free, shout and run toward people.`,
+    },
+    {
+        id: 'grabbed-from-behind',
+        title: 'If someone grabs you from behind',
+        tags: ['self-defense'],
+        summary: 'Drop your weight, protect your airway and target what is within reach.',
+        body: `- **Drop your weight**: bend your knees and lower your hips. It makes you much harder to lift or drag.
+- If an arm is around your neck, tuck your chin and pull down on the forearm with both hands to keep your airway open.
+- Stamp hard on the instep, or strike back with your elbow or head, then twist toward the gap in their arms.
+- Keep shouting. The moment the grip loosens, run to people and call emergency services.`,
+    },
+    {
+        id: 'followed-on-foot',
+        title: 'If you think you are being followed on foot',
+        tags: ['followed', 'prevention'],
+        summary: 'Test it, go somewhere public, and get help on the line.',
+        body: `1. Cross the street or change direction. If the person does the same more than once, treat it as real.
+2. Don't go home and don't head somewhere isolated. Go into a busy shop, cafe, petrol station, hotel lobby or anywhere with staff.
+3. Tell a member of staff you are being followed and ask them to call the police or let you wait.
+4. Call someone and stay on the phone. Tell them where you are and describe the person out loud.
+5. If you feel in danger, call emergency services. You can also press **SOS** in this app to record and share your location.`,
+    },
+    {
+        id: 'followed-driving',
+        title: 'If you think a car is following you',
+        tags: ['followed', 'transport'],
+        summary: 'Keep moving, stay in public, and lead them to help, not home.',
+        body: `- Make four right or left turns in a row. A car that stays with you is following you.
+- Don't drive home and don't stop somewhere quiet. Keep your doors locked and windows up.
+- Call emergency services hands-free, give your location and direction, and describe the car and its number plate if you can see it.
+- Drive to a police station, fire station or a busy, well-lit place and stay in the car with the engine running.
+- If you are blocked in, lean on the horn to attract attention.`,
+    },
+    {
+        id: 'public-transport',
+        title: 'Staying safe on public transport and taxis',
+        tags: ['transport', 'prevention', 'followed'],
+        summary: 'Where to sit, how to check a ride, and when to get off.',
+        body: `- On buses and trains, sit near the driver or in a busy carriage, and near the exit.
+- If someone makes you uncomfortable, move seats or get off at the next busy stop. Tell staff or use the emergency help point.
+- For booked rides, check the number plate, car model and driver's name before you get in, and ask "Who are you here for?" instead of giving your name.
+- Sit in the back and share the trip with someone you trust, or use **Share Location** in this app.
+- Late at night, wait for transport in well-lit areas near other people or staff.`,
+    },
+    {
+        id: 'calling-emergency',
+        title: 'Calling emergency services',
+        tags: ['first-aid', 'emergency'],
+        summary: 'What to say so help reaches you quickly, and what to do if you cannot speak.',
+        body: `- **112** works from mobile phones in the EU and many other countries, and often redirects elsewhere. The US and Canada use **911**, the UK **999** (112 also works), Australia **000** and New Zealand **111**.
+- Say which service you need, then **where you are**. Use the coordinates shown in this app if you don't know the address.
+- Answer the questions and don't hang up until told to. They can help while you wait.
+- If you can't talk safely, stay on the line and listen. In the UK, dial 999 and press **55** when prompted so the call is put through to police. In the US and some other countries you can text 911 where it is supported.`,
+    },
+    {
+        id: 'hands-only-cpr',
+        title: 'Hands-only CPR for an adult',
+        tags: ['first-aid', 'emergency'],
+        summary: 'If someone is unresponsive and not breathing normally, push hard and fast.',
+        body: `1. Check they are unresponsive: shout and tap their shoulders. Check for normal breathing for no more than 10 seconds.
+2. Call emergency services and put the phone on speaker. Send someone for a defibrillator (AED) if there is one nearby.
+3. Kneel beside them. Put the heel of one hand in the centre of the chest, the other hand on top, arms straight.
+4. Push down **5-6 cm** (about 2 inches) and let the chest come back up, **100-120 times a minute**. That is about the beat of "Stayin' Alive".
+5. Don't stop until help takes over, the AED tells you to, or they start breathing normally.
+6. When the AED arrives, switch it on and follow its spoken instructions.`,
+    },
+    {
+        id: 'severe-bleeding',
+        title: 'Stopping severe bleeding',
+        tags: ['first-aid', 'emergency'],
+        summary: 'Firm, direct pressure on the wound and don\'t let go.',
+        body: `1. Call emergency services.
+2. Press firmly and directly on the wound with a clean cloth, a piece of clothing or your gloved hand. Keep pressing.
+3. If blood soaks through, add more cloth on top. Don't lift it off to look.
+4. If something is stuck in the wound, leave it in and press around it.
+5. For life-threatening bleeding from an arm or leg that pressure doesn't control, a tourniquet can be applied 5-7 cm above the wound, never over a joint. Note the time it went on.
+6. Keep them lying down and warm until help arrives.`,
+    },
+    {
+        id: 'choking',
+        title: 'Choking adult',
+        tags: ['first-aid', 'emergency'],
+        summary: 'Encourage coughing, then back blows and abdominal thrusts.',
+        body: `1. If they can cough, speak or breathe, encourage them to keep coughing.
+2. If they can't, stand to the side and slightly behind, support their chest and lean them forward. Give up to **5 sharp back blows** between the shoulder blades with the heel of your hand.
+3. If that doesn't clear it, stand behind them, put a fist just above the belly button, grab it with your other hand and pull sharply **in and up** up to **5 times**.
+4. Keep alternating 5 back blows and 5 thrusts. Call emergency services if it doesn't clear.
+5. If they become unresponsive, lower them to the ground, call emergency services and start CPR.`,
+    },
+    {
+        id: 'recovery-position',
+        title: 'The recovery position',
+        tags: ['first-aid'],
+        summary: 'For someone who is unresponsive but breathing normally.',
+        body: `1. Kneel beside them. Place the arm nearest you at a right angle to their body, palm up.
+2. Bring their far arm across their chest and hold the back of that hand against their near cheek.
+3. Bend their far knee up, then pull on it to roll them toward you onto their side.
+4. Tilt their head back gently and lift the chin so the airway stays open.
+5. Call emergency services and keep checking their breathing. If it stops, start CPR.`,
+    },
+    {
+        id: 'burns',
+        title: 'Treating burns',
+        tags: ['first-aid'],
+        summary: 'Cool the burn with running water for 20 minutes.',
+        body: `- Cool the burn under cool or lukewarm running water for **20 minutes**. Don't use ice, butter or creams.
+- Remove jewellery and clothing near the burn unless it is stuck to the skin.
+- Cover it loosely with cling film or a clean plastic bag.
+- Get medical help for burns larger than the person's hand, on the face, hands, feet or genitals, or any burn that is deep, white or charred.
+- For chemical burns, brush off any powder and rinse with plenty of water. For electrical burns, make sure the power is off before touching them.`,
+    },
+    {
+        id: 'recognising-abuse',
+        title: 'Recognising domestic abuse',
+        tags: ['domestic-violence'],
+        summary: 'Abuse is not only physical. Control, threats and isolation count too.',
+        body: `Domestic abuse is a pattern of behaviour used to control a partner, ex-partner or family member. It can include:
+
+- Hitting, pushing, choking or restraining you, or threatening to.
+- Controlling your money, phone, who you see or where you go.
+- Constant criticism, humiliation, jealousy or accusations.
+- Forcing or pressuring you into sexual acts.
+- Threatening to hurt themselves, your children or pets, or to take the children away.
+
+**Strangulation or choking is a serious warning sign** of future lethal violence, even when there are no marks. It is not your fault, and you deserve to be safe.`,
+    },
+    {
+        id: 'safety-plan',
+        title: 'Making a safety plan',
+        tags: ['domestic-violence', 'prevention'],
+        summary: 'Prepare now so you can leave quickly if you need to.',
+        body: `- Work out which rooms have a way out, and avoid the kitchen, bathroom and garage during arguments, where there are hard surfaces and weapons.
+- Agree a code word with a trusted person that means "call the police".
+- Keep a bag ready somewhere safe, or with a friend: ID, bank cards, cash, keys, medication, phone charger and copies of important documents.
+- Save evidence somewhere the abuser can't reach. This app's **Evidence Vault** keeps recordings on the device, with a tamper-evident log.
+- Plan where you would go and how you would get there, at any time of day.
+- Leaving can be the most dangerous time. A specialist advocate can help you plan it.`,
+    },
+    {
+        id: 'dv-helplines',
+        title: 'Domestic violence helplines',
+        tags: ['domestic-violence', 'emergency'],
+        summary: 'Free, confidential support. In immediate danger, call emergency services.',
+        body: `If you are in immediate danger, call your local emergency number.
+
+- **United States**: National Domestic Violence Hotline, **1-800-799-7233**, or text **START** to **88788**.
+- **United Kingdom**: National Domestic Abuse Helpline, **0808 2000 247**, free and open 24 hours.
+- **Canada**: find a local shelter and its crisis line at **sheltersafe.ca**.
+- **Australia**: 1800RESPECT, **1800 737 732**.
+- **Elsewhere**: ask a doctor, nurse, pharmacist or police officer for the local domestic violence service.
+
+Numbers change over time. Check them for your country when you can, and save the right one in **Emergency Contacts**.`,
+    },
+    {
+        id: 'tech-safety',
+        title: 'Phone and tech safety when someone may be watching',
+        tags: ['domestic-violence', 'prevention'],
+        summary: 'Signs your phone is being monitored and safer ways to reach help.',
+        body: `- If an abuser has had your phone, it may have tracking or spyware. Battery drain, unknown apps and them knowing things they shouldn't are warning signs.
+- Check location sharing, linked accounts and unknown devices in your phone's settings. Shared family plans and cloud accounts can also reveal your location.
+- Suddenly removing monitoring can alert the abuser. Consider using a friend's phone, a library computer or a new, cheap phone to contact support.
+- Use a browser's private mode and clear history when looking up help.
+- Under **Tools → Disguise** this app can open as a calculator or notes app, and **Tools → Emergency PINs** stops anyone else ending an emergency.`,
+    },
+];
@@ -0,0 +1,94 @@
+import { SAFETY_ARTICLES, SafetyArticle } from './safetyArticles';
+
+// Full-text search over the offline library, built in memory when the app loads. Articles
+// are ranked with BM25, with words in titles and tags counting for more than body text.
+
+export type LibraryMatch = { article: SafetyArticle; score: number };
+
+export type LibraryIndex = {
+    search: (query: string, options?: { tag?: string; limit?: number }) => LibraryMatch[];
+    tags: string[];
+};
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'give', 'how', 'i', 'if', 'in',
+    'is', 'it', 'me', 'my', 'of', 'on', 'or', 'simple', 'so', 'some', 'text', 'that', 'the', 'their', 'there',
+    'this', 'to', 'tutorial', 'was', 'what', 'when', 'where', 'who', 'with', 'you', 'your',
+]);
+
+const FIELD_WEIGHTS = { title: 3, tags: 2, summary: 2, body: 1 };
+const K1 = 1.2;
+const B = 0.75;
+
+// Crude suffix stripping, applied to articles and queries alike, so "bleeding" finds
+// "bleed" and "followed" finds "following".
+export const stem = (word: string) => word
+    .replace(/'s$/, '')
+    .replace(/ies$/, 'y')
+    .replace(/(.{3,})(ing|ed)$/, '$1')
+    .replace(/([^s])s$/, '$1')
+    .replace(/(.{3,})e$/, '$1');
+
+export const tokenize = (text: string) => text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9']+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    // Short numbers are mostly noise (coordinates, list steps); emergency numbers are kept.
+    .filter(word => word && !STOP_WORDS.has(word) && !/^\d{1,2}$/.test(word))
+    .map(stem);
+
+export const createLibraryIndex = (articles: SafetyArticle[]): LibraryIndex => {
+    // term -> article index -> weighted frequency
+    const postings = new Map<string, Map<number, number>>();
+    const lengths = articles.map((article, i) => {
+        let length = 0;
+        (Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]).forEach(field => {
+            const value = field === 'tags' ? article.tags.join(' ') : article[field];
+            tokenize(value).forEach(term => {
+                const docs = postings.get(term) || new Map<number, number>();
+                docs.set(i, (docs.get(i) || 0) + FIELD_WEIGHTS[field]);
+                postings.set(term, docs);
+                length += FIELD_WEIGHTS[field];
+            });
+        });
+        return length;
+    });
+    const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(articles.length, 1);
+
+    const termScores = (term: string, scores: Map<number, number>) => {
+        const docs = postings.get(term);
+        if (!docs) return;
+        const idf = Math.log(1 + (articles.length - docs.size + 0.5) / (docs.size + 0.5));
+        docs.forEach((frequency, i) => {
+            const score = idf * frequency * (K1 + 1) / (frequency + K1 * (1 - B + B * lengths[i] / averageLength));
+            scores.set(i, (scores.get(i) || 0) + score);
+        });
+    };
+
+    return {
+        search(query, { tag, limit = 10 } = {}) {
+            const terms = tokenize(query);
+            const inTag = (article: SafetyArticle) => !tag || article.tags.includes(tag);
+            if (terms.length === 0) {
+                return articles.filter(inTag).slice(0, limit).map(article => ({ article, score: 0 }));
+            }
+            const scores = new Map<number, number>();
+            terms.forEach((term, i) => {
+                // The last word may still be being typed, so it also matches as a prefix.
+                const isPartial = i === terms.length - 1 && !/\s$/.test(query);
+                const matching = isPartial ? [...postings.keys()].filter(t => t.startsWith(term)) : [term];
+                matching.forEach(t => termScores(t, scores));
+            });
+            return [...scores.entries()]
+                .map(([i, score]) => ({ article: articles[i], score }))
+                .filter(match => inTag(match.article))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit);
+        },
+        tags: [...new Set(articles.flatMap(article => article.tags))].sort(),
+    };
+};
+
+export const safetyLibrary = createLibraryIndex(SAFETY_ARTICLES);
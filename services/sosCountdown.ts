@@ -0,0 +1,44 @@
+import { readJson, writeJson } from './storage';
+
+// One countdown for every way an emergency can start: the SOS button, hardware
+// gestures and the fall and distress detectors. It ticks once a second and escalates
+// when it reaches zero unless the user cancels.
+
+export type SosTrigger = 'button' | 'gesture' | 'fall' | 'scream' | 'glass' | 'safeWord';
+
+export type SosCountdown = {
+    trigger: SosTrigger;
+    discreet: boolean; // escalates to a discreet emergency, and counts down silently
+    remaining: number;
+};
+
+export type SosSettings = {
+    countdownSeconds: number;
+    skipConfirmation: boolean; // the SOS button starts the emergency straight away
+    gestureCountdown: boolean; // gestures are deliberate, so by default they skip it
+};
+
+export const SOS_TRIGGERS: { [key in SosTrigger]: { label: string; alarm: boolean } } = {
+    button: { label: 'SOS', alarm: false },
+    gesture: { label: 'SOS GESTURE', alarm: false },
+    // A fall may have left the user dazed, so its countdown sounds an alarm to rouse them.
+    fall: { label: 'FALL DETECTED', alarm: true },
+    scream: { label: 'SCREAM DETECTED', alarm: false },
+    glass: { label: 'BREAKING GLASS DETECTED', alarm: false },
+    safeWord: { label: 'SAFE WORD HEARD', alarm: false },
+};
+
+const SETTINGS_KEY = 'sos';
+
+export const loadSosSettings = () => readJson<SosSettings>(SETTINGS_KEY, { countdownSeconds: 5, skipConfirmation: false, gestureCountdown: false });
+export const saveSosSettings = (settings: SosSettings) => writeJson(SETTINGS_KEY, settings);
+
+export const createSosCountdown = (trigger: SosTrigger, discreet: boolean, seconds: number): SosCountdown =>
+    ({ trigger, discreet, remaining: Math.max(0, Math.round(seconds)) });
+
+export const tickSosCountdown = (countdown: SosCountdown): SosCountdown =>
+    ({ ...countdown, remaining: Math.max(0, countdown.remaining - 1) });
+
+// Silent countdowns get a light tick; the last three seconds of a loud one are stronger.
+export const tickVibration = (countdown: SosCountdown) =>
+    countdown.discreet ? 100 : countdown.remaining <= 3 ? [200, 100, 200] : 300;
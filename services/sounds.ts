@@ -0,0 +1,105 @@
+// Alert sounds are synthesised on the device rather than streamed, so the siren and
+// the fake-call ringtone still play with no signal. Each is rendered once into a
+// looping 16-bit PCM WAV and exposed as a blob URL for <audio> elements.
+
+const SAMPLE_RATE = 22050;
+
+const encodeWav = (samples: Float32Array) => {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, value: string) =>
+        [...value].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // PCM chunk size
+    view.setUint16(20, 1, true); // PCM format
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, SAMPLE_RATE, true);
+    view.setUint32(28, SAMPLE_RATE * 2, true); // byte rate
+    view.setUint16(32, 2, true); // block align
+    view.setUint16(34, 16, true); // bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    samples.forEach((s, i) => view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, s)) * 0x7fff, true));
+
+    return URL.createObjectURL(new Blob([buffer], { type: 'audio/wav' }));
+};
+
+// Two-second "wail": the pitch sweeps 600 -> 1400 -> 600 Hz.
+const renderSiren = () => {
+    const duration = 2;
+    const samples = new Float32Array(SAMPLE_RATE * duration);
+    let phase = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / SAMPLE_RATE;
+        const sweep = t < 1 ? t : 2 - t;
+        phase += 2 * Math.PI * (600 + 800 * sweep) / SAMPLE_RATE;
+        // A little third harmonic makes it cut through like a real siren.
+        samples[i] = 0.7 * Math.sin(phase) + 0.2 * Math.sin(3 * phase);
+    }
+    return samples;
+};
+
+// Classic phone ring: 440 Hz + 480 Hz in two short bursts, then silence.
+const renderRingtone = () => {
+    const duration = 3;
+    const samples = new Float32Array(SAMPLE_RATE * duration);
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / SAMPLE_RATE;
+        const ringing = t < 0.4 || (t >= 0.6 && t < 1.0);
+        samples[i] = ringing ? 0.35 * (Math.sin(2 * Math.PI * 440 * t) + Math.sin(2 * Math.PI * 480 * t)) : 0;
+    }
+    return samples;
+};
+
+let sirenUrl: string | null = null;
+let ringtoneUrl: string | null = null;
+
+export const getSirenUrl = () => sirenUrl ??= encodeWav(renderSiren());
+export const getRingtoneUrl = () => ringtoneUrl ??= encodeWav(renderRingtone());
+
+// Urgent beeping for countdowns that are about to raise an alarm: 0.15s at 1 kHz, twice a second.
+const renderAlarm = () => {
+    const duration = 0.5;
+    const samples = new Float32Array(SAMPLE_RATE * duration);
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / SAMPLE_RATE;
+        samples[i] = t < 0.15 ? 0.8 * Math.sign(Math.sin(2 * Math.PI * 1000 * t)) : 0;
+    }
+    return samples;
+};
+
+let alarmUrl: string | null = null;
+
+export const getAlarmUrl = () => alarmUrl ??= encodeWav(renderAlarm());
+
+// Keypad tones: each key is the sum of a row and a column frequency, held for 0.2s.
+export const DTMF_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '0', '#'];
+const DTMF_ROWS = [697, 770, 852, 941];
+const DTMF_COLUMNS = [1209, 1336, 1477];
+
+const renderDtmf = (key: string) => {
+    const index = DTMF_KEYS.indexOf(key);
+    const low = DTMF_ROWS[Math.floor(index / 3)];
+    const high = DTMF_COLUMNS[index % 3];
+    const samples = new Float32Array(Math.floor(SAMPLE_RATE * 0.2));
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / SAMPLE_RATE;
+        samples[i] = 0.4 * (Math.sin(2 * Math.PI * low * t) + Math.sin(2 * Math.PI * high * t));
+    }
+    return samples;
+};
+
+const dtmfUrls = new Map<string, string>();
+
+export const getDtmfUrl = (key: string) => {
+    let url = dtmfUrls.get(key);
+    if (!url) {
+        url = encodeWav(renderDtmf(key));
+        dtmfUrls.set(key, url);
+    }
+    return url;
+};
@@ -0,0 +1,25 @@
+// Small helpers around localStorage so every feature persists its data the same way.
+// Reads never throw: a missing, corrupt or blocked store just yields the fallback.
+
+const KEY_PREFIX = 'guardian-angel:';
+
+export const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = window.localStorage.getItem(KEY_PREFIX + key);
+        return raw === null ? fallback : JSON.parse(raw) as T;
+    } catch (err) {
+        console.error(`Failed to read "${key}" from storage`, err);
+        return fallback;
+    }
+};
+
+export const writeJson = <T>(key: string, value: T) => {
+    try {
+        window.localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+    } catch (err) {
+        console.error(`Failed to write "${key}" to storage`, err);
+    }
+};
+
+export const createId = () =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
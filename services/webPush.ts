@@ -0,0 +1,146 @@
+import { readJson, writeJson } from './storage';
+import { getKeyPair, putKeyPair } from './evidenceVault';
+
+// Web Push sent straight from the device, with no push server of our own. This device
+// holds a VAPID key pair; a recipient's device subscribes with its public key and hands
+// back the subscription, which an alert channel stores. Payloads are encrypted for the
+// recipient (RFC 8291) and the request is signed with the VAPID key (RFC 8292).
+
+export type PushSubscriptionData = {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+};
+
+export type PushMessage = {
+    title: string;
+    body: string;
+    url: string | null; // opened when the notification is tapped
+    tag: string; // a newer message with the same tag replaces the older notification
+};
+
+const VAPID_KEY_ID = 'push-vapid';
+const CONTACT_KEY = 'push-contact';
+const RECORD_SIZE = 4096;
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+export const toBase64Url = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (value: string) => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const concat = (...parts: Uint8Array[]) => {
+    const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+};
+
+export const isPushSubscription = (value: unknown): value is PushSubscriptionData => {
+    const s = value as PushSubscriptionData;
+    return !!s && typeof s.endpoint === 'string' && /^https:\/\//.test(s.endpoint) &&
+        typeof s.keys?.p256dh === 'string' && typeof s.keys?.auth === 'string';
+};
+
+// Push services contact the sender through the VAPID subject, and some (Apple's) refuse
+// requests without one.
+export const loadPushContact = () => readJson<string>(CONTACT_KEY, '');
+export const savePushContact = (contact: string) => writeJson(CONTACT_KEY, contact);
+export const pushSubject = (contact = loadPushContact()) => contact.trim() ? `mailto:${contact.trim()}` : null;
+
+// Created on first use and kept, so subscriptions made with the public key stay valid.
+// Like the evidence signing key, the private half is non-extractable and kept in IndexedDB.
+const getVapidKeyPair = async () => {
+    const existing = await getKeyPair(VAPID_KEY_ID);
+    if (existing) return existing;
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    await putKeyPair(VAPID_KEY_ID, keyPair);
+    return keyPair;
+};
+
+const exportPublicKey = async (keyPair: CryptoKeyPair) =>
+    toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)));
+
+export const getPushPublicKey = async () => exportPublicKey(await getVapidKeyPair());
+
+const vapidAuthorization = async (endpoint: string, keyPair: CryptoKeyPair, subject: string | null) => {
+    const header = toBase64Url(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+    const claims = toBase64Url(encoder.encode(JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME_SECONDS,
+        ...(subject ? { sub: subject } : {}),
+    })));
+    // WebCrypto signs in the raw r || s form that JWS expects.
+    const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keyPair.privateKey, encoder.encode(`${header}.${claims}`));
+    return `vapid t=${header}.${claims}.${toBase64Url(new Uint8Array(signature))}, k=${await exportPublicKey(keyPair)}`;
+};
+
+const hkdf = async (salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, bytes: number) => {
+    const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+    return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, bytes * 8));
+};
+
+// aes128gcm content coding with a single record, keyed from an ECDH exchange with the
+// recipient's subscription key and its auth secret.
+export const encryptPushPayload = async (subscription: PushSubscriptionData, plaintext: Uint8Array) => {
+    const recipientKey = fromBase64Url(subscription.keys.p256dh);
+    const authSecret = fromBase64Url(subscription.keys.auth);
+    const recipient = await crypto.subtle.importKey('raw', recipientKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+    const local = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+    const localKey = new Uint8Array(await crypto.subtle.exportKey('raw', local.publicKey));
+    const sharedSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: recipient }, local.privateKey, 256));
+
+    const ikm = await hkdf(authSecret, sharedSecret, concat(encoder.encode('WebPush: info\0'), recipientKey, localKey), 32);
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const cek = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+    const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+    const key = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt']);
+    // 0x02 marks the last (and only) record.
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, key, concat(plaintext, new Uint8Array([2]))));
+    const header = new Uint8Array(21);
+    header.set(salt);
+    new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+    header[20] = localKey.length;
+    return concat(header, localKey, ciphertext);
+};
+
+// Resolves with the push service's response; callers decide what its status means.
+export const sendWebPush = async (subscription: PushSubscriptionData, message: PushMessage, signal?: AbortSignal, subject: string | null = null) => {
+    const keyPair = await getVapidKeyPair();
+    const body = await encryptPushPayload(subscription, encoder.encode(JSON.stringify(message)));
+    return fetch(subscription.endpoint, {
+        method: 'POST',
+        headers: {
+            Authorization: await vapidAuthorization(subscription.endpoint, keyPair, subject),
+            'Content-Encoding': 'aes128gcm',
+            'Content-Type': 'application/octet-stream',
+            TTL: String(PUSH_TTL_SECONDS),
+            Urgency: 'high',
+        },
+        body,
+        signal,
+    });
+};
+
+// Subscribes this device to alerts from the device whose public key is given. A device
+// has one subscription, so any earlier one (likely for another sender) is replaced.
+export const subscribeToPush = async (senderKey: string): Promise<PushSubscriptionData> => {
+    if (!('serviceWorker' in navigator) || !('PushManager' in window)) throw new Error('Push notifications are not supported in this browser.');
+    const registration = await navigator.serviceWorker.ready;
+    await (await registration.pushManager.getSubscription())?.unsubscribe();
+    const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: fromBase64Url(senderKey.trim()),
+    });
+    return subscription.toJSON() as PushSubscriptionData;
+};
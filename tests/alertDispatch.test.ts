@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWebhookStub } from '../server/webhookStub';
+import {
+    AlertChannel, AlertDispatcher, AlertEventContext, OutboxEntry, createAlertChannel, createAlertDispatcher, createAlertEvent,
+} from '../services/alertDispatch';
+
+const context: AlertEventContext = {
+    emergencyId: 'emergency-1',
+    discreet: false,
+    location: { latitude: 51.5, longitude: -0.12, accuracy: 5 },
+    batteryLevel: 0.5,
+};
+
+let stub: ReturnType<typeof createWebhookStub> | null = null;
+let dispatcher: AlertDispatcher | null = null;
+let outbox: OutboxEntry[] = [];
+
+// The dispatcher persists its outbox and listens for 'online', so it needs the bits of a
+// browser it touches.
+beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('window', {
+        localStorage: {
+            getItem: (key: string) => store.get(key) ?? null,
+            setItem: (key: string, value: string) => store.set(key, value),
+        },
+        addEventListener: () => {},
+        removeEventListener: () => {},
+    });
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    outbox = [];
+});
+
+afterEach(async () => {
+    dispatcher?.close();
+    dispatcher = null;
+    await stub?.close();
+    stub = null;
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+const startStub = async (options: Parameters<typeof createWebhookStub>[0]) => {
+    stub = createWebhookStub(options);
+    await new Promise<void>(resolve => stub!.server.listen(0, resolve));
+    return `http://localhost:${(stub.server.address() as { port: number }).port}/alerts`;
+};
+
+const webhookChannel = (target: string, secret: string): AlertChannel =>
+    createAlertChannel({ kind: 'webhook', label: 'Stub', target, secret });
+
+const startDispatcher = () => {
+    dispatcher = createAlertDispatcher({ onChange: next => { outbox = next; }, onCompose: () => {} });
+    return dispatcher;
+};
+
+const waitFor = async (check: () => boolean, timeoutMs = 1000) => {
+    for (let waited = 0; waited < timeoutMs && !check(); waited += 20) await new Promise(resolve => setTimeout(resolve, 20));
+    expect(check()).toBe(true);
+};
+
+describe('alert dispatcher against the webhook stub', () => {
+    it('delivers signed events the stub accepts', async () => {
+        const url = await startStub({ secret: 'shared-secret' });
+        const event = createAlertEvent('emergencyStarted', context);
+        startDispatcher().notify(event, [webhookChannel(url, 'shared-secret')]);
+
+        await waitFor(() => stub!.received.length === 1);
+        expect(stub!.received[0]).toEqual(event);
+        await waitFor(() => outbox.length === 0);
+    });
+
+    it('gives up at once when the stub rejects the signature', async () => {
+        const url = await startStub({ secret: 'shared-secret' });
+        startDispatcher().notify(createAlertEvent('emergencyStarted', context), [webhookChannel(url, 'wrong-secret')]);
+
+        await waitFor(() => outbox[0]?.failed === true);
+        expect(outbox[0]).toMatchObject({ attempts: 1, lastError: 'Webhook responded 401' });
+        expect(stub!.received).toEqual([]);
+    });
+
+    it('retries after an outage and delivers once the stub recovers', async () => {
+        const url = await startStub({ secret: 'shared-secret', failFirst: 1 });
+        startDispatcher().notify(createAlertEvent('emergencyStarted', context), [webhookChannel(url, 'shared-secret')]);
+
+        await waitFor(() => outbox[0]?.attempts === 1);
+        expect(outbox[0]).toMatchObject({ failed: false, lastError: 'Webhook responded 503' });
+        // The first retry waits two seconds.
+        await waitFor(() => stub!.received.length === 1, 4000);
+        await waitFor(() => outbox.length === 0);
+    }, 10000);
+
+    it('sends location updates at most once a minute', async () => {
+        const url = await startStub({ secret: 'shared-secret' });
+        const channels = [webhookChannel(url, 'shared-secret')];
+        const start = Date.now();
+        const dispatch = startDispatcher();
+        dispatch.notify(createAlertEvent('emergencyStarted', context, start), channels);
+        dispatch.notify(createAlertEvent('locationUpdated', context, start + 30 * 1000), channels);
+        dispatch.notify(createAlertEvent('locationUpdated', context, start + 61 * 1000), channels);
+
+        await waitFor(() => stub!.received.length === 2);
+        // Each entry is sent on its own, so they may arrive in either order.
+        const received = [...stub!.received].sort((a, b) => a.timestamp - b.timestamp);
+        expect(received.map(event => [event.type, event.timestamp])).toEqual([
+            ['emergencyStarted', start],
+            ['locationUpdated', start + 61 * 1000],
+        ]);
+    });
+});
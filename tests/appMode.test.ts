@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { AppMode, INITIAL_MODE, ModeEvent, isEmergencyVisible, mainScreen, modeReducer, showsNav } from '../services/appMode';
+
+const run = (...events: ModeEvent[]) => events.reduce(modeReducer, INITIAL_MODE);
+
+describe('modeReducer', () => {
+    it('ends a ringing or active call when an emergency starts', () => {
+        const ringing = run({ type: 'callRang' });
+        const active = run({ type: 'callRang' }, { type: 'callAnswered' });
+        expect(modeReducer(ringing, { type: 'emergencyStarted' }).call).toBe('idle');
+        expect(modeReducer(active, { type: 'emergencyStarted' }).call).toBe('idle');
+    });
+
+    it('closes an open dialog when an emergency starts', () => {
+        const mode = run({ type: 'dialogOpened', dialog: 'checkInOptions' }, { type: 'emergencyStarted' });
+        expect(mode.dialog).toBeNull();
+        expect(mainScreen(mode)).toBe('views');
+    });
+
+    it("doesn't let a fake call ring over a visible emergency", () => {
+        expect(run({ type: 'emergencyStarted' }, { type: 'callRang' }).call).toBe('idle');
+    });
+
+    it('keeps sharing running alongside a call and an emergency', () => {
+        const calling = run({ type: 'sharingStarted' }, { type: 'callRang' }, { type: 'callAnswered' });
+        expect(calling).toMatchObject({ sharing: true, call: 'active' });
+        expect(mainScreen(calling)).toBe('sharing');
+        expect(showsNav(calling)).toBe(false);
+        expect(modeReducer(calling, { type: 'emergencyStarted' }).sharing).toBe(true);
+    });
+
+    it('keeps a duress-stopped emergency discreet while the user carries on', () => {
+        const disguised = run({ type: 'emergencyStarted' }, { type: 'emergencyDisguised' });
+        expect(disguised).toMatchObject({ emergency: true, disguised: true });
+        expect(isEmergencyVisible(disguised)).toBe(false);
+        const afterCall = [
+            { type: 'callRang' }, { type: 'callAnswered' }, { type: 'callEnded' },
+            { type: 'dialogOpened', dialog: 'sharingOptions' }, { type: 'dialogClosed' },
+        ].reduce(modeReducer, disguised);
+        expect(afterCall).toMatchObject({ emergency: true, disguised: true });
+    });
+
+    it('lets fake calls ring during a disguised emergency, and a new SOS shows it again', () => {
+        const disguised = run({ type: 'emergencyStarted' }, { type: 'emergencyDisguised' }, { type: 'callRang' });
+        expect(disguised.call).toBe('ringing');
+        const shown = modeReducer(disguised, { type: 'emergencyStarted' });
+        expect(shown).toMatchObject({ emergency: true, disguised: false, call: 'idle' });
+    });
+
+    it('ignores the duress event when there is no emergency', () => {
+        expect(run({ type: 'emergencyDisguised' })).toEqual(INITIAL_MODE);
+    });
+
+    it('returns to the sharing screen when a dialog closes during a share', () => {
+        const mode = run({ type: 'sharingStarted' }, { type: 'dialogOpened', dialog: 'callerSelector' });
+        expect(mainScreen(mode)).toBe('callerSelector');
+        expect(mainScreen(modeReducer(mode, { type: 'dialogClosed' }))).toBe('sharing');
+    });
+
+    it('returns to the views with the nav bar when a call ends', () => {
+        const mode = run({ type: 'callRang' }, { type: 'callAnswered' }, { type: 'callEnded' });
+        expect(mode).toEqual(INITIAL_MODE);
+        expect(mainScreen(mode)).toBe('views');
+        expect(showsNav(mode)).toBe(true);
+    });
+
+    it("doesn't open a dialog over a call", () => {
+        const mode: AppMode = run({ type: 'callRang' }, { type: 'dialogOpened', dialog: 'sharingOptions' });
+        expect(mode.dialog).toBeNull();
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createSafeWordTemplate, createSpeechSegmenter, detectInBuffer, framesFromBuffer, AudioFrame } from '../services/distressAudio';
+import { readWav } from './wav';
+
+const fixture = (name: string) => readWav(path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/audio', name));
+
+const detect = (name: string, settings = { scream: true, glass: true, safeWord: safeWordTemplate() }) => {
+    const { samples, sampleRate } = fixture(name);
+    return detectInBuffer(samples, sampleRate, settings).map(d => d.sound);
+};
+
+// Enrolment takes the spoken segment out of each recording, as the app does.
+const enrolmentSegment = (name: string) => {
+    const { samples, sampleRate } = fixture(name);
+    let segment: AudioFrame[] = [];
+    const push = createSpeechSegmenter(frames => { segment = frames; });
+    framesFromBuffer(samples, sampleRate).forEach(push);
+    return segment;
+};
+
+const safeWordTemplate = () => createSafeWordTemplate(['safe-word-1.wav', 'safe-word-2.wav', 'safe-word-3.wav'].map(enrolmentSegment));
+
+describe('detectInBuffer', () => {
+    it('finds a scream', () => {
+        expect(detect('scream.wav')).toEqual(['scream']);
+    });
+
+    it('finds breaking glass', () => {
+        expect(detect('glass.wav')).toEqual(['glass']);
+    });
+
+    it('finds the enrolled safe word', () => {
+        expect(detect('safe-word-spoken.wav')).toEqual(['safeWord']);
+    });
+
+    it.each(['conversation.wav', 'door-slam.wav', 'room-tone.wav'])('stays silent on %s', name => {
+        expect(detect(name)).toEqual([]);
+    });
+
+    it('only reports the sounds that are switched on', () => {
+        expect(detect('scream.wav', { scream: false, glass: true, safeWord: null })).toEqual([]);
+        expect(detect('glass.wav', { scream: true, glass: false, safeWord: null })).toEqual([]);
+        expect(detect('safe-word-spoken.wav', { scream: true, glass: true, safeWord: null })).toEqual([]);
+    });
+});
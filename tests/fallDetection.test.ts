@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { FallSensitivity, MotionSample, detectFallsInTrace } from '../services/fallDetection';
+
+const trace = (name: string): MotionSample[] =>
+    JSON.parse(readFileSync(path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/motion', `${name}.json`), 'utf8'));
+
+// Whether each trace should raise a fall at low, medium and high sensitivity.
+const EXPECTED: { [trace: string]: { [key in FallSensitivity]: boolean } } = {
+    'hard-fall': { low: true, medium: true, high: true },
+    'soft-fall': { low: false, medium: true, high: true },
+    'trip-and-get-up': { low: false, medium: false, high: false },
+    'dropped-on-bed': { low: false, medium: false, high: false },
+    walking: { low: false, medium: false, high: false },
+    running: { low: false, medium: false, high: false },
+};
+
+describe('detectFallsInTrace', () => {
+    Object.entries(EXPECTED).forEach(([name, bySensitivity]) => {
+        (Object.keys(bySensitivity) as FallSensitivity[]).forEach(sensitivity => {
+            it(`${bySensitivity[sensitivity] ? 'detects' : 'ignores'} ${name} at ${sensitivity} sensitivity`, () => {
+                expect(detectFallsInTrace(trace(name), sensitivity)).toHaveLength(bySensitivity[sensitivity] ? 1 : 0);
+            });
+        });
+    });
+
+    it('reports the time of the impact, not of the stillness after it', () => {
+        const samples = trace('hard-fall');
+        const peak = samples.reduce((a, b) => (Math.hypot(b.ax, b.ay, b.az) > Math.hypot(a.ax, a.ay, a.az) ? b : a));
+        expect(detectFallsInTrace(samples, 'medium')).toEqual([peak.t]);
+    });
+});
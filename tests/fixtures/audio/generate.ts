@@ -0,0 +1,83 @@
+// Regenerates the synthetic audio fixtures: `npx tsx tests/fixtures/audio/generate.ts`.
+// Each clip models the acoustic traits the detectors look for (or should ignore):
+// a sustained harmonic scream, a bright shattering burst, a three-vowel safe word and
+// everyday sounds. A seeded random source keeps the output identical between runs.
+
+import { fileURLToPath } from 'url';
+import path from 'path';
+import { writeWav } from '../../wav';
+
+const SAMPLE_RATE = 16000;
+const dir = path.dirname(fileURLToPath(import.meta.url));
+
+let seed = 1;
+const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+};
+const noise = () => random() * 2 - 1;
+
+const silence = (seconds: number, level = 0.002) => Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, () => noise() * level);
+
+const harmonic = (seconds: number, f0: (t: number) => number, gain: (hz: number) => number, level: number) => {
+    const out: number[] = [];
+    let phase = 0;
+    for (let i = 0; i < seconds * SAMPLE_RATE; i++) {
+        const t = i / SAMPLE_RATE;
+        phase += 2 * Math.PI * f0(t) / SAMPLE_RATE;
+        let value = 0;
+        for (let h = 1; h * f0(t) < SAMPLE_RATE / 2; h++) value += gain(h * f0(t)) * Math.sin(h * phase) / h;
+        // Short fades stop clicks from adding broadband energy.
+        const fade = Math.min(1, t / 0.02, (seconds - t) / 0.02);
+        out.push(value * level * fade);
+    }
+    return out;
+};
+
+const formants = (peaks: number[]) => (hz: number) => peaks.reduce((sum, peak) => sum + Math.exp(-(((hz - peak) / 120) ** 2)), 0.05);
+
+// Vowels as (F1, F2, F3) formant frequencies.
+const VOWELS: { [key: string]: number[] } = {
+    a: [750, 1200, 2500], i: [300, 2300, 3000], u: [350, 800, 2300],
+    e: [500, 1800, 2500], o: [500, 900, 2400],
+};
+
+const word = (vowels: string, { tempo = 1, pitch = 140, level = 0.12 } = {}) =>
+    vowels.split('').flatMap(v => harmonic(0.2 * tempo, t => pitch + 10 * Math.sin(2 * Math.PI * 3 * t), formants(VOWELS[v]), level));
+
+const scream = () => harmonic(1.3, t => 1100 + 40 * Math.sin(2 * Math.PI * 6 * t), hz => (hz < 4000 ? 1 : 0.2), 0.6);
+
+const glass = () => {
+    let previous = 0;
+    return Array.from({ length: Math.round(0.8 * SAMPLE_RATE) }, (_, i) => {
+        const t = i / SAMPLE_RATE;
+        const white = noise();
+        const bright = white - previous; // first difference tilts the noise towards the treble
+        previous = white;
+        const ringing = [4700, 5900, 7100].reduce((sum, hz) => sum + Math.sin(2 * Math.PI * hz * t), 0) / 3;
+        return (0.5 * bright + 0.2 * ringing) * Math.exp(-t / 0.3);
+    });
+};
+
+const doorSlam = () => {
+    let smooth = 0;
+    return Array.from({ length: Math.round(0.6 * SAMPLE_RATE) }, (_, i) => {
+        const t = i / SAMPLE_RATE;
+        smooth = 0.97 * smooth + 0.03 * noise(); // low-passed thump
+        return (4 * smooth + 0.5 * Math.sin(2 * Math.PI * 80 * t)) * Math.exp(-t / 0.12);
+    });
+};
+
+const clip = (...parts: number[][]) => ({ samples: Float32Array.from(parts.flat()), sampleRate: SAMPLE_RATE });
+
+const write = (name: string, audio: ReturnType<typeof clip>) => writeWav(path.join(dir, name), audio);
+
+write('scream.wav', clip(silence(0.3), scream(), silence(0.3)));
+write('glass.wav', clip(silence(0.6), glass(), silence(0.2)));
+write('safe-word-1.wav', clip(silence(0.4), word('aiu'), silence(0.5)));
+write('safe-word-2.wav', clip(silence(0.4), word('aiu', { tempo: 1.1, pitch: 130 }), silence(0.5)));
+write('safe-word-3.wav', clip(silence(0.4), word('aiu', { tempo: 0.9, pitch: 150 }), silence(0.5)));
+write('safe-word-spoken.wav', clip(silence(0.6), word('aiu', { tempo: 1.05, pitch: 145 }), silence(0.6)));
+write('conversation.wav', clip(silence(0.4), word('eoa'), silence(0.4), word('oe', { pitch: 120 }), silence(0.4), word('uoe', { pitch: 160 }), silence(0.5)));
+write('door-slam.wav', clip(silence(0.5), doorSlam(), silence(0.3)));
+write('room-tone.wav', clip(silence(2, 0.01)));
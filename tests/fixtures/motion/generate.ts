@@ -0,0 +1,55 @@
+// Regenerates the motion trace fixtures: `npx tsx tests/fixtures/motion/generate.ts`.
+// Traces are sampled at 50 Hz like DeviceMotionEvent on most phones, and follow the
+// shape of recorded ones: gait oscillation while moving, a dip towards free fall
+// before a hard landing, and sensor noise while the phone lies still.
+
+import { writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import path from 'path';
+import { GRAVITY, MotionSample } from '../../../services/fallDetection';
+
+const STEP_MS = 20;
+const dir = path.dirname(fileURLToPath(import.meta.url));
+
+let seed = 7;
+const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+};
+const jitter = (amount: number) => (random() * 2 - 1) * amount;
+const round = (value: number) => Math.round(value * 100) / 100;
+
+type Phase = { ms: number; sample: (t: number) => { g: number; rotation: number } };
+
+// Accelerations are given as a magnitude in g and spread over the three axes.
+const trace = (...phases: Phase[]): MotionSample[] => {
+    const samples: MotionSample[] = [];
+    let t = 0;
+    phases.forEach(phase => {
+        for (let local = 0; local < phase.ms; local += STEP_MS, t += STEP_MS) {
+            const { g, rotation } = phase.sample(local);
+            const a = g * GRAVITY;
+            samples.push({ t, ax: round(a * 0.2 + jitter(0.05)), ay: round(a * 0.3 + jitter(0.05)), az: round(a * Math.sqrt(0.87) + jitter(0.05)), rotation: round(rotation) });
+        }
+    });
+    return samples;
+};
+
+const gait = (ms: number, stepsPerSecond: number, peakG: number): Phase => ({
+    ms,
+    sample: t => ({ g: 1 + (peakG - 1) * Math.max(0, Math.sin(2 * Math.PI * stepsPerSecond * t / 1000)) ** 3 - 0.2 * Math.max(0, -Math.sin(2 * Math.PI * stepsPerSecond * t / 1000)), rotation: 60 + jitter(30) }),
+});
+const freeFall = (ms: number): Phase => ({ ms, sample: () => ({ g: 0.15 + jitter(0.05), rotation: 200 + jitter(50) }) });
+const impact = (peakG: number): Phase => ({ ms: 60, sample: t => ({ g: t === 20 ? peakG : 1.6 + jitter(0.2), rotation: 150 }) });
+const settle = (ms: number): Phase => ({ ms, sample: t => ({ g: 1 + 0.4 * Math.exp(-t / 200) * Math.sin(t / 25), rotation: 40 * Math.exp(-t / 200) }) });
+const still = (ms: number): Phase => ({ ms, sample: () => ({ g: 1 + jitter(0.02), rotation: 1 + jitter(1) }) });
+const getUp = (ms: number): Phase => ({ ms, sample: t => ({ g: 1 + 0.5 * Math.sin(t / 60), rotation: 90 + jitter(30) }) });
+
+const write = (name: string, samples: MotionSample[]) => writeFileSync(path.join(dir, name), JSON.stringify(samples));
+
+write('hard-fall.json', trace(gait(3000, 2, 1.4), freeFall(400), impact(4.2), settle(1000), still(6000)));
+write('soft-fall.json', trace(gait(3000, 2, 1.4), freeFall(250), impact(3.0), settle(1000), still(6000)));
+write('trip-and-get-up.json', trace(gait(3000, 2, 1.4), freeFall(300), impact(4.0), settle(800), still(1200), getUp(3000), gait(3000, 2, 1.4)));
+write('dropped-on-bed.json', trace(still(1000), freeFall(350), impact(1.8), settle(600), still(6000)));
+write('walking.json', trace(gait(10000, 2, 1.5)));
+write('running.json', trace(gait(10000, 2.8, 2.6)));
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+    GestureAction, GestureBinding, GesturePattern, Scheduler, createGestureBinding, createGestureRecognizer, describeGesture,
+} from '../services/gestures';
+
+const NO_MODIFIERS = { ctrl: false, alt: false, shift: false, meta: false };
+
+// A clock the test moves by hand, so timers fire exactly when a real key trace would.
+const createClock = () => {
+    let now = 0;
+    let timers: { id: number; at: number; callback: () => void }[] = [];
+    let nextId = 0;
+    const scheduler: Scheduler = {
+        setTimeout: (callback, ms) => {
+            const id = nextId++;
+            timers.push({ id, at: now + ms, callback });
+            return id;
+        },
+        clearTimeout: id => { timers = timers.filter(timer => timer.id !== id); },
+    };
+    const advanceTo = (time: number) => {
+        for (let due = timers.find(timer => timer.at <= time); due; due = timers.find(timer => timer.at <= time)) {
+            const timer = due;
+            timers = timers.filter(t => t !== timer);
+            now = timer.at;
+            timer.callback();
+        }
+        now = time;
+    };
+    return { scheduler, advanceTo, now: () => now };
+};
+
+// Replays presses as [down, up] times in milliseconds and returns the actions matched.
+const replay = (patterns: [GesturePattern, GestureAction][], presses: [number, number][], key = 'AudioVolumeUp', settleAfter = 5000) => {
+    const clock = createClock();
+    const matched: GestureAction[] = [];
+    const bindings: GestureBinding[] = patterns.map(([pattern, action]) => createGestureBinding(pattern, action));
+    const recognizer = createGestureRecognizer(bindings, binding => matched.push(binding.action), clock.scheduler);
+    for (const [down, up] of presses) {
+        clock.advanceTo(down);
+        recognizer.keyDown(key, NO_MODIFIERS, false, down);
+        clock.advanceTo(up);
+        recognizer.keyUp(key, up);
+    }
+    clock.advanceTo(clock.now() + settleAfter);
+    return matched;
+};
+
+const fourPresses: GesturePattern = { kind: 'presses', key: 'AudioVolumeUp', count: 4, windowMs: 1500 };
+const taps = (...downs: number[]): [number, number][] => downs.map(down => [down, down + 80]);
+
+describe('gesture recognizer', () => {
+    it('matches a press count completed within the window', () => {
+        expect(replay([[fourPresses, 'discreetSos']], taps(0, 300, 600, 900))).toEqual(['discreetSos']);
+    });
+
+    it('ignores presses that are spread over more than the window, even with short gaps', () => {
+        expect(replay([[fourPresses, 'discreetSos']], taps(0, 700, 1400, 2100))).toEqual([]);
+    });
+
+    it('waits for the window to close before settling on a shorter count', () => {
+        const threePresses: GesturePattern = { ...fourPresses, count: 3 };
+        const patterns: [GesturePattern, GestureAction][] = [[threePresses, 'fakeCall'], [fourPresses, 'discreetSos']];
+        expect(replay(patterns, taps(0, 300, 600))).toEqual(['fakeCall']);
+        expect(replay(patterns, taps(0, 300, 600, 900))).toEqual(['discreetSos']);
+    });
+
+    it('fires a long press once and does not count it as a press', () => {
+        const hold: GesturePattern = { kind: 'longPress', key: 'AudioVolumeUp', durationMs: 1000 };
+        const twoPresses: GesturePattern = { kind: 'presses', key: 'AudioVolumeUp', count: 2, windowMs: 1500 };
+        expect(replay([[hold, 'loudSos'], [twoPresses, 'fakeCall']], [[0, 1500], [1700, 1800]])).toEqual(['loudSos']);
+        expect(replay([[hold, 'loudSos'], [twoPresses, 'fakeCall']], taps(0, 300))).toEqual(['fakeCall']);
+    });
+
+    it('tells dots from dashes in a sequence', () => {
+        const sequence: GesturePattern = { kind: 'sequence', key: 'AudioVolumeUp', sequence: '..-' };
+        expect(replay([[sequence, 'startSharing']], [[0, 100], [300, 400], [600, 1200]])).toEqual(['startSharing']);
+        expect(replay([[sequence, 'startSharing']], [[0, 100], [300, 400], [600, 700]])).toEqual([]);
+    });
+
+    it('matches shortcuts only with the exact modifiers', () => {
+        const matched: GestureAction[] = [];
+        const shortcut: GesturePattern = { kind: 'shortcut', key: 's', ctrl: true, alt: false, shift: true, meta: false };
+        const recognizer = createGestureRecognizer([createGestureBinding(shortcut, 'loudSos')], binding => matched.push(binding.action), createClock().scheduler);
+        recognizer.keyDown('S', { ...NO_MODIFIERS, ctrl: true }, false, 0);
+        recognizer.keyDown('S', { ...NO_MODIFIERS, ctrl: true, shift: true }, false, 10);
+        recognizer.keyDown('S', { ...NO_MODIFIERS, ctrl: true, shift: true }, true, 20);
+        expect(matched).toEqual(['loudSos']);
+    });
+
+    it('describes press counts by their total window', () => {
+        expect(describeGesture(fourPresses)).toBe('Volume Up × 4 (within 1.5s)');
+    });
+});
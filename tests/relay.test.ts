@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { createRelayServer } from '../server/relay';
+import { createTransport, endLiveSession } from '../services/liveShare';
+import { LiveSession, PollResponse, PositionUpdate, RelayMessage } from '../services/liveShareProtocol';
+
+const position = (latitude: number): PositionUpdate => ({ latitude, longitude: -0.12, accuracy: 5, speed: null, heading: null, timestamp: Date.now() });
+
+let relay: ReturnType<typeof createRelayServer> | null = null;
+
+const startRelay = async (sweepIntervalMs?: number) => {
+    relay = createRelayServer({ sweepIntervalMs });
+    await new Promise<void>(resolve => relay!.server.listen(0, resolve));
+    return `http://localhost:${(relay.server.address() as { port: number }).port}`;
+};
+
+afterEach(async () => {
+    await relay?.close();
+    relay = null;
+    vi.restoreAllMocks();
+});
+
+const createSession = async (base: string, expiresAt: number | null = null): Promise<LiveSession> =>
+    (await fetch(`${base}/sessions`, { method: 'POST', body: JSON.stringify({ expiresAt }) })).json();
+
+const poll = (base: string, session: LiveSession, since = -1) =>
+    fetch(`${base}/sessions/${session.sessionId}/positions?since=${since}&token=${encodeURIComponent(session.viewToken)}`);
+
+// Opens a socket and records everything the relay sends on it.
+const connect = async (base: string, token: string) => {
+    const socket = new WebSocket(`${base.replace(/^http/, 'ws')}/ws?token=${encodeURIComponent(token)}`);
+    const messages: RelayMessage[] = [];
+    socket.on('message', raw => messages.push(JSON.parse(raw.toString())));
+    const closed = new Promise<void>(resolve => socket.on('close', () => resolve()));
+    await new Promise<void>((resolve, reject) => {
+        socket.on('open', () => resolve());
+        socket.on('error', reject);
+    });
+    return { socket, messages, closed };
+};
+
+const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) await new Promise(resolve => setTimeout(resolve, 20));
+    expect(check()).toBe(true);
+};
+
+describe('relay', () => {
+    it('passes positions published over HTTP and WebSocket to viewers', async () => {
+        const base = await startRelay();
+        const session = await createSession(base);
+        const viewer = await connect(base, session.viewToken);
+
+        const res = await fetch(`${base}/sessions/${session.sessionId}/positions`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${session.publishToken}` },
+            body: JSON.stringify(position(51.5)),
+        });
+        expect(res.status).toBe(202);
+        const publisher = await connect(base, session.publishToken);
+        publisher.socket.send(JSON.stringify({ type: 'position', position: position(51.6) }));
+
+        await waitFor(() => viewer.messages.length === 2);
+        expect(viewer.messages.map(m => m.type === 'position' && m.position.latitude)).toEqual([51.5, 51.6]);
+        const polled: PollResponse = await (await poll(base, session, 0)).json();
+        expect(polled.positions.map(p => p.seq)).toEqual([1]);
+        viewer.socket.close();
+        publisher.socket.close();
+    });
+
+    it('rejects publishing with a view token', async () => {
+        const base = await startRelay();
+        const session = await createSession(base);
+        const res = await fetch(`${base}/sessions/${session.sessionId}/positions`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${session.viewToken}` },
+            body: JSON.stringify(position(51.5)),
+        });
+        expect(res.status).toBe(401);
+    });
+
+    it('serves the viewer page only for a valid token', async () => {
+        const base = await startRelay();
+        const session = await createSession(base);
+        expect((await fetch(session.viewUrl)).status).toBe(200);
+
+        const injected = await fetch(`${base}/view/${session.sessionId}?token=${encodeURIComponent('</script><script>alert(1)</script>')}`);
+        expect(injected.status).toBe(401);
+        expect(await injected.text()).not.toContain('alert(1)');
+    });
+
+    it('tells viewers and publishers when a session is ended', async () => {
+        const base = await startRelay();
+        const session = await createSession(base);
+        const viewer = await connect(base, session.viewToken);
+        const publisher = await connect(base, session.publishToken);
+
+        const res = await fetch(`${base}/sessions/${session.sessionId}`, { method: 'DELETE', headers: { Authorization: `Bearer ${session.publishToken}` } });
+        expect(res.status).toBe(204);
+        await Promise.all([viewer.closed, publisher.closed]);
+        expect(viewer.messages).toContainEqual({ type: 'ended' });
+        expect(publisher.messages).toContainEqual({ type: 'ended' });
+        expect((await poll(base, session)).status).toBe(401);
+    });
+
+    it('ends a session once it expires', async () => {
+        const base = await startRelay(50);
+        const session = await createSession(base, Date.now() + 300);
+        const publisher = await connect(base, session.publishToken);
+
+        await publisher.closed;
+        expect(publisher.messages).toContainEqual({ type: 'ended' });
+        expect((await poll(base, session)).status).toBe(401);
+    });
+
+    it('stops publishing over HTTP once the relay has ended the session', async () => {
+        const base = await startRelay();
+        const session = await createSession(base);
+        const transport = createTransport('http', base, session);
+        const posts = vi.spyOn(globalThis, 'fetch');
+
+        transport.publish(position(51.5));
+        await waitFor(() => posts.mock.calls.length === 1);
+        await endLiveSession(base, session);
+        // Ending again is fine: the session is already gone.
+        await endLiveSession(base, session);
+
+        transport.publish(position(51.6));
+        await waitFor(() => posts.mock.calls.length === 4);
+        expect((await posts.mock.results[3].value as Response).status).toBe(401);
+        transport.publish(position(51.7));
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(posts.mock.calls.length).toBe(4);
+        transport.close();
+    });
+});
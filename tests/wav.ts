@@ -0,0 +1,34 @@
+import { readFileSync, writeFileSync } from 'fs';
+
+// Minimal 16-bit PCM mono WAV reading and writing for the audio fixtures.
+
+export type PcmAudio = { samples: Float32Array; sampleRate: number };
+
+export const readWav = (path: string): PcmAudio => {
+    const file = readFileSync(path);
+    const sampleRate = file.readUInt32LE(24);
+    let offset = 12;
+    while (file.toString('ascii', offset, offset + 4) !== 'data') offset += 8 + file.readUInt32LE(offset + 4);
+    const length = file.readUInt32LE(offset + 4) / 2;
+    const samples = new Float32Array(length);
+    for (let i = 0; i < length; i++) samples[i] = file.readInt16LE(offset + 8 + i * 2) / 32768;
+    return { samples, sampleRate };
+};
+
+export const writeWav = (path: string, { samples, sampleRate }: PcmAudio) => {
+    const file = Buffer.alloc(44 + samples.length * 2);
+    file.write('RIFF', 0, 'ascii');
+    file.writeUInt32LE(36 + samples.length * 2, 4);
+    file.write('WAVEfmt ', 8, 'ascii');
+    file.writeUInt32LE(16, 16);
+    file.writeUInt16LE(1, 20); // PCM
+    file.writeUInt16LE(1, 22); // mono
+    file.writeUInt32LE(sampleRate, 24);
+    file.writeUInt32LE(sampleRate * 2, 28);
+    file.writeUInt16LE(2, 32);
+    file.writeUInt16LE(16, 34);
+    file.write('data', 36, 'ascii');
+    file.writeUInt32LE(samples.length * 2, 40);
+    samples.forEach((s, i) => file.writeInt16LE(Math.round(Math.max(-1, Math.min(1, s)) * 32767), 44 + i * 2));
+    writeFileSync(path, file);
+};